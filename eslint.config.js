@@ -51,6 +51,7 @@ export default [
         Response: 'readonly',
         Headers: 'readonly',
         Request: 'readonly',
+        URLSearchParams: 'readonly',
         btoa: 'readonly',
         atob: 'readonly',
         PromiseRejectionEvent: 'readonly',
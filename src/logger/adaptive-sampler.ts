@@ -0,0 +1,145 @@
+/**
+ * Adaptive Sampling Component
+ *
+ * Adjusts sampling rates per level to hold a target throughput, so logging
+ * stays affordable during incidents without dropping quiet-period logs. The
+ * expected volume after the configured sampling rates is measured with a
+ * sliding window counter: the previous window's count, weighted by how much
+ * of it still overlaps the sliding window, plus the current window's count.
+ * When the estimate exceeds the budget, an adaptive rate below 1 is applied
+ * on top of the configured rates; it never drops below the level's floor.
+ *
+ * @example
+ * ```typescript
+ * import { AdaptiveSampler } from './adaptive-sampler';
+ *
+ * const sampler = new AdaptiveSampler({ targetPerMinute: 600, floors: { error: 0.5 } });
+ *
+ * const rate = sampler.adjust('info', configuredRate);
+ * const kept = Math.random() < rate;
+ * sampler.record('info', kept);
+ *
+ * sampler.getStats(); // { info: { rate: 1, seen: 1, kept: 1 } }
+ * ```
+ */
+
+import type { AdaptiveSamplingConfig, LogLevel, SamplingStats } from './types.js';
+import { assertSamplingRate } from './sampling.js';
+
+/** Minute in ms, the unit of target throughputs */
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Sliding window counter and totals for one level
+ */
+interface LevelWindow {
+  windowStart: number;
+  current: number;
+  previous: number;
+  rate: number;
+  seen: number;
+  kept: number;
+}
+
+/**
+ * Adapts per-level sampling rates to a target events-per-minute budget
+ */
+export class AdaptiveSampler {
+  private readonly targets: number | Partial<Record<LogLevel, number>>;
+  private readonly windowMs: number;
+  private readonly floors: Partial<Record<LogLevel, number>>;
+  private readonly windows = new Map<LogLevel, LevelWindow>();
+
+  /**
+   * @param config - Targets, window and floors
+   */
+  constructor(config: AdaptiveSamplingConfig = {}) {
+    this.targets = config.targetPerMinute ?? 600;
+    this.windowMs = config.windowMs ?? 10000;
+    this.floors = { error: 0.1, ...config.floors };
+
+    if (!(this.windowMs > 0)) {
+      throw new TypeError(`Adaptive sampling window must be a positive number: ${config.windowMs}`);
+    }
+    const targets = typeof this.targets === 'number' ? [this.targets] : Object.values(this.targets);
+    targets.forEach(target => {
+      if (!(target === undefined || target >= 0)) {
+        throw new RangeError(`Adaptive sampling target must not be negative: ${target}`);
+      }
+    });
+    Object.values(this.floors).forEach(floor => floor !== undefined && assertSamplingRate(floor));
+  }
+
+  /**
+   * Count an event that passed the level check and adapt its sampling rate
+   *
+   * @param level - Log level of the event
+   * @param baseRate - Configured sampling rate for the event
+   * @param now - Current time in ms
+   * @returns Effective sampling rate for the event
+   */
+  adjust(level: LogLevel, baseRate: number, now: number = Date.now()): number {
+    const window = this.getWindow(level, now);
+    window.seen++;
+    window.current += baseRate;
+
+    const target = typeof this.targets === 'number' ? this.targets : this.targets[level];
+    if (target === undefined) {
+      window.rate = 1;
+      return baseRate;
+    }
+
+    const overlap = 1 - (now - window.windowStart) / this.windowMs;
+    const estimate = window.previous * overlap + window.current;
+    const budget = target * this.windowMs / MINUTE_MS;
+
+    window.rate = Math.max(Math.min(1, budget / estimate), this.floors[level] ?? 0);
+    return baseRate * window.rate;
+  }
+
+  /**
+   * Count the outcome of a sampling decision
+   *
+   * @param level - Log level of the event
+   * @param kept - Whether the event was kept
+   */
+  record(level: LogLevel, kept: boolean): void {
+    const window = this.windows.get(level);
+    if (window && kept) {
+      window.kept++;
+    }
+  }
+
+  /**
+   * Get the current adaptive rate and totals for every level seen so far
+   */
+  getStats(): SamplingStats {
+    const stats: SamplingStats = {};
+    this.windows.forEach(({ rate, seen, kept }, level) => {
+      stats[level] = { rate, seen, kept };
+    });
+    return stats;
+  }
+
+  /**
+   * Get the window for a level, rolling it forward to the current time
+   *
+   * @private
+   */
+  private getWindow(level: LogLevel, now: number): LevelWindow {
+    let window = this.windows.get(level);
+    if (!window) {
+      window = { windowStart: now, current: 0, previous: 0, rate: 1, seen: 0, kept: 0 };
+      this.windows.set(level, window);
+    }
+
+    const elapsed = Math.floor((now - window.windowStart) / this.windowMs);
+    if (elapsed > 0) {
+      window.previous = elapsed === 1 ? window.current : 0;
+      window.current = 0;
+      window.windowStart += elapsed * this.windowMs;
+    }
+
+    return window;
+  }
+}
\ No newline at end of file
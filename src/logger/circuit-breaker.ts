@@ -0,0 +1,186 @@
+/**
+ * Transport Circuit Breaker
+ *
+ * Tracks the health of one transport and stops writing to it after repeated
+ * failures, so a transport that throws on every write is not called (and does
+ * not fill the console) forever. After `failureThreshold` consecutive write
+ * failures the circuit opens and events are skipped. Once `probeIntervalMs`
+ * has passed, the next event is let through as a probe: success closes the
+ * circuit, failure keeps it open for another interval. A probe that hasn't
+ * settled after `probeTimeoutMs` counts as failed. Every state change starts a
+ * new epoch, and results of writes sent in an earlier epoch are ignored, so a
+ * slow write sent before the circuit opened cannot close it.
+ *
+ * @example
+ * ```typescript
+ * import { CircuitBreaker } from './circuit-breaker';
+ *
+ * const breaker = new CircuitBreaker({ failureThreshold: 3 }, (state, health, error) => {
+ *   console.warn(`beacon circuit ${state}`, health, error);
+ * });
+ *
+ * if (breaker.canWrite()) {
+ *   const epoch = breaker.epoch;
+ *   transport.write(event).then(
+ *     () => breaker.recordSuccess(Date.now(), epoch),
+ *     error => breaker.recordFailure(error, 'write', Date.now(), epoch)
+ *   );
+ * }
+ *
+ * breaker.health; // { state: 'closed', consecutiveFailures: 0, ... }
+ * ```
+ */
+
+import type { CircuitBreakerConfig, CircuitState, TransportHealth } from './types.js';
+
+/**
+ * Callback invoked when the circuit opens or closes
+ */
+export type CircuitStateHandler = (_state: CircuitState, _health: TransportHealth, _error?: Error) => void;
+
+/**
+ * Health tracking and circuit breaking for a single transport
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly probeIntervalMs: number;
+  private readonly probeTimeoutMs: number;
+  private readonly onStateChange: CircuitStateHandler;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private skipped = 0;
+  private lastError?: TransportHealth['lastError'];
+  private lastSuccessAt?: number;
+  private nextProbeAt?: number;
+  private probeDeadline?: number;
+  private currentEpoch = 0;
+
+  /**
+   * @param config - Threshold, probe interval and probe timeout; an infinite threshold only tracks health
+   * @param onStateChange - Receives the new state when the circuit opens or closes
+   */
+  constructor(config: CircuitBreakerConfig, onStateChange: CircuitStateHandler) {
+    this.failureThreshold = config.failureThreshold ?? 5;
+    this.probeIntervalMs = config.probeIntervalMs ?? 30000;
+    this.probeTimeoutMs = config.probeTimeoutMs ?? 10000;
+    this.onStateChange = onStateChange;
+
+    if (!(this.failureThreshold >= 1)) {
+      throw new TypeError(`Failure threshold must be at least 1: ${config.failureThreshold}`);
+    }
+    if (!(this.probeIntervalMs >= 0)) {
+      throw new TypeError(`Probe interval must not be negative: ${config.probeIntervalMs}`);
+    }
+    if (!(this.probeTimeoutMs >= 0)) {
+      throw new TypeError(`Probe timeout must not be negative: ${config.probeTimeoutMs}`);
+    }
+  }
+
+  /**
+   * Current epoch, incremented on every state change
+   *
+   * Pass the epoch read when a write was sent to `recordSuccess()` or
+   * `recordFailure()` so results of writes from an earlier state are ignored.
+   */
+  get epoch(): number {
+    return this.currentEpoch;
+  }
+
+  /**
+   * Current health snapshot
+   */
+  get health(): TransportHealth {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      skipped: this.skipped,
+      ...(this.lastError && { lastError: { ...this.lastError } }),
+      ...(this.lastSuccessAt !== undefined && { lastSuccessAt: this.lastSuccessAt }),
+      ...(this.nextProbeAt !== undefined && { nextProbeAt: this.nextProbeAt })
+    };
+  }
+
+  /**
+   * Check whether an event may be written, letting a probe through when due
+   *
+   * @param now - Current time in ms
+   * @returns False if the event should be skipped
+   */
+  canWrite(now: number = Date.now()): boolean {
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'half-open' && now >= (this.probeDeadline ?? Infinity)) {
+      this.recordFailure(new Error(`Probe write did not settle within ${this.probeTimeoutMs}ms`), 'write', now);
+    }
+
+    if (this.state === 'open' && now >= (this.nextProbeAt ?? 0)) {
+      this.transition('half-open');
+      this.probeDeadline = now + this.probeTimeoutMs;
+      return true;
+    }
+
+    this.skipped++;
+    return false;
+  }
+
+  /**
+   * Record a successful write, closing the circuit after a successful probe
+   *
+   * @param now - Current time in ms
+   * @param epoch - Epoch the write was sent in; ignored if the state changed since
+   */
+  recordSuccess(now: number = Date.now(), epoch: number = this.currentEpoch): void {
+    if (epoch !== this.currentEpoch) return;
+
+    this.consecutiveFailures = 0;
+    this.lastSuccessAt = now;
+
+    if (this.state !== 'closed') {
+      this.transition('closed');
+      this.nextProbeAt = undefined;
+      this.onStateChange('closed', this.health);
+    }
+  }
+
+  /**
+   * Record a failed operation; write failures count towards opening the circuit
+   *
+   * @param error - Error thrown or rejected by the transport
+   * @param operation - Operation that failed (write, flush, close)
+   * @param now - Current time in ms
+   * @param epoch - Epoch the write was sent in; if the state changed since, only the totals and last error are updated
+   */
+  recordFailure(error: Error, operation: string, now: number = Date.now(), epoch: number = this.currentEpoch): void {
+    this.totalFailures++;
+    this.lastError = {
+      name: error?.name ?? 'Error',
+      message: error?.message ?? String(error),
+      operation,
+      timestamp: now
+    };
+    if (operation !== 'write' || epoch !== this.currentEpoch) return;
+
+    this.consecutiveFailures++;
+    const reopen = this.state === 'half-open';
+    if (reopen || (this.state === 'closed' && this.consecutiveFailures >= this.failureThreshold)) {
+      this.transition('open');
+      this.nextProbeAt = now + this.probeIntervalMs;
+      if (!reopen) {
+        this.onStateChange('open', this.health, error);
+      }
+    }
+  }
+
+  /**
+   * Change state, starting a new epoch
+   *
+   * @private
+   */
+  private transition(state: CircuitState): void {
+    this.state = state;
+    this.probeDeadline = undefined;
+    this.currentEpoch++;
+  }
+}
\ No newline at end of file
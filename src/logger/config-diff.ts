@@ -0,0 +1,64 @@
+/**
+ * Configuration Diffing
+ *
+ * Finds the top-level keys whose values differ between two configuration
+ * objects. Values are compared structurally: plain objects and arrays by
+ * their entries, regular expressions by source and flags, and anything else,
+ * such as functions and transports, by identity. A missing key and an
+ * undefined value are treated as equal.
+ *
+ * @example
+ * ```typescript
+ * import { diffConfig } from './config-diff';
+ *
+ * diffConfig(
+ *   { level: 'info', sampling: { debug: 1 } },
+ *   { level: 'info', sampling: { debug: 0.1 } }
+ * ); // ['sampling']
+ * ```
+ */
+
+/**
+ * List the keys whose values differ between two configurations
+ *
+ * @param oldConfig - Configuration before the change
+ * @param newConfig - Configuration after the change
+ * @returns Changed keys, in the order they first appear
+ */
+export function diffConfig(oldConfig: Record<string, unknown>, newConfig: Record<string, unknown>): string[] {
+  const keys = new Set([...Object.keys(oldConfig), ...Object.keys(newConfig)]);
+  return [...keys].filter(key => !isEqualValue(oldConfig[key], newConfig[key]));
+}
+
+/**
+ * Compare two configuration values structurally
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if the values are equivalent
+ */
+export function isEqualValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+
+  if (a instanceof RegExp && b instanceof RegExp) {
+    return a.source === b.source && a.flags === b.flags;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => isEqualValue(value, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    return diffConfig(a, b).length === 0;
+  }
+  return false;
+}
+
+/**
+ * Check whether a value is a plain object literal
+ *
+ * @private
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
\ No newline at end of file
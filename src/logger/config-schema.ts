@@ -0,0 +1,388 @@
+/**
+ * Logger Configuration Schema
+ *
+ * JSON Schema (draft-07) for logger configuration written as JSON, and a
+ * small validator for the subset of keywords the schema uses: `type`,
+ * `enum`, `const`, `properties`, `required`, `additionalProperties`, `items`,
+ * `minItems`, `minimum`/`maximum` and their exclusive forms, `minLength`,
+ * `pattern`, `format` (`regex` and `date-time`), `allOf` and `if`/`then`.
+ * Keywords only apply to values of the type they describe, as in JSON
+ * Schema. Errors name the path of the offending value, e.g.
+ * `transports[1].batchSize must be > 0`.
+ *
+ * Transport options are described by the schemas of the registered
+ * transport factories; see `getLoggerConfigSchema()`.
+ *
+ * @example
+ * ```typescript
+ * import { LOGGER_CONFIG_SCHEMA, validateSchema } from './config-schema';
+ *
+ * validateSchema({ level: 'debug', sampling: { debug: 2 } }, LOGGER_CONFIG_SCHEMA);
+ * // ['sampling.debug must be <= 1']
+ * ```
+ */
+
+/**
+ * Type names of JSON Schema
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The JSON Schema keywords the validator supports
+ */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: readonly unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  pattern?: string;
+  format?: 'regex' | 'date-time';
+  allOf?: JsonSchema[];
+  if?: JsonSchema;
+  then?: JsonSchema;
+}
+
+/** A sampling rate between 0 and 1 */
+const RATE: JsonSchema = { type: 'number', minimum: 0, maximum: 1 };
+
+/** A built-in or registered level name */
+const LEVEL: JsonSchema = { type: 'string', minLength: 1 };
+
+/** Sampling rates by level */
+const LEVEL_RATES: JsonSchema = { type: 'object', additionalProperties: RATE };
+
+/** A list of component names or patterns */
+const COMPONENTS: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+/**
+ * Schema of a custom redaction pattern, with the expression as a string
+ */
+const REDACTION_PATTERN: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    pattern: { type: 'string', minLength: 1, format: 'regex' },
+    flags: { type: 'string', pattern: '^[dgimsuy]*$' },
+    replacement: { type: 'string' },
+    description: { type: 'string' },
+    defaultEnabled: { type: 'boolean' },
+    priority: { enum: ['high', 'medium', 'low'] }
+  },
+  required: ['pattern', 'replacement'],
+  additionalProperties: false
+};
+
+/**
+ * Schema of a transport entry; its options are checked by the transport factory's schema
+ */
+export const TRANSPORT_SPEC_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', minLength: 1 }
+  },
+  required: ['type']
+};
+
+/**
+ * JSON Schema of logger configuration written as JSON
+ *
+ * Transports are given as `{ "type": "console", ...options }` entries. The
+ * options of each type are only checked by the schema returned from
+ * `getLoggerConfigSchema()`, which adds the registered factories' schemas.
+ */
+export const LOGGER_CONFIG_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'lever-ui-logger configuration',
+  type: 'object',
+  properties: {
+    level: LEVEL,
+    component: { type: 'string', minLength: 1 },
+    defaultContext: { type: 'object' },
+    sampling: LEVEL_RATES,
+    redaction: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        mode: { enum: ['strict', 'balanced', 'permissive', 'off'] },
+        patterns: { type: 'array', items: REDACTION_PATTERN },
+        enabledPatterns: { type: 'array', items: { type: 'string' } },
+        disabledPatterns: { type: 'array', items: { type: 'string' } },
+        hashRedaction: { type: 'boolean' },
+        differentialPrivacy: { type: 'boolean' },
+        performanceThreshold: { type: 'number', minimum: 0 }
+      },
+      additionalProperties: false
+    },
+    transports: { type: 'array', items: TRANSPORT_SPEC_SCHEMA },
+    captureUnhandledErrors: { type: 'boolean' },
+    captureUnhandledRejections: { type: 'boolean' },
+    captureConsoleErrors: { type: 'boolean' },
+    levels: { type: ['string', 'object'], additionalProperties: LEVEL },
+    contextStorage: { enum: ['auto', 'sync', 'async-local', 'zone'] },
+    levelOverrides: {
+      type: ['boolean', 'object'],
+      properties: {
+        sources: { type: 'array', items: { enum: ['url', 'storage', 'env'] } },
+        queryParam: { type: 'string', minLength: 1 },
+        storageKey: { type: 'string', minLength: 1 },
+        envVars: { type: 'array', items: { type: 'string', minLength: 1 } }
+      },
+      additionalProperties: false
+    },
+    customLevels: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          priority: { type: 'number' },
+          severity: { enum: ['trace', 'debug', 'info', 'warn', 'error'] },
+          consoleMethod: { enum: ['trace', 'debug', 'info', 'warn', 'error', 'log'] },
+          color: { type: 'string' },
+          browserStyle: { type: 'string' }
+        },
+        required: ['name', 'priority'],
+        additionalProperties: false
+      }
+    },
+    dedupe: {
+      type: ['boolean', 'object'],
+      properties: {
+        windowMs: { type: 'number', exclusiveMinimum: 0 },
+        maxEntries: { type: 'integer', minimum: 1 }
+      },
+      additionalProperties: false
+    },
+    flightRecorder: {
+      type: ['boolean', 'object'],
+      properties: {
+        maxEvents: { type: 'integer', minimum: 1 },
+        maxBytes: { type: 'integer', minimum: 1 },
+        triggerLevel: LEVEL
+      },
+      additionalProperties: false
+    },
+    keySampling: {
+      type: ['boolean', 'object'],
+      properties: {
+        key: { enum: ['session', 'user', 'trace'] },
+        components: {
+          type: 'object',
+          additionalProperties: { type: ['number', 'object'], minimum: 0, maximum: 1, additionalProperties: RATE }
+        }
+      },
+      additionalProperties: false
+    },
+    adaptiveSampling: {
+      type: ['boolean', 'object'],
+      properties: {
+        targetPerMinute: {
+          type: ['number', 'object'],
+          minimum: 0,
+          additionalProperties: { type: 'number', minimum: 0 }
+        },
+        windowMs: { type: 'number', exclusiveMinimum: 0 },
+        floors: LEVEL_RATES
+      },
+      additionalProperties: false
+    },
+    queue: {
+      type: ['boolean', 'object'],
+      properties: {
+        maxSize: { type: 'integer', minimum: 1 },
+        overflow: { enum: ['drop-oldest', 'drop-newest', 'block', 'drop-below'] },
+        dropBelow: LEVEL,
+        flushTimeoutMs: { type: 'number', minimum: 0 }
+      },
+      additionalProperties: false
+    },
+    routes: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          minLevel: LEVEL,
+          components: COMPONENTS,
+          excludeComponents: COMPONENTS
+        },
+        additionalProperties: false
+      }
+    },
+    circuitBreaker: {
+      type: ['boolean', 'object'],
+      properties: {
+        failureThreshold: { type: 'integer', minimum: 1 },
+        probeIntervalMs: { type: 'number', minimum: 0 },
+        probeTimeoutMs: { type: 'number', minimum: 0 }
+      },
+      additionalProperties: false
+    },
+    metrics: {
+      type: 'object',
+      properties: {
+        flushIntervalMs: { type: 'number', exclusiveMinimum: 0 },
+        buckets: { type: 'array', minItems: 1, items: { type: 'number' } },
+        maxSeries: { type: 'integer', minimum: 1 }
+      },
+      additionalProperties: false
+    }
+  },
+  additionalProperties: false
+};
+
+/**
+ * Validate a value against a schema
+ *
+ * @param value - Parsed JSON value
+ * @param schema - Schema using the supported keywords
+ * @param path - Path of the value, used as the prefix of error messages
+ * @returns One message per violation; empty if the value is valid
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = ''): string[] {
+  const subject = path || 'config';
+
+  const types = schema.type === undefined ? undefined : [schema.type].flat();
+  if (types && !types.some(type => matchesType(value, type))) {
+    return [`${subject} must be ${types.map(describeType).join(' or ')}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${subject} must be one of ${schema.enum.map(entry => JSON.stringify(entry)).join(', ')}`];
+  }
+  if ('const' in schema && value !== schema.const) {
+    return [`${subject} must be ${JSON.stringify(schema.const)}`];
+  }
+
+  const errors: string[] = [];
+  if (typeof value === 'number') {
+    errors.push(...checkRange(value, schema, subject));
+  } else if (typeof value === 'string') {
+    errors.push(...checkString(value, schema, subject));
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${subject} must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+    }
+    if (schema.items) {
+      const { items } = schema;
+      value.forEach((item, i) => errors.push(...validateSchema(item, items, `${path}[${i}]`)));
+    }
+  } else if (isObject(value)) {
+    errors.push(...checkObject(value, schema, path));
+  }
+
+  schema.allOf?.forEach(part => errors.push(...validateSchema(value, part, path)));
+  if (schema.if && schema.then && validateSchema(value, schema.if, path).length === 0) {
+    errors.push(...validateSchema(value, schema.then, path));
+  }
+  return errors;
+}
+
+/**
+ * Check numeric bounds
+ *
+ * @private
+ */
+function checkRange(value: number, schema: JsonSchema, subject: string): string[] {
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema;
+  if (minimum !== undefined && value < minimum) return [`${subject} must be >= ${minimum}`];
+  if (exclusiveMinimum !== undefined && value <= exclusiveMinimum) return [`${subject} must be > ${exclusiveMinimum}`];
+  if (maximum !== undefined && value > maximum) return [`${subject} must be <= ${maximum}`];
+  if (exclusiveMaximum !== undefined && value >= exclusiveMaximum) return [`${subject} must be < ${exclusiveMaximum}`];
+  return [];
+}
+
+/**
+ * Check string length, pattern and format
+ *
+ * @private
+ */
+function checkString(value: string, schema: JsonSchema, subject: string): string[] {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    return [schema.minLength === 1 ? `${subject} must not be empty` : `${subject} must be at least ${schema.minLength} characters`];
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    return [`${subject} must match ${schema.pattern}`];
+  }
+  if (schema.format === 'regex') {
+    try {
+      new RegExp(value);
+    } catch {
+      return [`${subject} must be a valid regular expression`];
+    }
+  }
+  if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+    return [`${subject} must be a date-time`];
+  }
+  return [];
+}
+
+/**
+ * Check required, declared and additional properties
+ *
+ * @private
+ */
+function checkObject(value: Record<string, unknown>, schema: JsonSchema, path: string): string[] {
+  const errors: string[] = [];
+  const join = (key: string) => (path ? `${path}.${key}` : key);
+
+  schema.required?.forEach(key => {
+    if (value[key] === undefined) errors.push(`${join(key)} is required`);
+  });
+
+  Object.keys(value).forEach(key => {
+    const property = schema.properties?.[key];
+    if (property) {
+      errors.push(...validateSchema(value[key], property, join(key)));
+    } else if (schema.additionalProperties === false) {
+      errors.push(`${join(key)} is not a known option`);
+    } else if (typeof schema.additionalProperties === 'object') {
+      errors.push(...validateSchema(value[key], schema.additionalProperties, join(key)));
+    }
+  });
+  return errors;
+}
+
+/**
+ * Check a value against a JSON Schema type name
+ *
+ * @private
+ */
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return isObject(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+/**
+ * Name a type for error messages
+ *
+ * @private
+ */
+function describeType(type: JsonSchemaType): string {
+  return type === 'null' ? 'null' : `${/^[aeiou]/.test(type) ? 'an' : 'a'} ${type}`;
+}
+
+/**
+ * Check whether a value is a non-array object
+ *
+ * @private
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
\ No newline at end of file
@@ -3,7 +3,8 @@
  * 
  * Manages hierarchical context for logging, supporting context inheritance,
  * merging, and isolation. Provides efficient context stacking for child
- * loggers and temporary context scopes.
+ * loggers and temporary context scopes. Scoped context and active spans are
+ * held by a pluggable ContextStorage so async call chains can be isolated.
  * 
  * @example
  * ```typescript
@@ -22,28 +23,34 @@
  * ```
  */
 
+import type { ContextFrame, ContextStorage, SpanHandle } from './types.js';
+import { SyncContextStorage, removeFrame } from './context-storage.js';
+
 /**
  * Manages logging context with support for inheritance and merging
  */
 export class ContextManager {
-  private readonly baseContext: Record<string, unknown>;
+  private baseContext: Record<string, unknown>;
   private additionalContext: Record<string, unknown> = {};
-  private readonly contextStack: Record<string, unknown>[] = [];
+  private readonly storage: ContextStorage;
   private readonly parent?: ContextManager;
 
   /**
    * Creates a new context manager
    * 
-   * @param baseContext - Base context that cannot be modified
+   * @param baseContext - Base context, only replaced through setBaseContext()
    * @param parent - Optional parent context manager for inheritance
+   * @param storage - Storage for scoped context and spans (default: synchronous stack)
    */
   constructor(
     baseContext: Record<string, unknown> = {},
-    parent?: ContextManager
+    parent?: ContextManager,
+    storage: ContextStorage = new SyncContextStorage()
   ) {
     // Deep clone the base context to prevent external modifications
     this.baseContext = ContextManager.deepCloneStatic(baseContext);
     this.parent = parent;
+    this.storage = storage;
     
     // Inherit parent's context if available
     if (parent) {
@@ -67,8 +74,10 @@ export class ContextManager {
     merged = { ...merged, ...this.additionalContext };
     
     // Apply context stack (each level overrides previous)
-    for (const stackContext of this.contextStack) {
-      merged = { ...merged, ...stackContext };
+    for (const frame of this.storage.getFrames()) {
+      if (frame.context) {
+        merged = { ...merged, ...frame.context };
+      }
     }
     
     return merged;
@@ -81,6 +90,17 @@ export class ContextManager {
     return { ...this.baseContext };
   }
 
+  /**
+   * Replace the base context, e.g. when the logger's default context is reconfigured
+   * 
+   * Children created earlier keep the context they snapshotted.
+   * 
+   * @param context - New base context
+   */
+  setBaseContext(context: Record<string, unknown>): void {
+    this.baseContext = this.deepClone(context);
+  }
+
   /**
    * Get only the additional context
    */
@@ -127,7 +147,13 @@ export class ContextManager {
    */
   clear(): void {
     this.additionalContext = {};
-    this.contextStack.length = 0;
+
+    const frames = this.storage.getFrames();
+    for (let i = frames.length - 1; i >= 0; i--) {
+      if (frames[i].context) {
+        frames.splice(i, 1);
+      }
+    }
   }
 
   /**
@@ -137,16 +163,7 @@ export class ContextManager {
    * @returns Function to pop this context
    */
   push(context: Record<string, unknown>): () => void {
-    this.contextStack.push({ ...context });
-    
-    // Return a function to pop this specific context
-    const stackIndex = this.contextStack.length - 1;
-    return () => {
-      // Only pop if it's still at the expected position
-      if (this.contextStack.length > stackIndex) {
-        this.contextStack.splice(stackIndex, 1);
-      }
-    };
+    return this.pushFrame({ context: { ...context } });
   }
 
   /**
@@ -155,7 +172,52 @@ export class ContextManager {
    * @returns The popped context or undefined
    */
   pop(): Record<string, unknown> | undefined {
-    return this.contextStack.pop();
+    const frames = this.storage.getFrames();
+    for (let i = frames.length - 1; i >= 0; i--) {
+      if (frames[i].context) {
+        return frames.splice(i, 1)[0].context;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Make a span the active span until the returned function is called
+   * 
+   * Spans may be deactivated out of order; the most recently pushed span
+   * that is still active is reported by getActiveSpan().
+   * 
+   * @param span - Span to activate
+   * @returns Function to deactivate this span
+   */
+  pushSpan(span: SpanHandle): () => void {
+    return this.pushFrame({ span });
+  }
+
+  /**
+   * Get the currently active span
+   * 
+   * @returns Innermost active span or undefined
+   */
+  getActiveSpan(): SpanHandle | undefined {
+    const frames = this.storage.getFrames();
+    for (let i = frames.length - 1; i >= 0; i--) {
+      if (frames[i].span) {
+        return frames[i].span;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Execute a function with a span active for its whole (async) execution
+   * 
+   * @param span - Span to activate
+   * @param fn - Function to execute
+   * @returns Result of the function
+   */
+  withSpan<T>(span: SpanHandle, fn: () => T): T {
+    return this.storage.run({ span }, fn);
   }
 
   /**
@@ -169,17 +231,16 @@ export class ContextManager {
     context: Record<string, unknown>,
     fn: () => T
   ): T {
-    const popContext = this.push(context);
-    try {
-      return fn();
-    } finally {
-      popContext();
-    }
+    return this.storage.run({ context: { ...context } }, fn);
   }
 
   /**
    * Execute an async function with temporary context
    * 
+   * The context is isolated to this async call chain when the storage
+   * supports it (AsyncLocalStorage, Zone.js); with the synchronous stack it
+   * is visible to concurrent work until the promise settles.
+   * 
    * @param context - Temporary context
    * @param fn - Async function to execute
    * @returns Promise with result of the function
@@ -188,24 +249,23 @@ export class ContextManager {
     context: Record<string, unknown>,
     fn: () => Promise<T>
   ): Promise<T> {
-    const popContext = this.push(context);
-    try {
-      return await fn();
-    } finally {
-      popContext();
-    }
+    return this.storage.run({ context: { ...context } }, fn);
   }
 
   /**
    * Create a child context manager
    * 
+   * The child snapshots the current context and shares this manager's
+   * storage, so scoped context and active spans remain visible to it.
+   * 
    * @param additionalContext - Additional context for the child
    * @returns New ContextManager instance
    */
   createChild(additionalContext: Record<string, unknown> = {}): ContextManager {
     const child = new ContextManager(
       { ...this.getContext(), ...additionalContext },
-      this
+      this,
+      this.storage
     );
     return child;
   }
@@ -217,11 +277,13 @@ export class ContextManager {
    * @returns New ContextManager instance
    */
   clone(includeStack = false): ContextManager {
-    const cloned = new ContextManager(this.baseContext);
+    const cloned = new ContextManager(this.baseContext, undefined, this.storage.fork());
     cloned.additionalContext = { ...this.additionalContext };
     
     if (includeStack) {
-      cloned.contextStack.push(...this.contextStack.map(ctx => ({ ...ctx })));
+      cloned.storage.getFrames().push(...this.storage.getFrames().map(frame => (
+        frame.context ? { ...frame, context: { ...frame.context } } : { ...frame }
+      )));
     }
     
     return cloned;
@@ -264,7 +326,16 @@ export class ContextManager {
    * @returns Stack depth
    */
   get stackDepth(): number {
-    return this.contextStack.length;
+    return this.storage.getFrames().filter(frame => frame.context).length;
+  }
+
+  /**
+   * Get the name of the context storage strategy
+   * 
+   * @returns Storage name, e.g. 'sync' or 'async-local'
+   */
+  get storageName(): string {
+    return this.storage.name;
   }
 
   /**
@@ -327,6 +398,19 @@ export class ContextManager {
     return filtered;
   }
 
+  /**
+   * Add a frame to the frames visible to the current execution
+   * 
+   * @private
+   * @param frame - Frame to add
+   * @returns Function removing this specific frame
+   */
+  private pushFrame(frame: ContextFrame): () => void {
+    const frames = this.storage.getFrames();
+    frames.push(frame);
+    return () => removeFrame(frames, frame);
+  }
+
   /**
    * Static deep clone helper for use in constructor
    * 
@@ -348,6 +432,12 @@ export class ContextManager {
             cloned[key] = [...value];
           } else if (value instanceof Date) {
             cloned[key] = new Date(value.getTime());
+          } else if (value instanceof Map) {
+            cloned[key] = new Map(value);
+          } else if (value instanceof Set) {
+            cloned[key] = new Set(value);
+          } else if (value instanceof Error) {
+            cloned[key] = value;
           } else {
             // Recursively clone nested objects
             cloned[key] = ContextManager.deepCloneStatic(value as Record<string, unknown>);
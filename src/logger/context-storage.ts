@@ -0,0 +1,252 @@
+/**
+ * Context Storage Strategies
+ *
+ * Pluggable storage for the scoped context frames and active spans held by
+ * `ContextManager`. The synchronous stack is shared by everything running on
+ * the thread, so concurrent `withContextAsync()` calls see each other's
+ * context. AsyncLocalStorage (Node.js) and Zone.js keep a separate frame list
+ * per async call chain instead.
+ *
+ * @example
+ * ```typescript
+ * import { createContextStorage, AsyncLocalContextStorage } from './context-storage';
+ *
+ * createContextStorage('auto').name; // 'async-local' on Node.js, 'sync' in most browsers
+ *
+ * // Bundled environments without process.getBuiltinModule can inject the class
+ * import { AsyncLocalStorage } from 'node:async_hooks';
+ * const logger = createLogger({ contextStorage: new AsyncLocalContextStorage(AsyncLocalStorage) });
+ * ```
+ */
+
+import type { ContextFrame, ContextStorage, ContextStorageMode } from './types.js';
+import { isPromiseLike } from './instrumentation.js';
+
+/**
+ * Minimal AsyncLocalStorage surface (avoids a dependency on Node.js types)
+ */
+export interface AsyncLocalStorageLike<T> {
+  getStore(): T | undefined;
+  run<R>(_store: T, _fn: () => R): R;
+}
+
+/**
+ * Constructor for an AsyncLocalStorage-compatible class
+ */
+export type AsyncLocalStorageConstructor = new () => AsyncLocalStorageLike<ContextFrame[]>;
+
+/**
+ * Minimal Zone.js surface
+ *
+ * @private
+ */
+interface ZoneLike {
+  get(_key: string): unknown;
+  fork(_spec: { name: string; properties?: Record<string, unknown> }): ZoneLike;
+  run<T>(_fn: () => T): T;
+}
+
+/** Zone property under which frames are stored */
+const ZONE_FRAMES_KEY = 'leverLoggerContextFrames';
+
+/**
+ * Remove a frame from a frame list by identity
+ *
+ * @param frames - Frame list to modify
+ * @param frame - Frame to remove (no-op if absent)
+ */
+export function removeFrame(frames: ContextFrame[], frame: ContextFrame): void {
+  const index = frames.lastIndexOf(frame);
+  if (index !== -1) {
+    frames.splice(index, 1);
+  }
+}
+
+/**
+ * Single synchronous stack shared by all executions (browser default)
+ *
+ * Frames added by run() stay visible until the function returns or, for
+ * promises, settles - including to unrelated concurrent async work.
+ */
+export class SyncContextStorage implements ContextStorage {
+  public readonly name = 'sync';
+  private readonly frames: ContextFrame[] = [];
+
+  getFrames(): ContextFrame[] {
+    return this.frames;
+  }
+
+  run<T>(frame: ContextFrame, fn: () => T): T {
+    this.frames.push(frame);
+
+    let result: T;
+    try {
+      result = fn();
+    } catch (error) {
+      removeFrame(this.frames, frame);
+      throw error;
+    }
+
+    if (isPromiseLike(result)) {
+      const remove = (): void => removeFrame(this.frames, frame);
+      result.then(remove, remove);
+    } else {
+      removeFrame(this.frames, frame);
+    }
+    return result;
+  }
+
+  fork(): ContextStorage {
+    return new SyncContextStorage();
+  }
+}
+
+/**
+ * AsyncLocalStorage-backed storage isolating frames per async call chain
+ *
+ * Each run() copies the current frames into a new store, so concurrent
+ * scopes never see each other's frames. Frames pushed outside any run()
+ * scope go to a root list shared like the synchronous stack.
+ */
+export class AsyncLocalContextStorage implements ContextStorage {
+  public readonly name = 'async-local';
+  private readonly AsyncLocalStorageClass: AsyncLocalStorageConstructor;
+  private readonly storage: AsyncLocalStorageLike<ContextFrame[]>;
+  private readonly rootFrames: ContextFrame[] = [];
+
+  /**
+   * Creates AsyncLocalStorage-backed context storage
+   *
+   * @param AsyncLocalStorageClass - AsyncLocalStorage class (default: detected from the runtime)
+   * @throws {Error} If AsyncLocalStorage is not available
+   */
+  constructor(AsyncLocalStorageClass: AsyncLocalStorageConstructor | undefined = detectAsyncLocalStorage()) {
+    if (!AsyncLocalStorageClass) {
+      throw new Error('AsyncLocalStorage is not available in this environment');
+    }
+    this.AsyncLocalStorageClass = AsyncLocalStorageClass;
+    this.storage = new AsyncLocalStorageClass();
+  }
+
+  getFrames(): ContextFrame[] {
+    return this.storage.getStore() ?? this.rootFrames;
+  }
+
+  run<T>(frame: ContextFrame, fn: () => T): T {
+    return this.storage.run([...this.getFrames(), frame], fn);
+  }
+
+  fork(): ContextStorage {
+    return new AsyncLocalContextStorage(this.AsyncLocalStorageClass);
+  }
+}
+
+/**
+ * Zone.js-backed storage isolating frames per forked zone
+ *
+ * Intended for browser apps that already load Zone.js (e.g. Angular).
+ */
+export class ZoneContextStorage implements ContextStorage {
+  public readonly name = 'zone';
+  private readonly rootFrames: ContextFrame[] = [];
+  private readonly key = `${ZONE_FRAMES_KEY}:${Math.random().toString(36).slice(2)}`;
+
+  /**
+   * Creates Zone.js-backed context storage
+   *
+   * @throws {Error} If Zone.js is not loaded
+   */
+  constructor() {
+    if (!getCurrentZone()) {
+      throw new Error('Zone.js is not available in this environment');
+    }
+  }
+
+  getFrames(): ContextFrame[] {
+    const frames = getCurrentZone()?.get(this.key);
+    return Array.isArray(frames) ? frames : this.rootFrames;
+  }
+
+  run<T>(frame: ContextFrame, fn: () => T): T {
+    const zone = getCurrentZone()!.fork({
+      name: 'lever-ui-logger-context',
+      properties: { [this.key]: [...this.getFrames(), frame] }
+    });
+    return zone.run(fn);
+  }
+
+  fork(): ContextStorage {
+    return new ZoneContextStorage();
+  }
+}
+
+/**
+ * Create context storage for a configured strategy
+ *
+ * `'auto'` prefers AsyncLocalStorage, then Zone.js, and falls back to the
+ * synchronous stack. Custom storage instances are returned as-is.
+ *
+ * @param mode - Strategy name or custom storage
+ * @returns Context storage instance
+ * @throws {Error} If an explicitly requested strategy is unavailable
+ */
+export function createContextStorage(mode: ContextStorageMode | ContextStorage = 'auto'): ContextStorage {
+  if (typeof mode === 'object') {
+    return mode;
+  }
+
+  switch (mode) {
+    case 'sync':
+      return new SyncContextStorage();
+    case 'async-local':
+      return new AsyncLocalContextStorage();
+    case 'zone':
+      return new ZoneContextStorage();
+    case 'auto': {
+      const AsyncLocalStorageClass = detectAsyncLocalStorage();
+      if (AsyncLocalStorageClass) {
+        return new AsyncLocalContextStorage(AsyncLocalStorageClass);
+      }
+      return getCurrentZone() ? new ZoneContextStorage() : new SyncContextStorage();
+    }
+    default:
+      throw new TypeError(`Invalid context storage: ${String(mode)}`);
+  }
+}
+
+/**
+ * Find an AsyncLocalStorage class in the current runtime
+ *
+ * Checks for a global (edge runtimes) and Node.js' `process.getBuiltinModule`,
+ * which loads `node:async_hooks` synchronously without a bundler-visible import.
+ *
+ * @returns AsyncLocalStorage class or undefined if unavailable
+ */
+export function detectAsyncLocalStorage(): AsyncLocalStorageConstructor | undefined {
+  const globals = globalThis as {
+    AsyncLocalStorage?: AsyncLocalStorageConstructor;
+    process?: { getBuiltinModule?: (_id: string) => unknown };
+  };
+
+  if (typeof globals.AsyncLocalStorage === 'function') {
+    return globals.AsyncLocalStorage;
+  }
+
+  try {
+    const asyncHooks = globals.process?.getBuiltinModule?.('node:async_hooks') as
+      { AsyncLocalStorage?: AsyncLocalStorageConstructor } | undefined;
+    return typeof asyncHooks?.AsyncLocalStorage === 'function' ? asyncHooks.AsyncLocalStorage : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the current Zone.js zone, if Zone.js is loaded
+ *
+ * @private
+ */
+function getCurrentZone(): ZoneLike | undefined {
+  const zone = (globalThis as { Zone?: { current?: ZoneLike } }).Zone;
+  return zone?.current;
+}
\ No newline at end of file
@@ -0,0 +1,155 @@
+/**
+ * Duplicate Message Suppression Component
+ *
+ * Collapses bursts of identical log events, such as a warning logged on every
+ * frame of a render loop, so they don't flood transports or their rate limits.
+ * Events are fingerprinted by level, component, message and template. The
+ * first occurrence is forwarded; later ones within the window are counted, and
+ * a single "repeated N times" summary is emitted when the window closes or on
+ * `flush()`.
+ *
+ * @example
+ * ```typescript
+ * import { DuplicateSuppressor } from './duplicate-suppressor';
+ *
+ * const suppressor = new DuplicateSuppressor(
+ *   { windowMs: 1000 },
+ *   summary => registry.writeToAll(summary)
+ * );
+ *
+ * if (!suppressor.isDuplicate(eventData)) {
+ *   registry.writeToAll(eventData);
+ * }
+ *
+ * suppressor.flush(); // emits pending summaries
+ * ```
+ */
+
+import type { DedupeConfig, LogEventData } from './types.js';
+
+/**
+ * Callback invoked with every summary event
+ */
+export type RepeatSummaryHandler = (_summary: LogEventData) => void;
+
+/**
+ * Occurrences of one fingerprint within the current window
+ */
+interface DuplicateEntry {
+  event: LogEventData;
+  count: number;
+  lastTimestamp: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Suppresses duplicate log events and summarizes them per window
+ */
+export class DuplicateSuppressor {
+  private readonly windowMs: number;
+  private readonly maxEntries: number;
+  private readonly onSummary: RepeatSummaryHandler;
+  private readonly entries = new Map<string, DuplicateEntry>();
+
+  /**
+   * @param config - Window and tracking limits
+   * @param onSummary - Receives a summary event for every suppressed burst
+   */
+  constructor(config: DedupeConfig, onSummary: RepeatSummaryHandler) {
+    this.windowMs = config.windowMs ?? 1000;
+    this.maxEntries = config.maxEntries ?? 1000;
+    this.onSummary = onSummary;
+
+    if (!(this.windowMs > 0)) {
+      throw new TypeError(`Dedupe window must be a positive number: ${config.windowMs}`);
+    }
+  }
+
+  /**
+   * Number of fingerprints currently tracked
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Record an event and report whether it should be dropped
+   *
+   * @param event - Event about to be written
+   * @returns True if an identical event was already forwarded in this window
+   */
+  isDuplicate(event: LogEventData): boolean {
+    const key = fingerprint(event);
+    const entry = this.entries.get(key);
+
+    if (entry) {
+      entry.count++;
+      entry.lastTimestamp = event.timestamp;
+      return true;
+    }
+
+    // Make room by closing the oldest window early
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.close(oldest);
+    }
+
+    const timer = setTimeout(() => this.close(key), this.windowMs);
+    (timer as { unref?: () => void }).unref?.();
+    this.entries.set(key, { event, count: 0, lastTimestamp: event.timestamp, timer });
+    return false;
+  }
+
+  /**
+   * Close all windows, emitting summaries for suppressed events
+   */
+  flush(): void {
+    [...this.entries.keys()].forEach(key => this.close(key));
+  }
+
+  /**
+   * Close a window and emit its summary if anything was suppressed
+   *
+   * @private
+   */
+  private close(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    clearTimeout(entry.timer);
+    this.entries.delete(key);
+
+    if (entry.count > 0) {
+      this.onSummary(createSummary(entry));
+    }
+  }
+}
+
+/**
+ * Fingerprint an event by level, component, message and template
+ *
+ * @private
+ */
+function fingerprint(event: LogEventData): string {
+  return [event.level, event.component, event.messageTemplate ?? '', event.message].join('\u0000');
+}
+
+/**
+ * Build the summary event for a closed window
+ *
+ * @private
+ */
+function createSummary({ event, count, lastTimestamp }: DuplicateEntry): LogEventData {
+  const times = count === 1 ? 'time' : 'times';
+
+  return {
+    ...event,
+    message: `${event.message} (repeated ${count} ${times})`,
+    timestamp: Date.now(),
+    repeated: {
+      count,
+      firstTimestamp: event.timestamp,
+      lastTimestamp
+    }
+  };
+}
\ No newline at end of file
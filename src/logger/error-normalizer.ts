@@ -0,0 +1,105 @@
+/**
+ * Error normalization utilities
+ *
+ * JavaScript allows any value to be thrown. These helpers turn whatever was
+ * caught - an `Error`, a `DOMException`, a string, a plain object or a
+ * primitive - into the name/message/stack triple used by `ErrorData`.
+ *
+ * @example
+ * ```typescript
+ * import { normalizeError } from './error-normalizer';
+ *
+ * normalizeError(new TypeError('x is undefined'));
+ * // { name: 'TypeError', message: 'x is undefined', stack: 'TypeError: x is undefined\n    at ...' }
+ *
+ * normalizeError('timeout');
+ * // { name: 'Error', message: 'timeout' }
+ *
+ * normalizeError({ code: 'E_FAIL' });
+ * // { name: 'Error', message: '{"code":"E_FAIL"}' }
+ * ```
+ */
+
+/**
+ * Normalized representation of a thrown value
+ */
+export interface NormalizedError {
+  /** Error name/type */
+  name: string;
+
+  /** Error message (never empty) */
+  message: string;
+
+  /** Stack trace if available */
+  stack?: string;
+}
+
+/** Message used when a thrown value carries no usable text */
+const UNKNOWN_ERROR_MESSAGE = 'Unknown error';
+
+/**
+ * Normalize any thrown value into an error name, message and stack
+ *
+ * Error-like objects (including `DOMException` and errors from other realms,
+ * which fail `instanceof Error`) are recognised by their `message` property.
+ *
+ * @param value - The caught value
+ * @returns Normalized error fields
+ */
+export function normalizeError(value: unknown): NormalizedError {
+  if (value instanceof Error || isErrorLike(value)) {
+    const errorLike = value as { name?: unknown; message?: unknown; stack?: unknown; constructor?: { name?: string } };
+    const name = typeof errorLike.name === 'string' && errorLike.name
+      ? errorLike.name
+      : errorLike.constructor?.name || 'Error';
+
+    return {
+      name,
+      message: typeof errorLike.message === 'string' && errorLike.message
+        ? errorLike.message
+        : UNKNOWN_ERROR_MESSAGE,
+      stack: typeof errorLike.stack === 'string' ? errorLike.stack : undefined
+    };
+  }
+
+  if (typeof value === 'string') {
+    return { name: 'Error', message: value || UNKNOWN_ERROR_MESSAGE };
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return { name: 'Error', message: stringifyThrownObject(value) };
+  }
+
+  return { name: 'Error', message: String(value) };
+}
+
+/**
+ * Check whether a value looks like an error object
+ *
+ * @param value - Value to check
+ * @returns True if value is an object with a string `message`
+ */
+export function isErrorLike(value: unknown): boolean {
+  return value !== null &&
+    typeof value === 'object' &&
+    typeof (value as { message?: unknown }).message === 'string';
+}
+
+/**
+ * Describe a thrown non-error object without throwing
+ *
+ * @private
+ */
+function stringifyThrownObject(value: object): string {
+  try {
+    const json = JSON.stringify(value);
+    if (json && json !== '{}') {
+      return json;
+    }
+  } catch {
+    // Circular or otherwise unserializable - fall through
+  }
+
+  const tag = Object.prototype.toString.call(value);
+  return tag === '[object Object]' ? UNKNOWN_ERROR_MESSAGE : tag;
+}
\ No newline at end of file
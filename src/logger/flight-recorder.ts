@@ -0,0 +1,137 @@
+/**
+ * Flight Recorder Component
+ *
+ * Keeps the most recent log events in memory at every level, including those
+ * below the logger's level or dropped by sampling. When a trigger event is
+ * logged (by default anything at or above `error`), the events transports
+ * never saw are handed back so the logger can write them, tagged with the
+ * trigger's ID, giving the lead-up to an error in production running at `warn`.
+ *
+ * The buffer is bounded by both event count and approximate serialized size;
+ * the oldest events are evicted first.
+ *
+ * @example
+ * ```typescript
+ * import { FlightRecorder } from './flight-recorder';
+ *
+ * const recorder = new FlightRecorder({ maxEvents: 200, maxBytes: 128 * 1024 });
+ *
+ * recorder.record(debugEvent, false); // filtered out, kept for later
+ * if (recorder.isTrigger(errorEvent)) {
+ *   const leadUp = recorder.drain(); // [debugEvent]
+ * }
+ * ```
+ */
+
+import type { FlightRecorderConfig, LogEventData, LogLevel } from './types.js';
+import { isLogLevel } from './level-registry.js';
+import { shouldLog } from './logger-config.js';
+import { serializeEvent } from './serialization.js';
+
+/**
+ * Buffered event with its bookkeeping
+ */
+interface RecordedEvent {
+  event: LogEventData;
+  written: boolean;
+  bytes: number;
+}
+
+/**
+ * Bounded in-memory ring buffer of recent log events
+ */
+export class FlightRecorder {
+  private readonly maxEvents: number;
+  private readonly maxBytes: number;
+  private readonly triggerLevel: LogLevel;
+  private readonly trigger?: (_event: LogEventData) => boolean;
+  private buffer: RecordedEvent[] = [];
+  private totalBytes = 0;
+
+  /**
+   * @param config - Capacity limits and trigger
+   */
+  constructor(config: FlightRecorderConfig = {}) {
+    this.maxEvents = config.maxEvents ?? 100;
+    this.maxBytes = config.maxBytes ?? 256 * 1024;
+    this.triggerLevel = config.triggerLevel ?? 'error';
+    this.trigger = config.trigger;
+
+    if (!(this.maxEvents > 0) || !(this.maxBytes > 0)) {
+      throw new TypeError('Flight recorder capacity must be positive');
+    }
+    if (!isLogLevel(this.triggerLevel)) {
+      throw new TypeError(`Invalid log level: ${this.triggerLevel}`);
+    }
+  }
+
+  /**
+   * Number of buffered events
+   */
+  get size(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Approximate serialized size of the buffered events
+   */
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  /**
+   * Check whether an event should dump the buffer
+   *
+   * A trigger that throws is reported with `console.warn` and does not dump.
+   *
+   * @param event - Event being written
+   */
+  isTrigger(event: LogEventData): boolean {
+    if (this.trigger) {
+      try {
+        return this.trigger(event);
+      } catch (error) {
+        console.warn('Lever UI Logger: flight recorder trigger threw:', error);
+        return false;
+      }
+    }
+    return shouldLog(event.level, this.triggerLevel);
+  }
+
+  /**
+   * Add an event, evicting the oldest events beyond the capacity limits
+   *
+   * @param event - Event to buffer
+   * @param written - Whether the event was also written to transports
+   */
+  record(event: LogEventData, written: boolean): void {
+    const bytes = serializeEvent(event).length;
+    if (bytes > this.maxBytes) return;
+
+    this.buffer.push({ event, written, bytes });
+    this.totalBytes += bytes;
+
+    while (this.buffer.length > this.maxEvents || this.totalBytes > this.maxBytes) {
+      this.totalBytes -= this.buffer.shift()!.bytes;
+    }
+  }
+
+  /**
+   * Empty the buffer, returning the events that were never written
+   *
+   * @returns Unwritten events, oldest first
+   */
+  drain(): LogEventData[] {
+    const unwritten = this.buffer.filter(entry => !entry.written).map(entry => entry.event);
+    this.clear();
+    return unwritten;
+  }
+
+  /**
+   * Discard all buffered events
+   */
+  clear(): void {
+    this.buffer = [];
+    this.totalBytes = 0;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,372 @@
+/**
+ * Global Error Capture Component
+ *
+ * Installs process-wide hooks for errors the application never handled:
+ * browser `error` and `unhandledrejection` events, Node.js uncaught
+ * exceptions and unhandled rejections, and `console.error` calls. Every
+ * captured value is forwarded to a single handler so the logger can turn it
+ * into structured `ErrorData`.
+ *
+ * Capturing never changes how the process handles these errors. Uncaught
+ * exceptions are observed through `uncaughtExceptionMonitor`. Because any
+ * `unhandledRejection` listener turns off Node's default crash, the last
+ * capture listener rethrows the rejection when no other code listens, as
+ * Node would have (unless `--unhandled-rejections` selects another mode).
+ *
+ * Writes performed by the logger itself run inside `suppressErrorCapture()`,
+ * which keeps transports that print through `console.error` (such as
+ * `ConsoleTransport`) from being captured again and looping forever.
+ *
+ * @example
+ * ```typescript
+ * import { GlobalErrorCapture } from './global-error-capture';
+ *
+ * const capture = new GlobalErrorCapture(
+ *   { unhandledErrors: true, unhandledRejections: true, consoleErrors: false },
+ *   (error, context) => reportError(error, context)
+ * );
+ *
+ * capture.install();
+ * // ...
+ * capture.uninstall();
+ * ```
+ */
+
+// Safely access process without TypeScript errors
+declare const process: {
+  on?: (_event: string, _listener: (..._args: unknown[]) => void) => unknown;
+  off?: (_event: string, _listener: (..._args: unknown[]) => void) => unknown;
+  removeListener?: (_event: string, _listener: (..._args: unknown[]) => void) => unknown;
+  listeners?: (_event: string) => unknown[];
+  execArgv?: string[];
+  env?: Record<string, string | undefined>;
+  exitCode?: number;
+} | undefined;
+
+/**
+ * Which global error sources should be captured
+ */
+export interface GlobalErrorCaptureOptions {
+  /** Capture window `error` events and Node.js uncaught exceptions */
+  unhandledErrors: boolean;
+
+  /** Capture window `unhandledrejection` events and Node.js unhandled rejections */
+  unhandledRejections: boolean;
+
+  /** Intercept `console.error` calls */
+  consoleErrors: boolean;
+}
+
+/**
+ * Origin of a captured error, recorded in the error context as `source`
+ */
+export type CapturedErrorSource =
+  | 'window.onerror'
+  | 'window.unhandledrejection'
+  | 'process.uncaughtException'
+  | 'process.unhandledRejection'
+  | 'console.error';
+
+/**
+ * Callback invoked with every captured error value and its context
+ */
+export type CapturedErrorHandler = (
+  _error: unknown,
+  _context: Record<string, unknown> & { source: CapturedErrorSource }
+) => void;
+
+/**
+ * Fields read from browser `ErrorEvent` and `PromiseRejectionEvent` objects
+ */
+interface BrowserErrorEventLike {
+  type: string;
+  error?: unknown;
+  reason?: unknown;
+  message?: string;
+  filename?: string;
+  lineno?: number;
+  colno?: number;
+}
+
+/**
+ * Nesting depth of logger writes in progress.
+ * Shared by all capture instances so that one logger's console output is
+ * never re-captured by another logger's interceptor.
+ */
+let suppressionDepth = 0;
+
+/** Rejection listeners of all capture instances */
+const rejectionListeners = new WeakSet<object>();
+
+/** Error rethrown for an unhandled rejection, so the exception monitor does not capture it twice */
+let rethrownRejection: unknown;
+
+/**
+ * Run a function with global error capture suspended
+ *
+ * Anything written to `console.error` while `fn` runs is passed straight
+ * through to the original console method instead of being captured.
+ *
+ * @param fn - Function to execute
+ * @returns Result of the function
+ */
+export function suppressErrorCapture<T>(fn: () => T): T {
+  suppressionDepth++;
+  try {
+    return fn();
+  } finally {
+    suppressionDepth--;
+  }
+}
+
+/**
+ * Check whether error capture is currently suspended
+ *
+ * @returns True while a logger write is in progress
+ */
+export function isErrorCaptureSuppressed(): boolean {
+  return suppressionDepth > 0;
+}
+
+/**
+ * Installs and removes global error hooks for a single logger
+ */
+export class GlobalErrorCapture {
+  private installed = false;
+  private originalConsoleError?: (..._args: unknown[]) => void;
+  private consoleInterceptor?: (..._args: unknown[]) => void;
+
+  private readonly onWindowError = (event: BrowserErrorEventLike): void => {
+    this.dispatch(event.error ?? event.message, {
+      source: 'window.onerror',
+      filename: event.filename,
+      lineno: event.lineno,
+      colno: event.colno
+    });
+  };
+
+  private readonly onWindowRejection = (event: BrowserErrorEventLike): void => {
+    this.dispatch(event.reason, {
+      source: 'window.unhandledrejection'
+    });
+  };
+
+  private readonly onUncaughtException = (error: unknown): void => {
+    if (error !== undefined && error === rethrownRejection) return;
+    this.dispatch(error, { source: 'process.uncaughtException' });
+  };
+
+  private readonly onUnhandledRejection = (reason: unknown): void => {
+    this.dispatch(reason, { source: 'process.unhandledRejection' });
+    preserveRejectionBehaviour(reason, this.onUnhandledRejection);
+  };
+
+  /**
+   * Creates a new global error capture
+   *
+   * @param options - Error sources to capture
+   * @param handler - Callback receiving every captured error
+   */
+  constructor(
+    private readonly options: GlobalErrorCaptureOptions,
+    private readonly handler: CapturedErrorHandler
+  ) {
+    rejectionListeners.add(this.onUnhandledRejection);
+  }
+
+  /**
+   * Whether the hooks are currently installed
+   */
+  get isInstalled(): boolean {
+    return this.installed;
+  }
+
+  /**
+   * Whether any error source is enabled
+   */
+  get isEnabled(): boolean {
+    return this.options.unhandledErrors ||
+      this.options.unhandledRejections ||
+      this.options.consoleErrors;
+  }
+
+  /**
+   * Install the enabled global hooks (no-op if already installed)
+   */
+  install(): void {
+    if (this.installed) return;
+    this.installed = true;
+
+    const hasWindow = typeof window !== 'undefined' && typeof window.addEventListener === 'function';
+    const hasProcess = typeof process !== 'undefined' && typeof process?.on === 'function';
+
+    if (this.options.unhandledErrors) {
+      if (hasWindow) window.addEventListener('error', this.onWindowError);
+      // Observe through the monitor event so Node's default crash behaviour is preserved
+      if (hasProcess) process!.on!('uncaughtExceptionMonitor', this.onUncaughtException);
+    }
+
+    if (this.options.unhandledRejections) {
+      if (hasWindow) window.addEventListener('unhandledrejection', this.onWindowRejection);
+      if (hasProcess) process!.on!('unhandledRejection', this.onUnhandledRejection);
+    }
+
+    if (this.options.consoleErrors && typeof console !== 'undefined' && typeof console.error === 'function') {
+      this.installConsoleInterceptor();
+    }
+  }
+
+  /**
+   * Remove all hooks installed by this instance (no-op if not installed)
+   */
+  uninstall(): void {
+    if (!this.installed) return;
+    this.installed = false;
+
+    if (typeof window !== 'undefined' && typeof window.removeEventListener === 'function') {
+      window.removeEventListener('error', this.onWindowError);
+      window.removeEventListener('unhandledrejection', this.onWindowRejection);
+    }
+
+    if (typeof process !== 'undefined' && process) {
+      const remove = process.off ?? process.removeListener;
+      if (typeof remove === 'function') {
+        remove.call(process, 'uncaughtExceptionMonitor', this.onUncaughtException);
+        remove.call(process, 'unhandledRejection', this.onUnhandledRejection);
+      }
+    }
+
+    this.removeConsoleInterceptor();
+  }
+
+  /**
+   * Replace console.error with an interceptor that forwards to the original
+   *
+   * @private
+   */
+  private installConsoleInterceptor(): void {
+    const original = console.error;
+    this.originalConsoleError = original;
+
+    this.consoleInterceptor = (...args: unknown[]): void => {
+      original.apply(console, args);
+
+      if (isErrorCaptureSuppressed()) {
+        return;
+      }
+
+      const error = args.find(arg => arg instanceof Error);
+      const message = args
+        .filter(arg => arg !== error)
+        .map(arg => typeof arg === 'string' ? arg : safeStringify(arg))
+        .join(' ');
+
+      this.dispatch(error ?? message, {
+        source: 'console.error',
+        ...(error && message ? { consoleMessage: message } : {})
+      });
+    };
+
+    console.error = this.consoleInterceptor;
+  }
+
+  /**
+   * Restore the console.error method that was replaced on install
+   *
+   * @private
+   */
+  private removeConsoleInterceptor(): void {
+    if (!this.consoleInterceptor || !this.originalConsoleError) return;
+
+    // Only restore if nobody wrapped console.error after us
+    if (console.error === this.consoleInterceptor) {
+      console.error = this.originalConsoleError;
+    }
+
+    this.consoleInterceptor = undefined;
+    this.originalConsoleError = undefined;
+  }
+
+  /**
+   * Forward a captured error to the handler without recursing
+   *
+   * @private
+   */
+  private dispatch(
+    error: unknown,
+    context: Record<string, unknown> & { source: CapturedErrorSource }
+  ): void {
+    if (isErrorCaptureSuppressed()) {
+      return;
+    }
+
+    suppressErrorCapture(() => {
+      try {
+        this.handler(error, context);
+      } catch {
+        // Never let error reporting throw from a global handler
+      }
+    });
+  }
+}
+
+/**
+ * Do what Node would have done for an unhandled rejection without capture listeners
+ *
+ * Only the last capture listener acts, once every logger has captured the
+ * rejection, and only when no other code listens for unhandled rejections.
+ *
+ * @private
+ */
+function preserveRejectionBehaviour(reason: unknown, listener: object): void {
+  const listeners = process?.listeners?.('unhandledRejection') ?? [];
+  if (listeners[listeners.length - 1] !== listener || !listeners.every(entry => rejectionListeners.has(entry as object))) {
+    return;
+  }
+
+  const mode = unhandledRejectionMode();
+  if (mode === 'warn-with-error-code') {
+    process!.exitCode = 1;
+  } else if (mode === 'throw') {
+    rethrownRejection = reason instanceof Error ? reason : unhandledRejectionError(reason);
+    throw rethrownRejection;
+  }
+}
+
+/**
+ * Read the `--unhandled-rejections` mode from the command line or NODE_OPTIONS
+ *
+ * @private
+ */
+function unhandledRejectionMode(): string {
+  const args = [...(process?.execArgv ?? []), ...(process?.env?.NODE_OPTIONS?.split(/\s+/) ?? [])];
+  const flag = args.reverse().find(arg => arg.startsWith('--unhandled-rejections='));
+  return flag?.slice('--unhandled-rejections='.length) ?? 'throw';
+}
+
+/**
+ * Wrap a non-Error rejection reason the way Node does
+ *
+ * @private
+ */
+function unhandledRejectionError(reason: unknown): Error {
+  const error = new Error(
+    'This error originated either by throwing inside of an async function without a catch block, ' +
+    `or by rejecting a promise which was not handled with .catch(). The promise rejected with the reason "${String(reason)}".`
+  ) as Error & { code: string };
+  error.code = 'ERR_UNHANDLED_REJECTION';
+  return error;
+}
+
+/**
+ * Stringify a console argument without throwing
+ *
+ * @private
+ */
+function safeStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
\ No newline at end of file
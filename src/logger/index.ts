@@ -24,6 +24,90 @@ export * from './types.js';
 export * from './events.js';
 export * from './logger-config.js';
 export * from './logger-impl.js';
+export * from './logger-registry.js';
+export {
+  parseNamespaceLevels,
+  matchNamespace,
+  resolveNamespaceLevel,
+  resolveNamespaceRate
+} from './namespace-levels.js';
+export { parseLevelOverride, readLevelOverride } from './level-overrides.js';
+export {
+  registerLevel,
+  unregisterLevel,
+  isLogLevel,
+  getLevelDefinition,
+  getLevels,
+  getLevelSeverity,
+  EXTENDED_LEVELS,
+  type ResolvedLevelDefinition
+} from './level-registry.js';
+export * from './error-normalizer.js';
+export { lazy, LazyValue } from './lazy.js';
+export { extractParams, renderTemplate, mapTemplateText, type TemplateParams } from './message-template.js';
+export { hashToUnit, resolveSamplingKey, sampleEvent } from './sampling.js';
+export { DEFAULT_BUCKETS } from './metrics-registry.js';
+export {
+  formatMetrics,
+  createMetricsHandler,
+  PROMETHEUS_CONTENT_TYPE,
+  OPENMETRICS_CONTENT_TYPE,
+  type ExpositionFormat,
+  type PrometheusOptions,
+  type MetricsSource,
+  type MetricsRequest,
+  type MetricsResponse
+} from './prometheus.js';
+export {
+  LOGGER_CONFIG_SCHEMA,
+  TRANSPORT_SPEC_SCHEMA,
+  validateSchema,
+  type JsonSchema,
+  type JsonSchemaType
+} from './config-schema.js';
+export {
+  RemoteConfigProvider,
+  REMOTE_CONFIG_SCHEMA,
+  type RemoteConfigOptions,
+  type RemoteConfigPayload,
+  type RemoteConfigSource,
+  type RemoteConfigStorage,
+  type RemoteConfigFetch,
+  type RemoteConfigTarget
+} from './remote-config.js';
+export {
+  LOG_EVENT_SCHEMA_VERSION,
+  encodeValue,
+  decodeValue,
+  encodeEvent,
+  decodeEvent,
+  serializeEvent,
+  deserializeEvent,
+  stringifyValue,
+  type SerializationOptions,
+  type EncodedLogEvent
+} from './serialization.js';
+
+// Context storage strategies
+export {
+  SyncContextStorage,
+  AsyncLocalContextStorage,
+  ZoneContextStorage,
+  createContextStorage,
+  detectAsyncLocalStorage,
+  type AsyncLocalStorageLike,
+  type AsyncLocalStorageConstructor
+} from './context-storage.js';
+
+// Distributed tracing (W3C Trace Context)
+export {
+  parseTraceparent,
+  formatTraceparent,
+  parseTracestate,
+  formatTracestate,
+  generateTraceId,
+  generateSpanId
+} from './tracing.js';
 
 // PII redaction system
 export * from './redaction.js';
@@ -0,0 +1,179 @@
+/**
+ * Function Instrumentation Helpers
+ *
+ * Timing and wrapping utilities behind `logger.time()`, `logger.timeAsync()`
+ * and `logger.wrap()`. Durations are measured with `performance.now()` and
+ * recorded through the logger's `metric()` path as a `duration` field (ms),
+ * so they pick up the current context and redaction like any other metric.
+ *
+ * @example
+ * ```typescript
+ * const timer = logger.time('render_dashboard');
+ * renderDashboard();
+ * timer.end({ widgets: 12 });
+ *
+ * const users = await logger.timeAsync('fetch_users', () => api.getUsers());
+ *
+ * const save = logger.wrap(saveOrder, { name: 'save_order' });
+ * await save(order); // logs entry/exit, records save_order duration, logs thrown errors
+ * ```
+ */
+
+import type { Logger, TimerHandle, WrapOptions } from './types.js';
+import { normalizeError } from './error-normalizer.js';
+
+type MetricFields = Record<string, number | string | boolean>;
+
+/**
+ * Timer that reports its duration once through a callback
+ */
+export class Timer implements TimerHandle {
+  public readonly label: string;
+  private readonly onEnd: (_fields: MetricFields) => void;
+  private readonly startTime: number = performance.now();
+  private duration?: number;
+
+  /**
+   * Creates and starts a new timer
+   *
+   * @param label - Metric name the duration is recorded under
+   * @param onEnd - Callback receiving the metric fields when the timer ends
+   */
+  constructor(label: string, onEnd: (_fields: MetricFields) => void) {
+    this.label = label;
+    this.onEnd = onEnd;
+  }
+
+  /**
+   * Whether end() has already been called
+   */
+  get ended(): boolean {
+    return this.duration !== undefined;
+  }
+
+  /**
+   * Stop the timer and record the duration metric
+   *
+   * Calling end() more than once returns the original duration without
+   * recording a second metric.
+   *
+   * @param fields - Additional metric fields
+   * @returns Duration in milliseconds
+   */
+  end(fields: MetricFields = {}): number {
+    if (this.duration !== undefined) {
+      return this.duration;
+    }
+
+    this.duration = performance.now() - this.startTime;
+    this.onEnd({ ...fields, duration: this.duration });
+    return this.duration;
+  }
+}
+
+/**
+ * Time a (possibly async) function and record its duration
+ *
+ * The metric includes `success: false` and the error name when the function
+ * throws; the error itself is re-thrown unchanged.
+ *
+ * @param logger - Logger that records the metric
+ * @param label - Metric name
+ * @param fn - Function to time
+ * @param fields - Additional metric fields
+ * @returns Result of the function
+ */
+export async function timeAsync<T>(
+  logger: Logger,
+  label: string,
+  fn: () => Promise<T> | T,
+  fields: MetricFields = {}
+): Promise<T> {
+  const timer = logger.time(label);
+  try {
+    const result = await fn();
+    timer.end({ ...fields, success: true });
+    return result;
+  } catch (error) {
+    timer.end({ ...fields, success: false, error: normalizeError(error).name });
+    throw error;
+  }
+}
+
+/**
+ * Wrap a function so every call is logged and timed
+ *
+ * Each call logs an entry and exit message (unless disabled), records a
+ * duration metric named after the function, and reports thrown errors or
+ * rejected promises through `logger.exception()` before re-throwing them.
+ *
+ * @param logger - Logger used for messages, metrics and exceptions
+ * @param fn - Function to wrap
+ * @param options - Instrumentation options
+ * @returns Wrapped function with the same signature
+ */
+export function wrapFunction<A extends unknown[], R>(
+  logger: Logger,
+  fn: (..._args: A) => R,
+  options: WrapOptions = {}
+): (..._args: A) => R {
+  const name = options.name || fn.name || 'anonymous';
+  const level = options.level ?? 'debug';
+  const logEntryExit = options.logEntryExit ?? true;
+
+  return function wrapped(this: unknown, ...args: A): R {
+    if (logEntryExit) {
+      logger.log(level, `Entering ${name}`, options.logArgs ? { function: name, args } : { function: name });
+    }
+
+    const timer = logger.time(name);
+
+    const finish = (success: boolean): void => {
+      const duration = timer.end({ success });
+      if (logEntryExit) {
+        logger.log(level, `Exiting ${name}`, { function: name, duration, success });
+      }
+    };
+
+    const fail = (error: unknown): void => {
+      logger.exception(error, { function: name });
+      finish(false);
+    };
+
+    let result: R;
+    try {
+      result = fn.apply(this, args);
+    } catch (error) {
+      fail(error);
+      throw error;
+    }
+
+    if (isPromiseLike(result)) {
+      return result.then(
+        value => {
+          finish(true);
+          return value;
+        },
+        error => {
+          fail(error);
+          throw error;
+        }
+      ) as R;
+    }
+
+    finish(true);
+    return result;
+  };
+}
+
+/**
+ * Check whether a value is a thenable
+ *
+ * @param value - Value to check
+ * @returns True if value has a callable `then`
+ */
+export function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return value !== null &&
+    (typeof value === 'object' || typeof value === 'function') &&
+    typeof (value as { then?: unknown }).then === 'function';
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+/**
+ * Lazy Log Messages and Arguments
+ *
+ * Level methods accept a function instead of a message string, and arguments
+ * wrapped with `lazy()`. Both are only evaluated after the level and sampling
+ * checks pass, so expensive formatting in disabled debug logs costs nothing
+ * beyond the call itself.
+ *
+ * @example
+ * ```typescript
+ * import { lazy } from 'lever-ui-logger';
+ *
+ * logger.debug(() => `Cart: ${JSON.stringify(cart)}`);
+ * logger.debug('Cart updated', lazy(() => ({ items: summarize(cart) })));
+ * ```
+ */
+
+import type { LogMessage } from './types.js';
+
+/**
+ * Argument whose value is computed only when the log is written
+ */
+export class LazyValue<T = unknown> {
+  private readonly factory: () => T;
+
+  /**
+   * @param factory - Computes the argument value
+   */
+  constructor(factory: () => T) {
+    this.factory = factory;
+  }
+
+  /**
+   * Compute the value
+   */
+  resolve(): T {
+    return this.factory();
+  }
+}
+
+/**
+ * Wrap a log argument so it is only computed when the log is written
+ *
+ * Plain-object results are merged into the log context like eager arguments.
+ *
+ * @param factory - Computes the argument value
+ * @returns Lazy argument
+ */
+export function lazy<T>(factory: () => T): LazyValue<T> {
+  if (typeof factory !== 'function') {
+    throw new TypeError('lazy() requires a function');
+  }
+  return new LazyValue(factory);
+}
+
+/**
+ * Check whether a value is a valid log message (string or message function)
+ *
+ * @param message - Value to check
+ */
+export function isLogMessage(message: unknown): message is LogMessage {
+  return typeof message === 'string' || typeof message === 'function';
+}
+
+/**
+ * Evaluate a log message
+ *
+ * A throwing or non-string message function never breaks the caller; the
+ * failure is described in the message instead.
+ *
+ * @param message - Message string or function
+ * @returns Message string
+ */
+export function resolveMessage(message: LogMessage): string {
+  if (typeof message === 'string') {
+    return message;
+  }
+
+  try {
+    const value = message();
+    return typeof value === 'string' ? value : String(value);
+  } catch (error) {
+    return `[Lazy message failed: ${describeError(error)}]`;
+  }
+}
+
+/**
+ * Evaluate lazy arguments
+ *
+ * @param args - Log arguments, possibly containing `lazy()` values
+ * @returns The same array if nothing is lazy, otherwise a copy with values computed
+ */
+export function resolveArgs(args: readonly unknown[]): readonly unknown[] {
+  if (!args.some(arg => arg instanceof LazyValue)) {
+    return args;
+  }
+
+  return args.map(arg => {
+    if (!(arg instanceof LazyValue)) return arg;
+    try {
+      return arg.resolve();
+    } catch (error) {
+      return `[Lazy argument failed: ${describeError(error)}]`;
+    }
+  });
+}
+
+/**
+ * Describe an error thrown by a lazy factory
+ *
+ * @private
+ */
+function describeError(error: unknown): string {
+  return error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+}
\ No newline at end of file
@@ -0,0 +1,152 @@
+/**
+ * Runtime Level Overrides
+ *
+ * Lets a deployed app change its log levels without a code change: a
+ * `?log=debug,auth=trace` query parameter, a `localStorage` entry or the
+ * `LEVER_LOG`/`LOG_LEVEL` environment variables on Node.js. A bare level sets
+ * the global level; `pattern=level` entries set component levels using the
+ * same namespace patterns as `setLevels()`.
+ *
+ * Sources are read in precedence order (URL, then localStorage, then the
+ * environment by default) and the first one holding a valid specification
+ * wins; sources are not merged.
+ *
+ * @example
+ * ```typescript
+ * // https://app.example.com/checkout?log=debug,app:payments:*=trace
+ * const logger = createLogger({ level: 'warn', levelOverrides: true });
+ * logger.level; // 'debug'
+ *
+ * // Keep debugging on for this browser across page loads
+ * localStorage.setItem('lever-log', 'debug');
+ *
+ * // Node.js
+ * // LEVER_LOG=info,db=trace node server.js
+ * ```
+ */
+
+import type { LevelOverride, LevelOverrideOptions, LevelOverrideSource, LogLevel } from './types.js';
+import { parseNamespaceLevels } from './namespace-levels.js';
+import { isLogLevel } from './level-registry.js';
+
+/** Default sources, highest precedence first */
+const DEFAULT_SOURCES: LevelOverrideSource[] = ['url', 'storage', 'env'];
+
+/** Default query parameter */
+const DEFAULT_QUERY_PARAM = 'log';
+
+/** Default localStorage key */
+const DEFAULT_STORAGE_KEY = 'lever-log';
+
+/** Default environment variables, highest precedence first */
+const DEFAULT_ENV_VARS = ['LEVER_LOG', 'LOG_LEVEL'];
+
+/**
+ * Parse a level override specification
+ *
+ * @param spec - Specification, e.g. `debug,auth=trace`
+ * @returns Global level (if any) and component level rules
+ * @throws {TypeError} If an entry has an invalid level or pattern
+ */
+export function parseLevelOverride(spec: string): Pick<LevelOverride, 'level' | 'levels'> {
+  let level: LogLevel | undefined;
+  const rules: string[] = [];
+
+  for (const entry of spec.split(/[\s,]+/)) {
+    if (!entry) continue;
+
+    const lowered = entry.toLowerCase();
+    if (isLogLevel(lowered)) {
+      level = lowered;
+    } else {
+      rules.push(entry);
+    }
+  }
+
+  return { level, levels: parseNamespaceLevels(rules.join(',')) };
+}
+
+/**
+ * Read the first valid level override from the configured sources
+ *
+ * Invalid specifications are reported with `console.warn` and skipped, so a
+ * mistyped query parameter never prevents the logger from starting.
+ *
+ * @param options - Sources and names to read
+ * @returns Resolved override, or undefined if no source holds one
+ */
+export function readLevelOverride(options: LevelOverrideOptions = {}): LevelOverride | undefined {
+  for (const source of options.sources ?? DEFAULT_SOURCES) {
+    const value = readSource(source, options);
+    if (!value) continue;
+
+    try {
+      return { source, value, ...parseLevelOverride(value) };
+    } catch (error) {
+      console.warn(`Ignoring ${source} log level override "${value}":`, error instanceof Error ? error.message : error);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the raw specification from one source
+ *
+ * @private
+ */
+function readSource(source: LevelOverrideSource, options: LevelOverrideOptions): string | undefined {
+  switch (source) {
+    case 'url':
+      return readQueryParam(options.queryParam ?? DEFAULT_QUERY_PARAM);
+    case 'storage':
+      return readStorage(options.storageKey ?? DEFAULT_STORAGE_KEY);
+    case 'env':
+      return readEnv(options.envVars ?? DEFAULT_ENV_VARS);
+    default:
+      throw new TypeError(`Unknown level override source: ${String(source)}`);
+  }
+}
+
+/**
+ * Read a query parameter from the current page URL
+ *
+ * @private
+ */
+function readQueryParam(name: string): string | undefined {
+  const search = (globalThis as { location?: { search?: string } }).location?.search;
+  if (!search || typeof URLSearchParams === 'undefined') {
+    return undefined;
+  }
+  return new URLSearchParams(search).get(name)?.trim() || undefined;
+}
+
+/**
+ * Read a localStorage entry (access throws in some privacy modes)
+ *
+ * @private
+ */
+function readStorage(key: string): string | undefined {
+  try {
+    const storage = (globalThis as { localStorage?: { getItem(_key: string): string | null } }).localStorage;
+    return storage?.getItem(key)?.trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the first set environment variable
+ *
+ * @private
+ */
+function readEnv(names: string[]): string | undefined {
+  const env = (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env;
+  if (!env) {
+    return undefined;
+  }
+  for (const name of names) {
+    const value = env[name]?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
\ No newline at end of file
@@ -0,0 +1,201 @@
+/**
+ * Log Level Registry
+ *
+ * Holds every level a logger understands: the five built-in levels plus
+ * levels applications add at runtime with a numeric priority, console method,
+ * colors and a severity. The severity is the built-in level a custom level is
+ * treated as by code that only knows the built-in five, e.g. `fatal` is an
+ * `error` for EventBus error events.
+ *
+ * Registering a level adds it to `LOG_LEVEL_PRIORITY`, so level validation,
+ * filtering, namespace patterns and overrides accept it, and generates a
+ * logger method of the same name.
+ *
+ * @example
+ * ```typescript
+ * import { registerLevel, createLogger, EXTENDED_LEVELS } from 'lever-ui-logger';
+ *
+ * registerLevel({ name: 'security', priority: 3.5, severity: 'warn', consoleMethod: 'warn' });
+ * getLogger<'security'>('app:auth').security('Password reset requested');
+ *
+ * // Or via config, typing the generated methods
+ * const logger = createLogger({ customLevels: [EXTENDED_LEVELS.fatal, EXTENDED_LEVELS.notice] });
+ * logger.fatal('Database unreachable');
+ * logger.setLevel('notice');
+ * ```
+ */
+
+import type { BuiltInLogLevel, LevelDefinition, LogLevel } from './types.js';
+import { LOG_LEVEL_PRIORITY } from './logger-config.js';
+
+/** Built-in levels, lowest priority first */
+const BUILT_IN_LEVELS: readonly BuiltInLogLevel[] = ['trace', 'debug', 'info', 'warn', 'error'];
+
+/** Valid level names: lowercase identifiers usable as method names */
+const LEVEL_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Ready-made definitions for common extra levels
+ */
+export const EXTENDED_LEVELS = {
+  /** Unrecoverable failures, above `error` */
+  fatal: {
+    name: 'fatal',
+    priority: 5,
+    severity: 'error',
+    consoleMethod: 'error',
+    color: '\x1b[1;31m',
+    browserStyle: 'color: #fff; background: #b71c1c; font-weight: bold;'
+  },
+  /** Significant but normal events, between `info` and `warn` */
+  notice: {
+    name: 'notice',
+    priority: 2.5,
+    severity: 'info',
+    consoleMethod: 'info',
+    color: '\x1b[1;36m',
+    browserStyle: 'color: #009688; font-weight: bold;'
+  },
+  /** Audit trail entries, kept whenever `error` is */
+  audit: {
+    name: 'audit',
+    priority: 4,
+    severity: 'info',
+    consoleMethod: 'info',
+    color: '\x1b[1;35m',
+    browserStyle: 'color: #6a1b9a; font-weight: bold;'
+  }
+} as const satisfies Record<string, LevelDefinition>;
+
+/**
+ * Level definition with defaults applied
+ */
+export type ResolvedLevelDefinition = LevelDefinition & { severity: BuiltInLogLevel };
+
+/** Listener notified before a custom level is registered */
+type LevelListener = (_definition: ResolvedLevelDefinition) => void;
+
+const definitions = new Map<string, ResolvedLevelDefinition>(
+  BUILT_IN_LEVELS.map(name => [name, { name, priority: LOG_LEVEL_PRIORITY[name], severity: name, consoleMethod: name }])
+);
+const listeners: LevelListener[] = [];
+
+/**
+ * Register a custom log level
+ *
+ * Re-registering a custom level replaces its definition, so configs listing
+ * the same `customLevels` can create several loggers.
+ *
+ * @param definition - Level definition
+ * @returns The registered definition with defaults applied
+ * @throws {TypeError} If the name is invalid, names a built-in level or clashes with a logger member, or the priority is not a finite number
+ */
+export function registerLevel<N extends string>(definition: LevelDefinition<N>): ResolvedLevelDefinition {
+  const { name, priority } = definition;
+
+  if (typeof name !== 'string' || !LEVEL_NAME_PATTERN.test(name)) {
+    throw new TypeError(`Invalid level name: ${String(name)}`);
+  }
+  if ((BUILT_IN_LEVELS as readonly string[]).includes(name)) {
+    throw new TypeError(`Cannot redefine built-in level: ${name}`);
+  }
+  if (typeof priority !== 'number' || !Number.isFinite(priority)) {
+    throw new TypeError(`Level priority must be a finite number: ${name}`);
+  }
+
+  const resolved: ResolvedLevelDefinition = {
+    ...definition,
+    severity: definition.severity ?? closestBuiltInLevel(priority)
+  };
+
+  listeners.forEach(listener => listener(resolved));
+
+  definitions.set(name, resolved);
+  LOG_LEVEL_PRIORITY[name] = priority;
+  return resolved;
+}
+
+/**
+ * Remove a custom log level
+ *
+ * Generated logger methods stay in place but throw for the unknown level.
+ *
+ * @param name - Custom level name
+ * @returns True if the level was registered and removed
+ * @throws {TypeError} If the name is a built-in level
+ */
+export function unregisterLevel(name: string): boolean {
+  if ((BUILT_IN_LEVELS as readonly string[]).includes(name)) {
+    throw new TypeError(`Cannot remove built-in level: ${name}`);
+  }
+  delete LOG_LEVEL_PRIORITY[name];
+  return definitions.delete(name);
+}
+
+/**
+ * Check whether a value is a registered level name
+ *
+ * @param level - Value to check
+ */
+export function isLogLevel(level: unknown): level is LogLevel {
+  return typeof level === 'string' && definitions.has(level);
+}
+
+/**
+ * Get the definition of a registered level
+ *
+ * @param level - Level name
+ * @returns Definition with defaults applied, or undefined if not registered
+ */
+export function getLevelDefinition(level: LogLevel): ResolvedLevelDefinition | undefined {
+  return definitions.get(level);
+}
+
+/**
+ * Get all registered levels, lowest priority first
+ */
+export function getLevels(): ResolvedLevelDefinition[] {
+  return [...definitions.values()].sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Get the built-in level a level is treated as
+ *
+ * @param level - Level name
+ * @returns Severity, or `info` for unknown levels
+ */
+export function getLevelSeverity(level: LogLevel): BuiltInLogLevel {
+  return definitions.get(level)?.severity ?? 'info';
+}
+
+/**
+ * Subscribe to level registrations, replaying levels already registered
+ *
+ * A listener may throw to reject a registration.
+ *
+ * @param listener - Called with each custom level before it is registered
+ * @returns Unsubscribe function
+ */
+export function onLevelRegistered(listener: LevelListener): () => void {
+  definitions.forEach(definition => {
+    if (!(BUILT_IN_LEVELS as readonly string[]).includes(definition.name)) {
+      listener(definition);
+    }
+  });
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index !== -1) listeners.splice(index, 1);
+  };
+}
+
+/**
+ * Find the built-in level closest to a priority (ties go to the lower level)
+ *
+ * @private
+ */
+function closestBuiltInLevel(priority: number): BuiltInLogLevel {
+  return BUILT_IN_LEVELS.reduce((closest, level) =>
+    Math.abs(LOG_LEVEL_PRIORITY[level] - priority) < Math.abs(LOG_LEVEL_PRIORITY[closest] - priority) ? level : closest
+  );
+}
\ No newline at end of file
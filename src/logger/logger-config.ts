@@ -3,6 +3,7 @@
  */
 
 import type { LogLevel, LoggerConfig, Transport } from './types.js';
+import { hashToUnit } from './sampling.js';
 
 /**
  * Default log level for new loggers
@@ -11,9 +12,9 @@ export const DEFAULT_LOG_LEVEL: LogLevel = 'info';
 
 /**
  * Log level hierarchy for comparison
- * Higher numbers indicate higher priority
+ * Higher numbers indicate higher priority; custom levels are added by `registerLevel()`
  */
-export const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+export const LOG_LEVEL_PRIORITY: Record<string, number> = {
   trace: 0,
   debug: 1,
   info: 2,
@@ -43,7 +44,19 @@ export const DEFAULT_LOGGER_CONFIG: Required<Omit<LoggerConfig, 'transports'>> &
   transports: [],
   captureUnhandledErrors: false,
   captureUnhandledRejections: false,
-  captureConsoleErrors: false
+  captureConsoleErrors: false,
+  levels: {},
+  contextStorage: 'auto',
+  levelOverrides: false,
+  customLevels: [],
+  dedupe: false,
+  flightRecorder: false,
+  keySampling: false,
+  adaptiveSampling: false,
+  queue: false,
+  routes: {},
+  circuitBreaker: true,
+  metrics: {}
 };
 
 /**
@@ -90,14 +103,19 @@ export function shouldLog(level: LogLevel, minLevel: LogLevel): boolean {
 /**
  * Applies sampling to determine if a log should be processed
  * 
+ * With a key, the decision is deterministic: every log with the same key
+ * passes or fails together.
+ * 
  * @param level - Log level
  * @param samplingRates - Sampling configuration
+ * @param key - Optional stable key, such as a session ID, to sample by
  * @returns True if log passes sampling check
  */
 export function passesSampling(
   level: LogLevel, 
-  samplingRates: Partial<Record<LogLevel, number>>
+  samplingRates: Partial<Record<LogLevel, number>>,
+  key?: string
 ): boolean {
   const rate = samplingRates[level] ?? 1.0;
-  return Math.random() < rate;
+  return (key === undefined ? Math.random() : hashToUnit(key)) < rate;
 }
\ No newline at end of file
@@ -24,21 +24,31 @@
  * // Update configuration
  * config.setLevel('warn');
  * config.setComponentLevel('database', 'trace');
+ * 
+ * // Namespace levels apply to descendants; wildcards follow the debug package
+ * config.setComponentLevel('app:auth:*', 'debug');
+ * config.getEffectiveLevel('app:auth:oauth'); // 'debug'
  * ```
  */
 
-import type { LogLevel, LoggerConfig, Transport } from './types.js';
-
-/**
- * Log level hierarchy for comparison
- */
-const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
-  trace: 0,
-  debug: 1,
-  info: 2,
-  warn: 3,
-  error: 4
-};
+import type {
+  LevelOverride,
+  LogLevel,
+  LoggerConfig,
+  RuntimeConfig,
+  SamplingDecision,
+  SamplingStats,
+  SamplingSubject,
+  Transport
+} from './types.js';
+import { parseNamespaceLevels, resolveNamespaceLevel, resolveNamespaceRate } from './namespace-levels.js';
+import { readLevelOverride } from './level-overrides.js';
+import { LOG_LEVEL_PRIORITY } from './logger-config.js';
+import { isLogLevel } from './level-registry.js';
+import { assertSamplingRate, sampleEvent } from './sampling.js';
+import { AdaptiveSampler } from './adaptive-sampler.js';
+import { validateRoute } from './transport-registry.js';
+import { diffConfig } from './config-diff.js';
 
 /**
  * Default configuration values
@@ -62,16 +72,47 @@ const DEFAULT_CONFIG: Required<Omit<LoggerConfig, 'transports'>> & { transports:
   transports: [],
   captureUnhandledErrors: false,
   captureUnhandledRejections: false,
-  captureConsoleErrors: false
+  captureConsoleErrors: false,
+  levels: {},
+  contextStorage: 'auto',
+  levelOverrides: false,
+  customLevels: [],
+  dedupe: false,
+  flightRecorder: false,
+  keySampling: false,
+  adaptiveSampling: false,
+  queue: false,
+  routes: {},
+  circuitBreaker: true,
+  metrics: {}
 };
 
+/**
+ * Settings update() accepts
+ */
+export const RUNTIME_CONFIG_KEYS: ReadonlyArray<keyof RuntimeConfig> = [
+  'level',
+  'levels',
+  'defaultContext',
+  'sampling',
+  'keySampling',
+  'redaction',
+  'captureUnhandledErrors',
+  'captureUnhandledRejections',
+  'captureConsoleErrors',
+  'routes'
+];
+
 /**
  * Configuration management for logger instances
  */
 export class LoggerConfiguration {
   private config: Required<LoggerConfig>;
   private componentLevels: Map<string, LogLevel> = new Map();
+  private readonly resolvedLevels: Map<string, LogLevel> = new Map();
   private readonly originalConfig: LoggerConfig;
+  private override?: LevelOverride;
+  private readonly adaptiveSampler?: AdaptiveSampler;
 
   /**
    * Creates a new configuration manager
@@ -81,6 +122,13 @@ export class LoggerConfiguration {
   constructor(userConfig: LoggerConfig = {}) {
     this.originalConfig = { ...userConfig };
     this.config = this.mergeConfig(userConfig);
+    this.validateKeySampling();
+    const { adaptiveSampling } = this.config;
+    if (adaptiveSampling) {
+      this.adaptiveSampler = new AdaptiveSampler(adaptiveSampling === true ? {} : adaptiveSampling);
+    }
+    this.setLevels(this.config.levels);
+    this.applyLevelOverride();
   }
 
   /**
@@ -143,6 +191,94 @@ export class LoggerConfiguration {
     };
   }
 
+  /**
+   * Get the context storage strategy
+   */
+  get contextStorage(): Required<LoggerConfig>['contextStorage'] {
+    return this.config.contextStorage;
+  }
+
+  /**
+   * Get the duplicate suppression settings
+   */
+  get dedupe(): Required<LoggerConfig>['dedupe'] {
+    return this.config.dedupe;
+  }
+
+  /**
+   * Get the flight recorder settings
+   */
+  get flightRecorder(): Required<LoggerConfig>['flightRecorder'] {
+    return this.config.flightRecorder;
+  }
+
+  /**
+   * Get the transport routing rules
+   */
+  get routes(): Required<LoggerConfig>['routes'] {
+    return { ...this.config.routes };
+  }
+
+  /**
+   * Get the transport circuit breaker settings
+   */
+  get circuitBreaker(): Required<LoggerConfig>['circuitBreaker'] {
+    return this.config.circuitBreaker;
+  }
+
+  /**
+   * Get the metrics aggregation settings
+   */
+  get metrics(): Required<LoggerConfig>['metrics'] {
+    return this.config.metrics;
+  }
+
+  /**
+   * Get the transport queue settings
+   */
+  get queue(): Required<LoggerConfig>['queue'] {
+    return this.config.queue;
+  }
+
+  /**
+   * Get the adaptive sampling configuration
+   */
+  get adaptiveSampling(): Required<LoggerConfig>['adaptiveSampling'] {
+    return this.config.adaptiveSampling;
+  }
+
+  /**
+   * Get the key sampling configuration
+   */
+  get keySampling(): Required<LoggerConfig>['keySampling'] {
+    return this.config.keySampling;
+  }
+
+  /**
+   * Get the runtime level override applied on creation, if any
+   */
+  get levelOverride(): LevelOverride | undefined {
+    return this.override;
+  }
+
+  /**
+   * Get the settings that can be changed at runtime, with the effective component levels
+   */
+  get runtimeConfig(): Required<RuntimeConfig> {
+    return {
+      level: this.config.level,
+      levels: Object.fromEntries(this.componentLevels),
+      defaultContext: this.defaultContext,
+      sampling: this.sampling,
+      keySampling: this.config.keySampling,
+      redaction: this.redaction,
+      captureUnhandledErrors: this.config.captureUnhandledErrors,
+      captureUnhandledRejections: this.config.captureUnhandledRejections,
+      captureConsoleErrors: this.config.captureConsoleErrors,
+      routes: this.routes
+    };
+  }
+
   /**
    * Get the full configuration object (frozen copy)
    */
@@ -156,26 +292,96 @@ export class LoggerConfiguration {
    * @param level - New log level
    */
   setLevel(level: LogLevel): void {
-    if (!(level in LOG_LEVEL_PRIORITY)) {
+    if (!isLogLevel(level)) {
       throw new TypeError(`Invalid log level: ${level}`);
     }
     this.config.level = level;
+    this.resolvedLevels.clear();
   }
 
   /**
    * Set log level for a specific component
    * 
-   * @param component - Component name
+   * Components are colon-separated namespaces: a level set for `app:auth`
+   * also applies to `app:auth:oauth` unless a more specific rule exists.
+   * Patterns may use `*` wildcards, e.g. `app:*:db`.
+   * 
+   * @param component - Component name or wildcard pattern
    * @param level - Log level for this component
    */
   setComponentLevel(component: string, level: LogLevel): void {
-    if (!component || typeof component !== 'string') {
-      throw new TypeError('Component must be a non-empty string');
+    assertComponentLevel(component, level);
+    // Re-insert so the latest rule wins ties
+    this.componentLevels.delete(component);
+    this.componentLevels.set(component, level);
+    this.resolvedLevels.clear();
+  }
+
+  /**
+   * Set component levels from a namespace specification
+   * 
+   * @param levels - Specification such as `app:auth:*=debug,*=warn`, or a pattern/level record
+   * @throws {TypeError} If a pattern or level is invalid
+   */
+  setLevels(levels: string | Record<string, LogLevel>): void {
+    parseLevels(levels).forEach(([component, level]) => this.setComponentLevel(component, level));
+  }
+
+  /**
+   * Replace runtime settings, validating every change before applying any
+   * 
+   * Each given key replaces its current value and is completed with the
+   * defaults, so `sampling: { debug: 0.1 }` resets the other levels to 1.
+   * Component levels given in `levels` replace all component levels,
+   * including those set with `setComponentLevel()`. A runtime level override
+   * keeps precedence over new levels.
+   * 
+   * @param changes - Settings to replace
+   * @param prepare - Called with the validated configuration before it is committed; may throw to reject it
+   * @returns Keys whose effective value changed
+   * @throws {TypeError} If a key cannot be changed at runtime or a level, route or the default context is invalid
+   * @throws {RangeError} If a sampling rate is out of range
+   */
+  update(changes: RuntimeConfig, prepare?: (_next: Required<LoggerConfig>) => void): string[] {
+    const keys = Object.keys(changes) as Array<keyof RuntimeConfig>;
+    keys.forEach(key => {
+      if (!RUNTIME_CONFIG_KEYS.includes(key)) {
+        throw new TypeError(`Logger config ${key} cannot be changed after the logger is created`);
+      }
+    });
+
+    const context = changes.defaultContext as unknown;
+    if ('defaultContext' in changes && (!context || typeof context !== 'object' || Array.isArray(context))) {
+      throw new TypeError('Logger config defaultContext must be an object');
     }
-    if (!(level in LOG_LEVEL_PRIORITY)) {
-      throw new TypeError(`Invalid log level: ${level}`);
+
+    const merged = this.mergeConfig(changes);
+    const next: Required<LoggerConfig> = {
+      ...this.config,
+      ...Object.fromEntries(keys.map(key => [key, merged[key]]))
+    };
+
+    if (!isLogLevel(next.level)) {
+      throw new TypeError(`Invalid log level: ${next.level}`);
     }
-    this.componentLevels.set(component, level);
+    const levels = 'levels' in changes ? parseLevels(next.levels) : undefined;
+    levels?.forEach(([component, level]) => assertComponentLevel(component, level));
+    Object.values(next.sampling).forEach(rate => rate !== undefined && assertSamplingRate(rate));
+    this.validateKeySampling(next.keySampling);
+    Object.values(next.routes).forEach(route => validateRoute(route));
+    prepare?.(next);
+
+    const before = this.runtimeConfig;
+    this.config = next;
+    if (levels) {
+      this.componentLevels.clear();
+      levels.forEach(([component, level]) => this.componentLevels.set(component, level));
+    }
+    if (levels || 'level' in changes) {
+      this.reapplyLevelOverride();
+    }
+    this.resolvedLevels.clear();
+    return diffConfig(before, this.runtimeConfig);
   }
 
   /**
@@ -185,6 +391,7 @@ export class LoggerConfiguration {
    * @returns True if component level was removed
    */
   removeComponentLevel(component: string): boolean {
+    this.resolvedLevels.clear();
     return this.componentLevels.delete(component);
   }
 
@@ -195,10 +402,16 @@ export class LoggerConfiguration {
    * @returns Effective log level
    */
   getEffectiveLevel(component?: string): LogLevel {
-    if (component && this.componentLevels.has(component)) {
-      return this.componentLevels.get(component)!;
+    if (!component || this.componentLevels.size === 0) {
+      return this.config.level;
     }
-    return this.config.level;
+
+    let level = this.resolvedLevels.get(component);
+    if (!level) {
+      level = resolveNamespaceLevel(this.componentLevels, component) ?? this.config.level;
+      this.resolvedLevels.set(component, level);
+    }
+    return level;
   }
 
   /**
@@ -217,8 +430,9 @@ export class LoggerConfiguration {
       return false;
     }
 
-    // Check sampling
-    return this.passesSampling(level);
+    // Check sampling, keyed on the default context when key sampling is enabled
+    const name = component ?? this.config.component;
+    return this.sample(level, name, () => ({ level, component: name, context: this.config.defaultContext })) !== undefined;
   }
 
   /**
@@ -228,9 +442,7 @@ export class LoggerConfiguration {
    * @param rate - Sampling rate (0-1)
    */
   setSamplingRate(level: LogLevel, rate: number): void {
-    if (rate < 0 || rate > 1) {
-      throw new RangeError('Sampling rate must be between 0 and 1');
-    }
+    assertSamplingRate(rate);
     this.config.sampling[level] = rate;
   }
 
@@ -251,6 +463,7 @@ export class LoggerConfiguration {
    */
   clearComponentLevels(): void {
     this.componentLevels.clear();
+    this.resolvedLevels.clear();
   }
 
   /**
@@ -265,7 +478,9 @@ export class LoggerConfiguration {
    */
   reset(): void {
     this.config = this.mergeConfig(this.originalConfig);
-    this.componentLevels.clear();
+    this.clearComponentLevels();
+    this.setLevels(this.config.levels);
+    this.applyLevelOverride();
   }
 
   /**
@@ -288,7 +503,8 @@ export class LoggerConfiguration {
       transports: [...this.config.transports],
       captureUnhandledErrors: this.config.captureUnhandledErrors,
       captureUnhandledRejections: this.config.captureUnhandledRejections,
-      captureConsoleErrors: this.config.captureConsoleErrors
+      captureConsoleErrors: this.config.captureConsoleErrors,
+      contextStorage: this.config.contextStorage
     };
     
     const newConfig = {
@@ -334,6 +550,49 @@ export class LoggerConfiguration {
     };
   }
 
+  /**
+   * Read and apply a runtime level override when enabled
+   * 
+   * The override is applied on top of the configured levels: a bare level
+   * replaces the global level and its rules are added after configured ones,
+   * so they win ties.
+   * 
+   * @private
+   */
+  private applyLevelOverride(): void {
+    const { levelOverrides } = this.config;
+    this.override = levelOverrides
+      ? readLevelOverride(levelOverrides === true ? {} : levelOverrides)
+      : undefined;
+    this.reapplyLevelOverride();
+  }
+
+  /**
+   * Apply the level override read on creation over the configured levels
+   * 
+   * @private
+   */
+  private reapplyLevelOverride(): void {
+    if (this.override?.level) {
+      this.setLevel(this.override.level);
+    }
+    this.override?.levels.forEach(([component, level]) => this.setComponentLevel(component, level));
+  }
+
+  /**
+   * Validate component sampling rates
+   * 
+   * @private
+   */
+  private validateKeySampling(keySampling: Required<LoggerConfig>['keySampling'] = this.config.keySampling): void {
+    if (typeof keySampling !== 'object') return;
+
+    Object.values(keySampling.components ?? {}).forEach(rates => {
+      const values = typeof rates === 'number' ? [rates] : Object.values(rates);
+      values.forEach(rate => rate !== undefined && assertSamplingRate(rate));
+    });
+  }
+
   /**
    * Check if a log level should be processed
    * 
@@ -346,10 +605,84 @@ export class LoggerConfiguration {
   /**
    * Apply sampling to determine if log should be processed
    * 
-   * @private
+   * @param level - Log level
+   * @returns True if the log passes the level's sampling rate
    */
-  private passesSampling(level: LogLevel): boolean {
+  passesSampling(level: LogLevel): boolean {
     const rate = this.config.sampling[level] ?? 1.0;
     return Math.random() < rate;
   }
+
+  /**
+   * Get the sampling rate for a level in a component
+   * 
+   * Component rates from `keySampling` take precedence over the level rates.
+   * 
+   * @param level - Log level
+   * @param component - Component name (defaults to the configured component)
+   * @returns Sampling rate between 0 and 1
+   */
+  getSamplingRate(level: LogLevel, component: string = this.config.component): number {
+    const { keySampling } = this.config;
+    const componentRate = typeof keySampling === 'object' && keySampling.components
+      ? resolveNamespaceRate(keySampling.components, component, level)
+      : undefined;
+    return componentRate ?? this.config.sampling[level] ?? 1.0;
+  }
+
+  /**
+   * Sample a log, by the configured key when key sampling is enabled
+   * 
+   * With adaptive sampling, the configured rate is lowered further while
+   * the level's throughput is above its target.
+   * 
+   * @param level - Log level
+   * @param component - Component name
+   * @param getSubject - Provides the event fields the key is read from
+   * @returns The sampling decision if the log is kept, otherwise undefined
+   */
+  sample(level: LogLevel, component: string, getSubject: () => SamplingSubject): SamplingDecision | undefined {
+    const { keySampling } = this.config;
+    const key = keySampling ? (keySampling === true ? undefined : keySampling.key) ?? 'session' : undefined;
+    const rate = this.getSamplingRate(level, component);
+    if (!this.adaptiveSampler) {
+      return sampleEvent(rate, key, getSubject);
+    }
+
+    const decision = sampleEvent(this.adaptiveSampler.adjust(level, rate), key, getSubject);
+    this.adaptiveSampler.record(level, decision !== undefined);
+    return decision;
+  }
+
+  /**
+   * Get adaptive sampling rates and totals
+   * 
+   * @returns Stats by level, or undefined if adaptive sampling is disabled
+   */
+  getSamplingStats(): SamplingStats | undefined {
+    return this.adaptiveSampler?.getStats();
+  }
+}
+
+/**
+ * Split a namespace level specification into pattern/level entries
+ * 
+ * @private
+ */
+function parseLevels(levels: string | Record<string, LogLevel>): Array<[string, LogLevel]> {
+  return typeof levels === 'string' ? parseNamespaceLevels(levels) : Object.entries(levels);
+}
+
+/**
+ * Check a component level rule before it is stored
+ * 
+ * @private
+ */
+function assertComponentLevel(component: string, level: LogLevel): void {
+  if (!component || typeof component !== 'string') {
+    throw new TypeError('Component must be a non-empty string');
+  }
+  if (!isLogLevel(level)) {
+    throw new TypeError(`Invalid log level: ${level}`);
+  }
 }
\ No newline at end of file
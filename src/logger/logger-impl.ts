@@ -1,35 +1,150 @@
 /** Core Logger Implementation - Standalone logger with transport system */
 
-import type { Logger, LoggerConfig, LogLevel, Transport, LogEventData } from './types.js';
-import { LogEvent, MetricEvent } from './events.js';
+import type {
+  Logger,
+  LoggerConfig,
+  LogLevel,
+  Transport,
+  LogEventData,
+  ErrorData,
+  ExceptionOptions,
+  TimerHandle,
+  WrapOptions,
+  SpanHandle,
+  SpanOptions,
+  LevelDefinition,
+  LevelMethods,
+  LogMessage,
+  SamplingDecision,
+  SamplingStats,
+  DroppedEventsReport,
+  TransportHealth,
+  TransportRoute,
+  LoggerStats,
+  LoggerInspection,
+  MetricData,
+  MetricTags,
+  Counter,
+  Gauge,
+  Histogram,
+  MetricSeries,
+  RuntimeConfig
+} from './types.js';
+import { LogEvent, MetricEvent, LoggerConfigChangedEvent } from './events.js';
 import { RedactionEngine } from './redaction.js';
 import { TransportRegistry } from './transport-registry.js';
 import { LoggerConfiguration } from './logger-configuration.js';
 import { ContextManager } from './context-manager.js';
+import { DEFAULT_LOG_LEVEL, shouldLog } from './logger-config.js';
+import { isLogLevel, onLevelRegistered, registerLevel } from './level-registry.js';
+import { createContextStorage } from './context-storage.js';
+import { GlobalErrorCapture, suppressErrorCapture } from './global-error-capture.js';
+import { normalizeError } from './error-normalizer.js';
+import { Timer, timeAsync, wrapFunction } from './instrumentation.js';
+import { Span, generateSpanId, runInSpan } from './tracing.js';
+import { isLogMessage, resolveArgs, resolveMessage } from './lazy.js';
+import { extractParams, renderTemplate, mapTemplateText } from './message-template.js';
+import { DuplicateSuppressor } from './duplicate-suppressor.js';
+import { FlightRecorder } from './flight-recorder.js';
+import { PipelineStats } from './pipeline-stats.js';
+import { MetricsRegistry, type MetricSnapshot } from './metrics-registry.js';
+import { encodeValue } from './serialization.js';
 
 /** Core standalone logger implementation with transport system */
 export class LoggerImpl implements Logger {
-  private readonly transportRegistry: TransportRegistry;
-  private readonly configuration: LoggerConfiguration;
-  private readonly contextManager: ContextManager;
-  private readonly redactionEngine: RedactionEngine;
+  private rootTransportRegistry?: TransportRegistry;
+  private rootConfiguration?: LoggerConfiguration;
+  private contextManager: ContextManager;
+  private rootRedactionEngine?: RedactionEngine;
+  private errorCapture?: GlobalErrorCapture;
+  private rootDuplicates?: DuplicateSuppressor;
+  private rootRecorder?: FlightRecorder;
+  private rootStats?: PipelineStats;
+  private rootMetrics?: MetricsRegistry;
+  private readonly parent?: LoggerImpl;
+  private readonly componentName?: string;
+  private readonly ownContext?: Record<string, unknown>;
+  private levelOverride?: LogLevel;
   private destroyed = false;
 
-  /** Creates a new logger instance */
+  /**
+   * Creates a new logger instance
+   * 
+   * With a parent, the logger is derived: it shares the root's configuration,
+   * transports, redaction and context storage, and only uses `component` and
+   * `defaultContext` from its own config. Without its own component it follows
+   * the parent's component and level.
+   */
   constructor(
     config: LoggerConfig = {},
-    private readonly loggerName: string = 'default'
+    private readonly loggerName: string = 'default',
+    parent?: LoggerImpl
   ) {
-    this.configuration = new LoggerConfiguration(config);
-    this.transportRegistry = new TransportRegistry();
-    this.contextManager = new ContextManager(this.configuration.defaultContext);
-    this.redactionEngine = new RedactionEngine(this.configuration.redaction);
-
-    // Add all configured transports to the registry
-    this.configuration.transports.forEach(transport => {
-      this.transportRegistry.add(transport);
-    });
+    if (parent) {
+      this.parent = parent;
+      this.componentName = config.component;
+      this.ownContext = config.defaultContext;
+      this.contextManager = parent.contextManager.createChild(config.defaultContext);
+      return;
+    }
 
+    this.contextManager = this.initialize(config);
+  }
+
+  /**
+   * Builds the state a root logger owns from its config
+   * 
+   * Everything that validates the config is built before any state is
+   * replaced, so an invalid config leaves the logger as it was.
+   * 
+   * @returns The root context manager
+   */
+  private initialize(config: LoggerConfig): ContextManager {
+    config.customLevels?.forEach(definition => registerLevel(definition));
+    const configuration = new LoggerConfiguration(config);
+    const { queue, circuitBreaker, routes, dedupe, flightRecorder } = configuration;
+    const transportRegistry = new TransportRegistry({
+      circuitBreaker,
+      ...(queue && {
+        queue: queue === true ? {} : queue,
+        onDropped: report => this.reportDropped(report)
+      })
+    });
+    // Add all configured transports to the registry with their routes
+    configuration.transports.forEach(transport => {
+      transportRegistry.add(transport, routes[transport.name]);
+    });
+    const contextManager = new ContextManager(
+      configuration.defaultContext,
+      undefined,
+      createContextStorage(configuration.contextStorage)
+    );
+    const redactionEngine = new RedactionEngine(configuration.redaction);
+    const metrics = new MetricsRegistry(
+      configuration.metrics,
+      ({ name, fields, ...series }) => this.recordMetric(name, fields, null, series)
+    );
+    // Summaries go straight to transports; they must not be deduplicated again
+    const duplicates = dedupe
+      ? new DuplicateSuppressor(dedupe === true ? {} : dedupe, summary => {
+        this.stats.recordWritten(summary.level);
+        suppressErrorCapture(() => this.transportRegistry.writeToAll(summary));
+      })
+      : undefined;
+    const recorder = flightRecorder ? new FlightRecorder(flightRecorder === true ? {} : flightRecorder) : undefined;
+
+    this.rootConfiguration = configuration;
+    this.rootTransportRegistry = transportRegistry;
+    this.rootRedactionEngine = redactionEngine;
+    this.rootStats = new PipelineStats();
+    this.rootMetrics = metrics;
+    this.rootDuplicates = duplicates;
+    this.rootRecorder = recorder;
+
+    this.installErrorCapture();
+
+    this.announceLevelOverride(config);
+    return contextManager;
   }
 
   /** Logger name/identifier */
@@ -39,98 +154,257 @@ export class LoggerImpl implements Logger {
 
   /** Current minimum log level */
   get level(): LogLevel {
-    return this.configuration.level;
+    if (this.levelOverride) {
+      return this.levelOverride;
+    }
+    if (this.parent && !this.componentName) {
+      return this.parent.level;
+    }
+    return this.configuration.getEffectiveLevel(this.component);
+  }
+
+  /** Root of the logger tree, which owns the configuration, transports and pipeline state */
+  private get root(): LoggerImpl {
+    return this.parent ? this.parent.root : this;
+  }
+
+  /** Configuration of the root logger */
+  private get configuration(): LoggerConfiguration {
+    return this.root.rootConfiguration!;
+  }
+
+  /** Transports of the root logger */
+  private get transportRegistry(): TransportRegistry {
+    return this.root.rootTransportRegistry!;
+  }
+
+  /** Redaction engine of the root logger, replaced when redaction is reconfigured */
+  private get redactionEngine(): RedactionEngine {
+    return this.root.rootRedactionEngine!;
+  }
+
+  /** Duplicate suppressor of the root logger, if dedupe is enabled */
+  private get duplicates(): DuplicateSuppressor | undefined {
+    return this.root.rootDuplicates;
+  }
+
+  /** Flight recorder of the root logger, if enabled */
+  private get recorder(): FlightRecorder | undefined {
+    return this.root.rootRecorder;
+  }
+
+  /** Pipeline counters of the root logger */
+  private get stats(): PipelineStats {
+    return this.root.rootStats!;
+  }
+
+  /** Metrics registry of the root logger */
+  private get metrics(): MetricsRegistry {
+    return this.root.rootMetrics!;
+  }
+
+  /** Whether this logger or one of its ancestors has been destroyed */
+  get isDestroyed(): boolean {
+    return this.destroyed || (this.parent?.isDestroyed ?? false);
   }
 
   /** Logs a trace-level message */
-  trace(message: string, ...args: readonly unknown[]): void {
-    if (typeof message !== 'string') throw new TypeError('Message must be a string');
+  trace(message: LogMessage, ...args: readonly unknown[]): void {
     this.log('trace', message, ...args);
   }
 
   /** Logs a debug-level message */
-  debug(message: string, ...args: readonly unknown[]): void {
-    if (typeof message !== 'string') throw new TypeError('Message must be a string');
+  debug(message: LogMessage, ...args: readonly unknown[]): void {
     this.log('debug', message, ...args);
   }
 
   /** Logs an info-level message */
-  info(message: string, ...args: readonly unknown[]): void {
-    if (typeof message !== 'string') throw new TypeError('Message must be a string');
+  info(message: LogMessage, ...args: readonly unknown[]): void {
     this.log('info', message, ...args);
   }
 
   /** Logs a warning-level message */
-  warn(message: string, ...args: readonly unknown[]): void {
-    if (typeof message !== 'string') throw new TypeError('Message must be a string');
+  warn(message: LogMessage, ...args: readonly unknown[]): void {
     this.log('warn', message, ...args);
   }
 
   /** Logs an error-level message */
-  error(message: string, ...args: readonly unknown[]): void {
-    if (typeof message !== 'string') throw new TypeError('Message must be a string');
+  error(message: LogMessage, ...args: readonly unknown[]): void {
     this.log('error', message, ...args);
   }
 
+  /** Logs a thrown value (Error, string, object) as structured error data */
+  exception(error: unknown, context: Record<string, unknown> = {}, options: ExceptionOptions = {}): void {
+    this.logError(error, options.handled ?? true, context);
+  }
+
   /** Records a structured metric */
   metric(name: string, fields: Record<string, number | string | boolean> = {}): void {
-    if (this.destroyed) return;
+    this.recordMetric(name, fields);
+  }
 
-    // Get current context from context manager and apply redaction
-    const context = this.redactionEngine.redactObject(this.contextManager.getContext());
-    const redactedFields = this.redactionEngine.redactObject(fields);
-    
-    // Create metric data directly (optimized for performance)
-    const metricData = {
-      name,
-      fields: redactedFields as Record<string, number | string | boolean>,
-      timestamp: Date.now(),
-      context: context as Record<string, unknown>,
-      component: this.configuration.component
-    };
+  /** Gets or creates a counter aggregated in memory and written once per flush interval */
+  counter(name: string, tags?: MetricTags): Counter {
+    return this.metrics.counter(name, tags);
+  }
 
-    // Create LogEventData for transports directly
-    const eventData: LogEventData = {
-      level: 'info',
-      message: `Metric: ${name}`,
-      timestamp: metricData.timestamp,
-      context: { ...(context as Record<string, unknown>), ...(redactedFields as Record<string, unknown>) },
-      args: [metricData],
-      component: this.configuration.component,
-      logger: this.loggerName
-    };
+  /** Gets or creates a gauge aggregated in memory and written once per flush interval */
+  gauge(name: string, tags?: MetricTags): Gauge {
+    return this.metrics.gauge(name, tags);
+  }
 
-    // Write to transports directly
-    this.transportRegistry.writeToAll(eventData);
+  /** Gets or creates a histogram aggregated in memory and written once per flush interval */
+  histogram(name: string, buckets?: number[], tags?: MetricTags): Histogram {
+    return this.metrics.histogram(name, buckets, tags);
+  }
+
+  /** Gets the cumulative state of every aggregated series */
+  collectMetrics(): MetricSeries[] {
+    return this.metrics.collect();
+  }
+
+  /** Starts a timer that records a duration metric when ended */
+  time(label: string): TimerHandle {
+    return new Timer(label, fields => this.metric(label, fields));
+  }
+
+  /** Times a (possibly async) function and records its duration metric */
+  timeAsync<T>(
+    label: string,
+    fn: () => Promise<T> | T,
+    fields?: Record<string, number | string | boolean>
+  ): Promise<T> {
+    return timeAsync(this, label, fn, fields);
+  }
+
+  /** Wraps a function to log entry, exit, duration and thrown errors */
+  wrap<A extends unknown[], R>(fn: (...args: A) => R, options?: WrapOptions): (...args: A) => R {
+    return wrapFunction(this, fn, options);
+  }
+
+  /** Starts a span and makes it active until it ends */
+  startSpan(name: string, options: SpanOptions = {}): SpanHandle {
+    let deactivate = (): void => {};
+    const span = this.createSpan(name, options, () => deactivate());
+    deactivate = this.contextManager.pushSpan(span);
+    return span;
+  }
+
+  /** Runs a function inside a new span, active only within the function's (async) execution */
+  withSpan<T>(name: string, fn: (span: SpanHandle) => T, options: SpanOptions = {}): T {
+    const span = this.createSpan(name, options);
+    return this.contextManager.withSpan(span, () => runInSpan(span, fn));
+  }
+
+  /** Gets the active span, if any */
+  getActiveSpan(): SpanHandle | undefined {
+    return this.contextManager.getActiveSpan();
+  }
+
+  /** Gets the traceparent header for the active span, if any */
+  getTraceparent(): string | undefined {
+    return this.contextManager.getActiveSpan()?.toTraceparent();
   }
 
-  /** Creates a child logger with additional context */
+  /** Creates a child logger with additional context that shares this logger's transports */
   withContext(additionalContext: Record<string, unknown>): Logger {
     // Apply redaction to additional context
     const redactedContext = this.redactionEngine.redactObject(additionalContext);
-    
-    // Create a child context manager with the additional context
-    const childContextManager = this.contextManager.createChild(redactedContext as Record<string, unknown>);
-    
-    // Clone configuration with merged context from child context manager
-    const newConfig = this.configuration.clone({
-      defaultContext: childContextManager.getContext()
-    });
-    const configObj = newConfig.fullConfig;
 
-    return new LoggerImpl(configObj, `${this.loggerName}:child`);
+    // The child shares this logger's configuration, transports and lifecycle;
+    // global error hooks stay owned by the root to avoid duplicate capture
+    return new LoggerImpl(
+      { defaultContext: redactedContext as Record<string, unknown> },
+      `${this.loggerName}:child`,
+      this
+    );
   }
 
-  /** Sets the minimum log level for this logger */
+  /**
+   * Sets the minimum log level for this logger
+   * 
+   * Named loggers set the level of their namespace; context children only
+   * override their own level, leaving the parent unchanged.
+   */
   setLevel(level: LogLevel): void {
-    this.configuration.setLevel(level);
+    if (!this.parent) {
+      this.configuration.setLevel(level);
+    } else if (this.componentName) {
+      this.configuration.setComponentLevel(this.componentName, level);
+    } else {
+      if (!isLogLevel(level)) {
+        throw new TypeError(`Invalid log level: ${level}`);
+      }
+      this.levelOverride = level;
+    }
   }
 
-  /** Sets log level for a specific component */
+  /** Sets log level for a component, its descendants or a wildcard pattern */
   setComponentLevel(component: string, level: LogLevel): void {
     this.configuration.setComponentLevel(component, level);
   }
 
+  /** Sets levels from a namespace pattern specification */
+  setLevels(levels: string | Record<string, LogLevel>): void {
+    this.configuration.setLevels(levels);
+  }
+
+  /**
+   * Changes runtime settings of the whole logger tree
+   * 
+   * Derived loggers forward to the root. Transports implementing
+   * `onConfigChanged` receive the old and new settings and the changed keys.
+   */
+  configure(config: RuntimeConfig): string[] {
+    if (this.parent) {
+      return this.parent.configure(config);
+    }
+
+    const oldConfig = this.configuration.runtimeConfig;
+    let redactionEngine: RedactionEngine | undefined;
+    const changes = this.configuration.update(config, next => {
+      // Compile redaction patterns before anything is committed
+      if ('redaction' in config) {
+        redactionEngine = new RedactionEngine(next.redaction);
+      }
+    });
+    if (changes.length === 0) return changes;
+
+    if (redactionEngine && changes.includes('redaction')) {
+      this.rootRedactionEngine = redactionEngine;
+    }
+    if (changes.includes('defaultContext')) {
+      this.contextManager.setBaseContext(this.configuration.defaultContext);
+    }
+    if (changes.some(key => key.startsWith('capture'))) {
+      this.installErrorCapture();
+    }
+    if (changes.includes('routes')) {
+      const { routes } = this.configuration;
+      this.transportRegistry.getTransportNames()
+        .filter(name => name in routes || name in oldConfig.routes)
+        .forEach(name => this.transportRegistry.setRoute(name, routes[name]));
+    }
+
+    this.transportRegistry.notifyConfigChanged(new LoggerConfigChangedEvent(
+      this.loggerName,
+      oldConfig,
+      this.configuration.runtimeConfig,
+      changes
+    ));
+    return changes;
+  }
+
+  /** Gets the current values of the settings configure() can change */
+  getRuntimeConfig(): Required<RuntimeConfig> {
+    return this.configuration.runtimeConfig;
+  }
+
+  /** Gets adaptive sampling rates and totals, if adaptive sampling is enabled */
+  getSamplingStats(): SamplingStats | undefined {
+    return this.configuration.getSamplingStats();
+  }
+
   /** Explicitly redacts a value using the configured redaction engine */
   redact(value: unknown): string {
     if (typeof value === 'string') {
@@ -139,9 +413,54 @@ export class LoggerImpl implements Logger {
     return this.redactionEngine.redactString(JSON.stringify(value));
   }
 
-  /** Adds a transport to this logger */
-  addTransport(transport: Transport): void {
-    this.transportRegistry.add(transport);
+  /** Adds a transport to this logger, routed by the given or configured route */
+  addTransport(transport: Transport, route?: TransportRoute): void {
+    this.transportRegistry.add(transport, route ?? this.configuration.routes[transport.name]);
+  }
+
+  /** Replaces the routing filters of a transport */
+  setTransportRoute(transportName: string, route?: TransportRoute): void {
+    this.transportRegistry.setRoute(transportName, route);
+  }
+
+  /** Gets the health and circuit state of every transport */
+  getTransportHealth(): Record<string, TransportHealth> {
+    return this.transportRegistry.getHealth();
+  }
+
+  /** Gets event, redaction and per-transport counters for the whole pipeline */
+  getStats(): LoggerStats {
+    return {
+      ...this.stats.snapshot(),
+      redaction: this.redactionEngine.getStats(),
+      transports: this.transportRegistry.getStats()
+    };
+  }
+
+  /** Describes the effective configuration, component levels and transports */
+  inspect(): LoggerInspection {
+    const { transports: _transports, ...config } = this.configuration.fullConfig;
+    const { levelOverride } = this.configuration;
+    const queued = Boolean(this.configuration.queue);
+    const health = this.transportRegistry.getHealth();
+
+    return {
+      name: this.loggerName,
+      component: this.component,
+      level: this.level,
+      config: encodeValue(config) as Record<string, unknown>,
+      componentLevels: Object.fromEntries(this.configuration.getComponentLevels()),
+      ...(levelOverride && { levelOverride }),
+      transports: this.transportRegistry.getTransportNames().map(name => {
+        const route = this.transportRegistry.getRoute(name);
+        return {
+          name,
+          ...(route && { route: encodeValue(route) as Record<string, unknown> }),
+          queued,
+          health: health[name]
+        };
+      })
+    };
   }
 
   /** Removes a transport from this logger */
@@ -149,8 +468,10 @@ export class LoggerImpl implements Logger {
     return this.transportRegistry.remove(transportName);
   }
 
-  /** Flushes all transports */
+  /** Writes aggregated metrics and pending repeat summaries, then flushes all transports */
   async flush(): Promise<void> {
+    this.metrics.flush();
+    this.duplicates?.flush();
     await this.transportRegistry.flushAll();
   }
 
@@ -158,21 +479,96 @@ export class LoggerImpl implements Logger {
   async destroy(): Promise<void> {
     if (this.destroyed) return;
 
+    // Write the last metric snapshots while the logger can still write
+    if (!this.parent) this.metrics.flush();
+
     this.destroyed = true;
 
+    // Derived loggers only detach; shared transports stay open for the parent
+    if (this.parent) return;
+
+    this.metrics.stop();
+    this.errorCapture?.uninstall();
+    this.duplicates?.flush();
+    this.recorder?.clear();
+
     await this.transportRegistry.flushAll();
     await this.transportRegistry.closeAll();
   }
 
-  /** Core logging method that handles all log levels */
-  private log(level: LogLevel, message: string, ...args: readonly unknown[]): void {
-    if (this.destroyed) return;
+  /**
+   * Replaces the whole configuration of a root logger in place
+   * 
+   * The logger, including a destroyed one, and the loggers derived from it
+   * write through the new configuration and transports from now on.
+   * Transports the new configuration does not reuse are flushed and closed.
+   * Derived loggers keep their context until `refreshContext()` is called.
+   * 
+   * @returns Promise that resolves once the replaced transports are closed
+   * @throws {TypeError} If the logger is derived or the config is invalid; the logger is then unchanged
+   */
+  reset(config: LoggerConfig = {}): Promise<void> {
+    if (this.parent) {
+      throw new TypeError('Only a root logger can be reset');
+    }
+
+    const previous = this.transportRegistry;
+    const { metrics, duplicates, recorder } = this;
+    const wasDestroyed = this.destroyed;
+    if (!wasDestroyed) {
+      // Pending metrics and summaries belong to the old transports
+      metrics.flush();
+      duplicates?.flush();
+    }
+    this.contextManager = this.initialize(config);
+    this.destroyed = false;
+    if (wasDestroyed) return Promise.resolve();
+
+    metrics.stop();
+    recorder?.clear();
+    return this.closeReplaced(previous);
+  }
+
+  /** Flushes and closes the transports of a replaced registry that the current configuration doesn't reuse */
+  private async closeReplaced(previous: TransportRegistry): Promise<void> {
+    const reused = new Set(this.configuration.transports);
+    await previous.flushAll();
+    previous.getTransportNames()
+      .filter(name => reused.has(previous.getTransport(name)!))
+      .forEach(name => previous.remove(name));
+    await previous.closeAll();
+  }
+
+  /** Re-derives a derived logger's context from its parent, e.g. after the root was reset */
+  refreshContext(): void {
+    if (this.parent) {
+      this.contextManager = this.parent.contextManager.createChild(this.ownContext);
+    }
+  }
 
-    // Check if this log level should be processed
-    if (!this.configuration.shouldProcess(level, this.configuration.component)) {
+  /**
+   * Core logging method that handles all log levels, including custom levels
+   * 
+   * Message functions and `lazy()` arguments are only evaluated once the
+   * level and sampling checks pass.
+   */
+  log(level: LogLevel, message: LogMessage, ...lazyArgs: readonly unknown[]): void {
+    if (!isLogMessage(message)) throw new TypeError('Message must be a string or function');
+    if (this.isDestroyed) return;
+    if (!isLogLevel(level)) throw new TypeError(`Invalid log level: ${level}`);
+
+    // Check if this log level should be processed; the flight recorder keeps filtered events too
+    const sampling = this.sample(level);
+    const processed = sampling !== undefined;
+    if (!processed && !this.recorder) {
       return;
     }
 
+    const resolvedMessage = resolveMessage(message);
+    const resolvedArgs = resolveArgs(lazyArgs);
+    const template = extractParams(resolvedMessage, resolvedArgs);
+    const args = template?.args ?? resolvedArgs;
+
     // Get current context from context manager
     const baseContext = this.contextManager.getContext();
     
@@ -187,8 +583,14 @@ export class LoggerImpl implements Logger {
     // Apply redaction to merged context
     const context = this.redactionEngine.redactObject(mergedContext);
     
-    // Apply redaction to message and arguments
-    const redactedMessage = this.redactionEngine.redactString(message);
+    // Apply redaction to the template text and parameters (or the whole message) and arguments
+    const params = template ? this.redactionEngine.redactParams(template.params) : undefined;
+    const messageTemplate = params
+      ? mapTemplateText(resolvedMessage, text => this.redactionEngine.redactString(text))
+      : undefined;
+    const redactedMessage = messageTemplate !== undefined && params
+      ? renderTemplate(messageTemplate, params)
+      : this.redactionEngine.redactString(resolvedMessage);
     const redactedArgs = this.redactionEngine.redactArgs(args);
 
     // Create LogEventData directly (optimized for performance)
@@ -198,17 +600,278 @@ export class LoggerImpl implements Logger {
       timestamp: Date.now(),
       context: context as Record<string, unknown>,
       args: redactedArgs,
-      component: this.configuration.component,
-      logger: this.loggerName
+      component: this.component,
+      logger: this.loggerName,
+      ...(params && { messageTemplate, params }),
+      ...(sampling && sampling.rate < 1 && { sampling })
     };
 
     // Write to transports (they work directly with LogEventData)
-    this.transportRegistry.writeToAll(eventData);
+    this.write(eventData, processed);
+  }
+
+  /** Writes an error to transports as structured ErrorData */
+  private logError(error: unknown, handled: boolean, extraContext: Record<string, unknown> = {}): void {
+    if (this.isDestroyed) return;
+
+    const sampling = this.sample('error');
+    const processed = sampling !== undefined;
+    if (!processed && !this.recorder) {
+      return;
+    }
+
+    const timestamp = Date.now();
+    const context = this.redactionEngine.redactObject({
+      ...this.contextManager.getContext(),
+      ...extraContext
+    }) as Record<string, unknown>;
+
+    const normalized = normalizeError(error);
+    const message = this.redactionEngine.redactString(normalized.message);
+
+    const errorData: ErrorData = {
+      name: normalized.name,
+      message,
+      stack: normalized.stack ? this.redactionEngine.redactString(normalized.stack) : undefined,
+      handled,
+      timestamp,
+      context,
+      component: this.component
+    };
+
+    const eventData: LogEventData = {
+      level: 'error',
+      message,
+      timestamp,
+      context,
+      args: [],
+      component: this.component,
+      logger: this.loggerName,
+      error: errorData,
+      ...(sampling && sampling.rate < 1 && { sampling })
+    };
+
+    this.write(eventData, processed);
+  }
+
+  /** Component of this logger, following the parent's unless set explicitly */
+  private get component(): string {
+    return this.componentName ?? this.parent?.component ?? this.configuration.component;
+  }
+
+  /** Records an event in the flight recorder, then writes it unless filtered out or a duplicate */
+  private write(eventData: LogEventData, processed: boolean): void {
+    const span = this.contextManager.getActiveSpan();
+
+    if (this.recorder) {
+      // Correlate now; buffered events may be written after their span ended
+      if (span) {
+        eventData.traceId = span.traceId;
+        eventData.spanId = span.spanId;
+      }
+      if (processed && this.recorder.isTrigger(eventData)) {
+        eventData.id = generateSpanId();
+        this.replay(this.recorder.drain(), eventData.id);
+      }
+      this.recorder.record(eventData, processed);
+    }
+
+    if (!processed) return;
+
+    // Drop repeats of an event already written in the dedupe window
+    if (this.duplicates?.isDuplicate(eventData)) {
+      this.stats.recordFiltered('duplicate', eventData.level);
+      return;
+    }
+
+    this.dispatch(eventData, span);
+  }
+
+  /** Writes a warning about events discarded by a full transport queue or a timed-out flush */
+  private reportDropped({ transport, dropped, policy, timedOut }: DroppedEventsReport): void {
+    const events = dropped === 1 ? 'event' : 'events';
+    this.dispatch({
+      level: 'warn',
+      message: `Transport ${transport} dropped ${dropped} log ${events} (${timedOut ? 'flush timed out' : `queue full, ${policy}`})`,
+      timestamp: Date.now(),
+      context: { transport, dropped, policy, ...(timedOut && { timedOut }) },
+      args: [],
+      component: this.component,
+      logger: this.loggerName
+    });
+  }
+
+  /** Writes flight-recorder events, tagged with the ID of the event that triggered the dump */
+  private replay(events: LogEventData[], triggerId: string): void {
+    // Already correlated when recorded; the active span may be a different one
+    events.forEach(event => this.dispatch({ ...event, triggeredBy: triggerId }, null));
+  }
+
+  /** Checks the level, then samples the event; returns the sampling decision if it is kept */
+  private sample(level: LogLevel): SamplingDecision | undefined {
+    if (!shouldLog(level, this.level)) {
+      this.stats.recordFiltered('level', level);
+      return undefined;
+    }
+
+    const component = this.component;
+    const decision = this.configuration.sample(level, component, () => ({
+      level,
+      component,
+      context: this.contextManager.getContext(),
+      traceId: this.contextManager.getActiveSpan()?.traceId
+    }));
+    if (!decision) {
+      this.stats.recordFiltered('sampling', level);
+    }
+    return decision;
+  }
+
+  /** Creates a span parented to the active span that records its metric on end */
+  private createSpan(name: string, options: SpanOptions, onEnd: () => void = () => {}): Span {
+    const span: Span = new Span(name, {
+      startSpan: (childName, childOptions) => this.startSpan(childName, childOptions),
+      endSpan: fields => {
+        onEnd();
+        this.recordMetric(name, fields, span);
+      }
+    }, { ...options, parent: options.parent ?? this.contextManager.getActiveSpan() });
+    return span;
+  }
+
+  /** Installs global error hooks for the enabled capture settings, replacing earlier hooks */
+  private installErrorCapture(): void {
+    this.errorCapture?.uninstall();
+    this.errorCapture = new GlobalErrorCapture(
+      this.configuration.captureSettings,
+      (error, context) => this.logError(error, false, context)
+    );
+    if (this.errorCapture.isEnabled) {
+      this.errorCapture.install();
+    }
+  }
+
+  /** Tells transports about a runtime level override applied over the configured levels */
+  private announceLevelOverride(config: LoggerConfig): void {
+    const override = this.configuration.levelOverride;
+    if (!override) return;
+
+    const changes = [...(override.level ? ['level'] : []), ...(override.levels.length ? ['levels'] : [])];
+    this.transportRegistry.notifyConfigChanged(new LoggerConfigChangedEvent(
+      this.loggerName,
+      { level: config.level ?? DEFAULT_LOG_LEVEL, levels: config.levels ?? {} },
+      {
+        level: this.configuration.level,
+        levels: Object.fromEntries(this.configuration.getComponentLevels()),
+        overrideSource: override.source,
+        override: override.value
+      },
+      changes
+    ));
+  }
+
+  /**
+   * Writes a metric event, attributed to the given span or the active span
+   * 
+   * Aggregated series snapshots pass `null` as the span: they summarize an interval, not one operation.
+   */
+  private recordMetric(
+    name: string,
+    fields: Record<string, number | string | boolean>,
+    span?: SpanHandle | null,
+    series?: Omit<MetricSnapshot, 'name' | 'fields'>
+  ): void {
+    if (this.isDestroyed) return;
+
+    // Get current context from context manager and apply redaction
+    const context = this.redactionEngine.redactObject(this.contextManager.getContext());
+    const redactedFields = this.redactionEngine.redactObject(fields);
+    const tags = series?.tags && this.redactionEngine.redactObject(series.tags) as Record<string, string>;
+    
+    // Create metric data directly (optimized for performance)
+    const metricData: MetricData = {
+      name,
+      fields: redactedFields as Record<string, number | string | boolean>,
+      timestamp: series?.timestamp ?? Date.now(),
+      context: context as Record<string, unknown>,
+      component: this.component,
+      ...(series && { type: series.type }),
+      ...(tags && { tags }),
+      ...(series?.buckets && { buckets: series.buckets })
+    };
+
+    // Create LogEventData for transports directly
+    const eventData: LogEventData = {
+      level: 'info',
+      message: `Metric: ${name}`,
+      timestamp: metricData.timestamp,
+      context: { ...(context as Record<string, unknown>), ...tags, ...(redactedFields as Record<string, unknown>) },
+      args: [metricData],
+      component: this.component,
+      logger: this.loggerName,
+      metric: metricData
+    };
+
+    // Write to transports directly
+    this.dispatch(eventData, span);
+  }
+
+  /** Writes an event to all transports with global error capture suspended */
+  private dispatch(eventData: LogEventData, span: SpanHandle | null | undefined = this.contextManager.getActiveSpan()): void {
+    // Correlate with the active trace
+    if (span) {
+      eventData.traceId = span.traceId;
+      eventData.spanId = span.spanId;
+    }
+
+    this.stats.recordWritten(eventData.level);
+    suppressErrorCapture(() => this.transportRegistry.writeToAll(eventData));
   }
 
 }
 
-/** Creates a new standalone logger instance */
-export function createLogger(config?: LoggerConfig): Logger {
-  return new LoggerImpl(config);
-}
\ No newline at end of file
+/** Creates a new standalone logger instance, typing methods and level names for its `customLevels` */
+export function createLogger<const L extends string = never>(
+  config?: Omit<LoggerConfig, 'level' | 'customLevels'> & { level?: LogLevel | L; customLevels?: readonly LevelDefinition<L>[] }
+): Logger<L> & LevelMethods<L> {
+  return new LoggerImpl(config as LoggerConfig) as unknown as Logger<L> & LevelMethods<L>;
+}
+
+/** Instance fields that custom level methods would be shadowed by; keep in sync with LoggerImpl's fields */
+const RESERVED_LEVEL_NAMES = new Set([
+  'loggerName',
+  'rootTransportRegistry',
+  'rootConfiguration',
+  'contextManager',
+  'rootRedactionEngine',
+  'errorCapture',
+  'rootDuplicates',
+  'rootRecorder',
+  'rootStats',
+  'rootMetrics',
+  'parent',
+  'componentName',
+  'ownContext',
+  'levelOverride',
+  'destroyed'
+]);
+
+/** Names of methods generated for custom levels */
+const generatedLevelMethods = new Set<string>();
+
+// Generate a logger method for every custom level, e.g. logger.fatal()
+onLevelRegistered(({ name }) => {
+  if (generatedLevelMethods.has(name)) return;
+  if (name in LoggerImpl.prototype || RESERVED_LEVEL_NAMES.has(name)) {
+    throw new TypeError(`Level name clashes with a logger member: ${name}`);
+  }
+
+  Object.defineProperty(LoggerImpl.prototype, name, {
+    configurable: true,
+    writable: true,
+    value: function (this: LoggerImpl, message: LogMessage, ...args: readonly unknown[]): void {
+      this.log(name as LogLevel, message, ...args);
+    }
+  });
+  generatedLevelMethods.add(name);
+});
\ No newline at end of file
@@ -0,0 +1,175 @@
+/**
+ * Hierarchical Logger Registry
+ *
+ * `getLogger(name)` returns cached loggers identified by colon-separated
+ * namespaces (`app:auth:oauth`). All loggers in a registry share the root
+ * logger's configuration and transports: levels set on a namespace apply to
+ * its descendants unless they set their own, and namespace patterns in the
+ * style of the `debug` package (`app:auth:*=debug,*=warn`) can be configured
+ * up front or changed at runtime.
+ *
+ * @example
+ * ```typescript
+ * import { configureLoggers, getLogger } from 'lever-ui-logger';
+ *
+ * configureLoggers({
+ *   level: 'info',
+ *   levels: 'app:auth:*=debug,*=warn',
+ *   transports: [new ConsoleTransport()]
+ * });
+ *
+ * const oauthLog = getLogger('app:auth:oauth');  // debug
+ * const billingLog = getLogger('app:billing');   // warn
+ *
+ * getLogger('app').setLevel('error');            // app:billing now error
+ * getLogger().setComponentLevel('app:*:db', 'trace');
+ * ```
+ */
+
+import type { Logger, LoggerConfig, LogLevel, LevelMethods } from './types.js';
+import { LoggerImpl } from './logger-impl.js';
+
+/** Name of the root logger */
+const ROOT_LOGGER_NAME = 'root';
+
+/**
+ * Registry of named loggers sharing a root configuration and transports
+ */
+export class LoggerRegistry {
+  private readonly rootLogger: LoggerImpl;
+  private readonly loggers = new Map<string, LoggerImpl>();
+
+  /**
+   * Creates a registry with a root logger
+   *
+   * @param config - Root configuration shared by all loggers in the registry
+   */
+  constructor(config: LoggerConfig = {}) {
+    this.rootLogger = new LoggerImpl({ component: ROOT_LOGGER_NAME, ...config }, ROOT_LOGGER_NAME);
+  }
+
+  /**
+   * The root logger, owning the shared configuration and transports
+   */
+  get root(): Logger {
+    return this.rootLogger;
+  }
+
+  /**
+   * Get or create the logger for a namespace
+   *
+   * @param name - Colon-separated namespace, e.g. `app:auth:oauth` (default: root logger)
+   * @returns Cached logger for the namespace, typed with methods for custom levels `L`
+   * @throws {TypeError} If the name is not a string
+   */
+  getLogger<L extends string = never>(name?: string): Logger<L> & LevelMethods<L> {
+    if (name === undefined || name === '' || name === ROOT_LOGGER_NAME) {
+      return this.rootLogger as unknown as Logger<L> & LevelMethods<L>;
+    }
+    if (typeof name !== 'string') {
+      throw new TypeError('Logger name must be a string');
+    }
+
+    let logger = this.loggers.get(name);
+    if (!logger || logger.isDestroyed) {
+      logger = new LoggerImpl({ component: name }, name, this.rootLogger);
+      this.loggers.set(name, logger);
+    }
+    return logger as unknown as Logger<L> & LevelMethods<L>;
+  }
+
+  /**
+   * Set levels for namespace patterns
+   *
+   * @param levels - Specification such as `app:auth:*=debug,*=warn`, or a pattern/level record
+   * @throws {TypeError} If a pattern or level is invalid
+   */
+  setLevels(levels: string | Record<string, LogLevel>): void {
+    this.rootLogger.setLevels(levels);
+  }
+
+  /**
+   * Check whether a logger has been created for a namespace
+   *
+   * @param name - Namespace to check
+   */
+  has(name: string): boolean {
+    return this.loggers.has(name);
+  }
+
+  /**
+   * Names of all loggers created in this registry (excluding the root)
+   */
+  getNames(): string[] {
+    return [...this.loggers.keys()];
+  }
+
+  /**
+   * Replace the root configuration in place
+   *
+   * Loggers fetched earlier, such as module-level ones, stay valid and write
+   * through the new configuration and transports. Transports the new
+   * configuration does not reuse are flushed and closed.
+   *
+   * @param config - New root configuration
+   * @returns Promise that resolves once the replaced transports are closed
+   * @throws {TypeError} If the config is invalid; the registry is then unchanged
+   */
+  reset(config: LoggerConfig = {}): Promise<void> {
+    const closed = this.rootLogger.reset({ component: ROOT_LOGGER_NAME, ...config });
+    this.loggers.forEach(logger => logger.refreshContext());
+    return closed;
+  }
+
+  /**
+   * Destroy the root logger, closing shared transports, and forget all loggers
+   */
+  async destroy(): Promise<void> {
+    this.loggers.clear();
+    await this.rootLogger.destroy();
+  }
+}
+
+let defaultRegistry: LoggerRegistry | undefined;
+
+/**
+ * Get the default logger registry, creating it with default configuration
+ *
+ * @returns The default registry
+ */
+export function getLoggerRegistry(): LoggerRegistry {
+  defaultRegistry ??= new LoggerRegistry();
+  return defaultRegistry;
+}
+
+/**
+ * Get a logger from the default registry
+ *
+ * @param name - Colon-separated namespace (default: root logger)
+ * @returns Cached logger for the namespace, typed with methods for custom levels `L`
+ */
+export function getLogger<L extends string = never>(name?: string): Logger<L> & LevelMethods<L> {
+  return getLoggerRegistry().getLogger<L>(name);
+}
+
+/**
+ * Configure the root of the default registry
+ *
+ * The registry is reconfigured in place, so loggers fetched earlier keep
+ * working; transports the new configuration does not reuse are flushed and
+ * closed.
+ *
+ * @param config - Root configuration
+ * @returns The default registry
+ * @throws {TypeError} If the config is invalid; a configured registry is then unchanged
+ */
+export function configureLoggers(config: LoggerConfig = {}): LoggerRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = new LoggerRegistry(config);
+  } else {
+    defaultRegistry.reset(config).catch(error => {
+      console.error('Lever UI Logger: closing replaced transports failed:', error);
+    });
+  }
+  return defaultRegistry;
+}
\ No newline at end of file
@@ -0,0 +1,173 @@
+/**
+ * Structured Message Templates
+ *
+ * Messages may contain named `{param}` placeholders, filled from plain-object
+ * arguments, and printf-style `%s`/`%d`/`%i`/`%f`/`%j`/`%o`/`%O` placeholders,
+ * filled from positional arguments. The logger keeps the template and its
+ * parameters on the event next to the rendered message, so downstream systems
+ * can group events by template. Redaction covers the parameters and the literal
+ * text between placeholders (`mapTemplateText()`).
+ *
+ * @example
+ * ```typescript
+ * logger.info('Order {orderId} failed {attempts} times', { orderId, attempts });
+ * // message: 'Order o_42 failed 3 times'
+ * // messageTemplate: 'Order {orderId} failed {attempts} times'
+ * // params: { orderId: 'o_42', attempts: 3 }
+ *
+ * logger.info('Loaded %d items in %sms', 12, '4.2');
+ * // params: { 0: 12, 1: '4.2' }
+ * ```
+ */
+
+const PLACEHOLDER_PATTERN = /\{([A-Za-z_$][\w$]*)\}|%([sdifjoO%])/g;
+
+/**
+ * Parameters extracted from a message template
+ */
+export interface TemplateParams {
+  /** Named parameters, plus positional parameters keyed by their index */
+  params: Record<string, unknown>;
+
+  /** Arguments left after positional placeholders consumed theirs */
+  args: readonly unknown[];
+}
+
+/**
+ * Extract the parameters a message template refers to
+ *
+ * Positional placeholders consume arguments in order, like `util.format`;
+ * named placeholders are looked up in the remaining plain-object arguments.
+ * Placeholders without a matching argument are left in the message as-is.
+ *
+ * @param template - Message that may contain placeholders
+ * @param args - Log arguments
+ * @returns Parameters and remaining arguments, or null if the message is not a template
+ */
+export function extractParams(template: string, args: readonly unknown[]): TemplateParams | null {
+  if (args.length === 0 || (!template.includes('{') && !template.includes('%'))) {
+    return null;
+  }
+
+  const names: string[] = [];
+  let positional = 0;
+  for (const [, name, specifier] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (name) {
+      names.push(name);
+    } else if (specifier !== '%') {
+      positional++;
+    }
+  }
+
+  const consumed = Math.min(positional, args.length);
+  const remaining = consumed > 0 ? args.slice(consumed) : args;
+  const params: Record<string, unknown> = {};
+
+  for (let index = 0; index < consumed; index++) {
+    params[index] = args[index];
+  }
+
+  for (const name of names) {
+    const source = remaining.find(arg => isPlainObject(arg) && Object.prototype.hasOwnProperty.call(arg, name));
+    if (source) {
+      params[name] = (source as Record<string, unknown>)[name];
+    }
+  }
+
+  if (Object.keys(params).length === 0) {
+    return null;
+  }
+
+  return { params, args: remaining };
+}
+
+/**
+ * Render a message template with its parameters
+ *
+ * @param template - Message template
+ * @param params - Parameters returned by `extractParams()`, possibly redacted
+ * @returns Rendered message
+ */
+export function renderTemplate(template: string, params: Record<string, unknown>): string {
+  let index = 0;
+
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string | undefined, specifier: string | undefined) => {
+    if (name) {
+      return Object.prototype.hasOwnProperty.call(params, name) ? formatValue(params[name]) : placeholder;
+    }
+    if (specifier === '%') {
+      return '%';
+    }
+
+    const key = String(index++);
+    if (!Object.prototype.hasOwnProperty.call(params, key)) {
+      return placeholder;
+    }
+
+    const value = params[key];
+    switch (specifier) {
+      case 'd':
+        return String(Number(value));
+      case 'i':
+        return String(parseInt(String(value), 10));
+      case 'f':
+        return String(parseFloat(String(value)));
+      case 'j':
+      case 'o':
+      case 'O':
+        return stringify(value);
+      default:
+        return formatValue(value);
+    }
+  });
+}
+
+/**
+ * Transform the literal text of a template, leaving its placeholders intact
+ *
+ * @param template - Message template
+ * @param transform - Applied to each run of text between placeholders, e.g. redaction
+ * @returns Template with its literal text transformed
+ */
+export function mapTemplateText(template: string, transform: (_text: string) => string): string {
+  let result = '';
+  let last = 0;
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > last) result += transform(template.slice(last, start));
+    result += match[0];
+    last = start + match[0].length;
+  }
+  return last < template.length ? result + transform(template.slice(last)) : result;
+}
+
+/**
+ * Format a parameter for `%s` and named placeholders
+ *
+ * @private
+ */
+function formatValue(value: unknown): string {
+  return typeof value === 'object' && value !== null ? stringify(value) : String(value);
+}
+
+/**
+ * JSON-encode a parameter, falling back to String() for circular values
+ *
+ * @private
+ */
+function stringify(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Check whether a value is a plain object argument
+ *
+ * @private
+ */
+function isPlainObject(value: unknown): boolean {
+  return !!value && typeof value === 'object' && (value as object).constructor === Object;
+}
\ No newline at end of file
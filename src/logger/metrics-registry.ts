@@ -0,0 +1,393 @@
+/**
+ * Metrics Registry
+ *
+ * Aggregates counters, gauges and histograms in memory instead of writing an
+ * event per measurement. A series is identified by its name and tags; every
+ * distinct tag combination is aggregated separately. Each flush interval, one
+ * snapshot per series that was updated is emitted with the count, sum, min and
+ * max of its updates (and bucket counts for histograms), then the interval
+ * totals are reset. Gauges also report their current value. Cumulative totals
+ * since each series was created are kept for `collect()`, which scrape-based
+ * exporters such as the Prometheus formatter read.
+ *
+ * @example
+ * ```typescript
+ * import { MetricsRegistry } from './metrics-registry';
+ *
+ * const metrics = new MetricsRegistry(
+ *   { flushIntervalMs: 10000 },
+ *   snapshot => console.log(snapshot.name, snapshot.tags, snapshot.fields)
+ * );
+ *
+ * metrics.counter('clicks', { button: 'buy' }).inc();
+ * metrics.gauge('queue_depth').set(12);
+ * metrics.histogram('latency', [50, 100, 250]).observe(87);
+ *
+ * metrics.flush();   // one snapshot per updated series
+ * metrics.collect(); // cumulative state of every series
+ * ```
+ */
+
+import type {
+  Counter,
+  Gauge,
+  Histogram,
+  MetricBucket,
+  MetricData,
+  MetricSeries,
+  MetricTags,
+  MetricType,
+  MetricsConfig
+} from './types.js';
+
+/** Default histogram buckets, suited to durations in ms */
+export const DEFAULT_BUCKETS: readonly number[] = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/**
+ * Aggregated series data, completed with context and component by the logger
+ */
+export type MetricSnapshot = Omit<MetricData, 'context' | 'component'>;
+
+/**
+ * Callback invoked with the snapshot of every updated series on flush
+ */
+export type MetricSnapshotHandler = (_snapshot: MetricSnapshot) => void;
+
+/**
+ * Aggregation state of one series
+ */
+interface Series {
+  type: MetricType;
+  name: string;
+  tags: Record<string, string>;
+  bounds: readonly number[];
+  handle: Counter | Gauge | Histogram;
+  value: number;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  buckets: number[];
+  totalCount: number;
+  totalSum: number;
+  totalBuckets: number[];
+}
+
+/** Handle returned once the series limit is reached */
+const NOOP_HANDLE: Counter & Gauge & Histogram = {
+  inc: () => {},
+  dec: () => {},
+  set: () => {},
+  observe: () => {}
+};
+
+/**
+ * In-memory aggregation of metric series with periodic flushing
+ */
+export class MetricsRegistry {
+  private readonly flushIntervalMs: number;
+  private readonly defaultBuckets: readonly number[];
+  private readonly maxSeries: number;
+  private readonly onSnapshot: MetricSnapshotHandler;
+  private readonly series = new Map<string, Series>();
+  private readonly types = new Map<string, MetricType>();
+  private timer?: ReturnType<typeof setInterval>;
+  private limitWarned = false;
+
+  /**
+   * @param config - Flush interval, default buckets and series limit
+   * @param onSnapshot - Receives a snapshot for every updated series on flush
+   */
+  constructor(config: MetricsConfig, onSnapshot: MetricSnapshotHandler) {
+    this.flushIntervalMs = config.flushIntervalMs ?? 10000;
+    this.defaultBuckets = config.buckets ?? DEFAULT_BUCKETS;
+    this.maxSeries = config.maxSeries ?? 1000;
+    this.onSnapshot = onSnapshot;
+
+    if (!(this.flushIntervalMs > 0)) {
+      throw new TypeError(`Metrics flush interval must be a positive number: ${config.flushIntervalMs}`);
+    }
+    assertBuckets(this.defaultBuckets);
+  }
+
+  /**
+   * Number of series tracked
+   */
+  get size(): number {
+    return this.series.size;
+  }
+
+  /**
+   * Get or create a counter series
+   *
+   * @param name - Metric name
+   * @param tags - Series dimensions
+   * @throws {TypeError} If the name is invalid or already used by another metric type
+   */
+  counter(name: string, tags?: MetricTags): Counter {
+    return this.getSeries('counter', name, tags, [], series => ({
+      inc: (value = 1) => {
+        if (!(value >= 0)) {
+          throw new RangeError(`Counter increments must not be negative: ${value}`);
+        }
+        record(series, value);
+        series.value += value;
+      }
+    })) as Counter;
+  }
+
+  /**
+   * Get or create a gauge series
+   *
+   * @param name - Metric name
+   * @param tags - Series dimensions
+   * @throws {TypeError} If the name is invalid or already used by another metric type
+   */
+  gauge(name: string, tags?: MetricTags): Gauge {
+    return this.getSeries('gauge', name, tags, [], series => {
+      const set = (value: number): void => {
+        record(series, value);
+        series.value = value;
+      };
+      return {
+        set,
+        inc: (value = 1) => set(series.value + value),
+        dec: (value = 1) => set(series.value - value)
+      };
+    }) as Gauge;
+  }
+
+  /**
+   * Get or create a histogram series
+   *
+   * The buckets of the first call for a series apply; later calls reuse them.
+   *
+   * @param name - Metric name
+   * @param buckets - Ascending bucket upper bounds (default: configured buckets)
+   * @param tags - Series dimensions
+   * @throws {TypeError} If the name or buckets are invalid, or the name is used by another metric type
+   */
+  histogram(name: string, buckets?: number[], tags?: MetricTags): Histogram {
+    if (buckets) assertBuckets(buckets);
+
+    return this.getSeries('histogram', name, tags, buckets ?? this.defaultBuckets, series => ({
+      observe: value => record(series, value)
+    })) as Histogram;
+  }
+
+  /**
+   * Emit a snapshot of every series updated since the last flush and reset interval totals
+   */
+  flush(): void {
+    const timestamp = Date.now();
+    this.series.forEach(series => {
+      if (series.count === 0) return;
+
+      const snapshot = createSnapshot(series, timestamp);
+      series.count = 0;
+      series.sum = 0;
+      series.min = Infinity;
+      series.max = -Infinity;
+      series.buckets.fill(0);
+      this.onSnapshot(snapshot);
+    });
+  }
+
+  /**
+   * Get the cumulative state of every series since it was created
+   *
+   * @returns Series in creation order
+   */
+  collect(): MetricSeries[] {
+    return [...this.series.values()].map(series => {
+      const { type, name, tags, totalCount, totalSum } = series;
+      return {
+        name,
+        type,
+        tags: { ...tags },
+        value: type === 'histogram' ? totalSum : series.value,
+        count: totalCount,
+        sum: totalSum,
+        ...(type === 'histogram' && { buckets: cumulativeBuckets(series.bounds, series.totalBuckets) })
+      };
+    });
+  }
+
+  /**
+   * Stop the flush timer; series are kept and the timer restarts on the next new series
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Find or create a series, starting the flush timer for the first one
+   *
+   * @private
+   */
+  private getSeries(
+    type: MetricType,
+    name: string,
+    tags: MetricTags = {},
+    bounds: readonly number[],
+    createHandle: (_series: Series) => Counter | Gauge | Histogram
+  ): Counter | Gauge | Histogram {
+    if (!name || typeof name !== 'string') {
+      throw new TypeError('Metric name must be a non-empty string');
+    }
+
+    const registered = this.types.get(name);
+    if (registered && registered !== type) {
+      throw new TypeError(`Metric ${name} is already registered as a ${registered}`);
+    }
+
+    const normalizedTags = normalizeTags(tags);
+    const key = seriesKey(name, normalizedTags);
+    const existing = this.series.get(key);
+    if (existing) {
+      return existing.handle;
+    }
+
+    if (this.series.size >= this.maxSeries) {
+      this.warnLimit(name);
+      return NOOP_HANDLE;
+    }
+
+    const series: Series = {
+      type,
+      name,
+      tags: normalizedTags,
+      bounds,
+      handle: NOOP_HANDLE,
+      value: 0,
+      count: 0,
+      sum: 0,
+      min: Infinity,
+      max: -Infinity,
+      buckets: bounds.map(() => 0),
+      totalCount: 0,
+      totalSum: 0,
+      totalBuckets: bounds.map(() => 0)
+    };
+    series.handle = createHandle(series);
+    this.series.set(key, series);
+    this.types.set(name, type);
+    this.start();
+    return series.handle;
+  }
+
+  /**
+   * Start the periodic flush if it is not running
+   *
+   * @private
+   */
+  private start(): void {
+    if (this.timer !== undefined) return;
+
+    this.timer = setInterval(() => this.flush(), this.flushIntervalMs);
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Warn once that the series limit was reached
+   *
+   * @private
+   */
+  private warnLimit(name: string): void {
+    if (this.limitWarned) return;
+
+    this.limitWarned = true;
+    console.warn(`Metrics series limit of ${this.maxSeries} reached; updates to new series such as ${name} are ignored`);
+  }
+}
+
+/**
+ * Add an update to the interval totals of a series
+ *
+ * @private
+ */
+function record(series: Series, value: number): void {
+  if (!Number.isFinite(value)) {
+    throw new TypeError(`Metric value must be a finite number: ${value}`);
+  }
+
+  series.count++;
+  series.sum += value;
+  series.min = Math.min(series.min, value);
+  series.max = Math.max(series.max, value);
+  series.totalCount++;
+  series.totalSum += value;
+
+  const index = series.bounds.findIndex(bound => value <= bound);
+  if (index >= 0) {
+    series.buckets[index]++;
+    series.totalBuckets[index]++;
+  }
+}
+
+/**
+ * Build the snapshot of a series' interval totals
+ *
+ * @private
+ */
+function createSnapshot(series: Series, timestamp: number): MetricSnapshot {
+  const { type, name, tags, count, sum, min, max } = series;
+
+  return {
+    name,
+    type,
+    fields: { count, sum, min, max, ...(type === 'gauge' && { value: series.value }) },
+    timestamp,
+    ...(Object.keys(tags).length > 0 && { tags: { ...tags } }),
+    ...(type === 'histogram' && {
+      buckets: cumulativeBuckets(series.bounds, series.buckets)
+    })
+  };
+}
+
+/**
+ * Turn per-bucket counts into counts of observations at or below each bound
+ *
+ * @private
+ */
+function cumulativeBuckets(bounds: readonly number[], counts: number[]): MetricBucket[] {
+  let cumulative = 0;
+  return bounds.map((le, i) => ({ le, count: (cumulative += counts[i]) }));
+}
+
+/**
+ * Convert tag values to strings
+ *
+ * @private
+ */
+function normalizeTags(tags: MetricTags): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  Object.keys(tags).sort().forEach(key => {
+    normalized[key] = String(tags[key]);
+  });
+  return normalized;
+}
+
+/**
+ * Identify a series by name and sorted tags
+ *
+ * @private
+ */
+function seriesKey(name: string, tags: Record<string, string>): string {
+  return `${name}\u0000${JSON.stringify(tags)}`;
+}
+
+/**
+ * Check that bucket bounds are finite and strictly ascending
+ *
+ * @private
+ */
+function assertBuckets(buckets: readonly number[]): void {
+  const valid = buckets.length > 0 && buckets.every((bound, i) =>
+    Number.isFinite(bound) && (i === 0 || bound > buckets[i - 1])
+  );
+  if (!valid) {
+    throw new TypeError(`Histogram buckets must be finite and ascending: ${buckets.join(', ')}`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,152 @@
+/**
+ * Namespace Level Patterns
+ *
+ * Resolves log levels for colon-separated logger namespaces such as
+ * `app:auth:oauth`, in the style of the `debug` package. Rules are either
+ * plain namespaces, which apply to the namespace and all of its descendants,
+ * or `*` wildcard patterns. When several rules match, the most specific one
+ * (most literal characters) wins; plain namespaces win ties with wildcards.
+ *
+ * @example
+ * ```typescript
+ * const rules = new Map(parseNamespaceLevels('app:auth:*=debug,*=warn'));
+ *
+ * resolveNamespaceLevel(rules, 'app:auth:oauth'); // 'debug'
+ * resolveNamespaceLevel(rules, 'app:billing');    // 'warn'
+ *
+ * rules.set('app', 'error');
+ * resolveNamespaceLevel(rules, 'app:billing');    // 'error' - inherited from 'app'
+ * ```
+ */
+
+import type { LogLevel } from './types.js';
+import { isLogLevel } from './level-registry.js';
+
+/** Level assigned to entries without `=level`, matching `DEBUG=app:*` usage */
+const DEFAULT_PATTERN_LEVEL: LogLevel = 'debug';
+
+/** Separator between namespace segments */
+const NAMESPACE_SEPARATOR = ':';
+
+/** Compiled wildcard patterns */
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Parse a namespace level specification
+ *
+ * Entries are separated by commas or whitespace and take the form
+ * `pattern=level`; an entry without a level enables `debug`.
+ *
+ * @param spec - Specification, e.g. `app:auth:*=debug,*=warn`
+ * @returns Pattern/level pairs in specification order
+ * @throws {TypeError} If an entry has an invalid level
+ */
+export function parseNamespaceLevels(spec: string): Array<[string, LogLevel]> {
+  const entries: Array<[string, LogLevel]> = [];
+
+  for (const entry of spec.split(/[\s,]+/)) {
+    if (!entry) continue;
+
+    const separator = entry.lastIndexOf('=');
+    const pattern = separator === -1 ? entry : entry.slice(0, separator);
+    const level = (separator === -1 ? DEFAULT_PATTERN_LEVEL : entry.slice(separator + 1).toLowerCase()) as LogLevel;
+
+    if (!pattern) {
+      throw new TypeError(`Invalid namespace pattern in "${entry}"`);
+    }
+    if (!isLogLevel(level)) {
+      throw new TypeError(`Invalid log level: ${level}`);
+    }
+
+    entries.push([pattern, level]);
+  }
+
+  return entries;
+}
+
+/**
+ * Check whether a rule is a wildcard pattern
+ *
+ * @param pattern - Rule pattern
+ * @returns True if the pattern contains `*`
+ */
+export function isNamespacePattern(pattern: string): boolean {
+  return pattern.includes('*');
+}
+
+/**
+ * Score how specifically a rule matches a namespace
+ *
+ * @param pattern - Plain namespace or wildcard pattern
+ * @param namespace - Namespace to test
+ * @returns Specificity score, or -1 if the rule does not match
+ */
+export function matchNamespace(pattern: string, namespace: string): number {
+  if (!isNamespacePattern(pattern)) {
+    const matches = namespace === pattern || namespace.startsWith(pattern + NAMESPACE_SEPARATOR);
+    return matches ? pattern.length * 2 + 1 : -1;
+  }
+
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*?');
+    regex = new RegExp(`^${source}$`);
+    patternCache.set(pattern, regex);
+  }
+
+  return regex.test(namespace) ? (pattern.length - pattern.split('*').length + 1) * 2 : -1;
+}
+
+/**
+ * Resolve the level for a namespace from a set of rules
+ *
+ * @param rules - Rules keyed by pattern, in insertion order (later rules win ties)
+ * @param namespace - Namespace to resolve
+ * @returns Level of the most specific matching rule, or undefined if none match
+ */
+export function resolveNamespaceLevel(rules: ReadonlyMap<string, LogLevel>, namespace: string): LogLevel | undefined {
+  let bestScore = -1;
+  let bestLevel: LogLevel | undefined;
+
+  rules.forEach((level, pattern) => {
+    const score = matchNamespace(pattern, namespace);
+    if (score >= 0 && score >= bestScore) {
+      bestScore = score;
+      bestLevel = level;
+    }
+  });
+
+  return bestLevel;
+}
+
+/**
+ * Resolve a sampling rate for a namespace from a set of rules
+ *
+ * Rules match like level rules; the most specific rule covering the level wins.
+ *
+ * @param rules - Rates by component namespace or pattern, for all levels or per level
+ * @param namespace - Namespace to resolve
+ * @param level - Level of the event
+ * @returns Rate of the most specific rule covering the level, or undefined if none do
+ */
+export function resolveNamespaceRate(
+  rules: Readonly<Record<string, number | Partial<Record<LogLevel, number>>>>,
+  namespace: string,
+  level: LogLevel
+): number | undefined {
+  let bestScore = -1;
+  let bestRate: number | undefined;
+
+  Object.entries(rules).forEach(([pattern, rates]) => {
+    const rate = typeof rates === 'number' ? rates : rates[level];
+    if (rate === undefined) return;
+
+    const score = matchNamespace(pattern, namespace);
+    if (score >= 0 && score >= bestScore) {
+      bestScore = score;
+      bestRate = rate;
+    }
+  });
+
+  return bestRate;
+}
\ No newline at end of file
@@ -0,0 +1,69 @@
+/**
+ * Pipeline Statistics
+ *
+ * Counts events on their way through a logger: those written to transports,
+ * by level, and those stopped by the level check, sampling or duplicate
+ * suppression. Counting is a single property increment, so the counters are
+ * always on. Child and named loggers share their root's counters.
+ *
+ * @example
+ * ```typescript
+ * import { PipelineStats } from './pipeline-stats';
+ *
+ * const stats = new PipelineStats();
+ * stats.recordWritten('info');
+ * stats.recordFiltered('sampling', 'debug');
+ *
+ * stats.snapshot();
+ * // { events: { info: 1 }, filtered: { level: {}, sampling: { debug: 1 }, duplicate: {} } }
+ * ```
+ */
+
+import type { FilteredEventStats, LogLevel, LoggerStats } from './types.js';
+
+/**
+ * Reason an event was not written
+ */
+export type FilterReason = keyof FilteredEventStats;
+
+/**
+ * Per-level event counters for one logger hierarchy
+ */
+export class PipelineStats {
+  private events: Partial<Record<LogLevel, number>> = {};
+  private filtered: FilteredEventStats = { level: {}, sampling: {}, duplicate: {} };
+
+  /**
+   * Count an event written to transports
+   *
+   * @param level - Level of the event
+   */
+  recordWritten(level: LogLevel): void {
+    this.events[level] = (this.events[level] ?? 0) + 1;
+  }
+
+  /**
+   * Count an event that was not written
+   *
+   * @param reason - Pipeline stage that stopped the event
+   * @param level - Level of the event
+   */
+  recordFiltered(reason: FilterReason, level: LogLevel): void {
+    const counts = this.filtered[reason];
+    counts[level] = (counts[level] ?? 0) + 1;
+  }
+
+  /**
+   * Copy the current counters
+   */
+  snapshot(): Pick<LoggerStats, 'events' | 'filtered'> {
+    return {
+      events: { ...this.events },
+      filtered: {
+        level: { ...this.filtered.level },
+        sampling: { ...this.filtered.sampling },
+        duplicate: { ...this.filtered.duplicate }
+      }
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,228 @@
+/**
+ * Prometheus Exposition
+ *
+ * Renders aggregated metric series in the Prometheus text exposition format
+ * (version 0.0.4) or OpenMetrics 1.0, so metrics can be scraped instead of
+ * pushed. Series sharing a name form one metric family with HELP and TYPE
+ * lines, and their tags become labels. Metric and label names are sanitized to
+ * the allowed characters and label values are escaped.
+ *
+ * `createMetricsHandler()` serves the output as a Node.js `http` request
+ * handler. It only relies on the shape of the request and response objects,
+ * so nothing Node.js-specific is imported and browser bundles are unaffected.
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ * import { createLogger, createMetricsHandler } from 'lever-ui-logger';
+ *
+ * const logger = createLogger({ component: 'api' });
+ * const metrics = createMetricsHandler(logger, { labels: { service: 'api' } });
+ *
+ * createServer((req, res) => {
+ *   if (req.url === '/metrics') return metrics(req, res);
+ *   app(req, res);
+ * }).listen(9464);
+ * ```
+ */
+
+import type { MetricSeries } from './types.js';
+
+/** Content type of the Prometheus text format */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Content type of the OpenMetrics text format */
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/**
+ * Text exposition format
+ */
+export type ExpositionFormat = 'prometheus' | 'openmetrics';
+
+/**
+ * Exposition settings
+ */
+export interface PrometheusOptions {
+  /** Output format (default: 'prometheus') */
+  format?: ExpositionFormat;
+
+  /** Prefix for every metric name, e.g. 'web_' */
+  prefix?: string;
+
+  /** Labels added to every series, e.g. { service: 'checkout' } */
+  labels?: Record<string, string>;
+
+  /** HELP text by metric name (default: the metric name) */
+  help?: Record<string, string>;
+}
+
+/**
+ * Anything that provides aggregated series, such as a logger
+ */
+export interface MetricsSource {
+  collectMetrics(): MetricSeries[];
+}
+
+/**
+ * The parts of a Node.js `http.IncomingMessage` the handler reads
+ */
+export interface MetricsRequest {
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * The parts of a Node.js `http.ServerResponse` the handler writes
+ */
+export interface MetricsResponse {
+  statusCode: number;
+  setHeader(_name: string, _value: string): unknown;
+  end(_body?: string): unknown;
+}
+
+/**
+ * Render series in the Prometheus or OpenMetrics text format
+ *
+ * @param series - Cumulative series, e.g. from `logger.collectMetrics()`
+ * @param options - Format, name prefix, constant labels and HELP texts
+ * @returns Exposition text, one line per sample
+ */
+export function formatMetrics(series: MetricSeries[], options: PrometheusOptions = {}): string {
+  const format = options.format ?? 'prometheus';
+  const families = new Map<string, MetricSeries[]>();
+  series.forEach(entry => {
+    const name = familyName(`${options.prefix ?? ''}${entry.name}`, entry.type, format);
+    families.set(name, [...(families.get(name) ?? []), entry]);
+  });
+
+  const lines: string[] = [];
+  families.forEach((members, name) => {
+    const { type, name: metricName } = members[0];
+    lines.push(`# HELP ${name} ${escapeHelp(options.help?.[metricName] ?? metricName, format)}`);
+    lines.push(`# TYPE ${name} ${type}`);
+    members.forEach(entry => {
+      lines.push(...formatSamples(name, entry, { ...options.labels, ...entry.tags }, format));
+    });
+  });
+
+  if (format === 'openmetrics') {
+    lines.push('# EOF');
+  }
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Create a Node.js `http` request handler that serves a source's metrics
+ *
+ * Answers GET and HEAD requests, in OpenMetrics format when the `Accept`
+ * header asks for it and in the Prometheus text format otherwise.
+ *
+ * @param source - Provider of the series, usually the logger
+ * @param options - Name prefix, constant labels and HELP texts
+ * @returns Handler for `http.createServer()` or a router's `/metrics` route
+ */
+export function createMetricsHandler(
+  source: MetricsSource,
+  options: Omit<PrometheusOptions, 'format'> = {}
+): (_request: MetricsRequest, _response: MetricsResponse) => void {
+  return (request, response) => {
+    const method = request.method ?? 'GET';
+    if (method !== 'GET' && method !== 'HEAD') {
+      response.statusCode = 405;
+      response.setHeader('Allow', 'GET, HEAD');
+      response.end();
+      return;
+    }
+
+    const accept = [request.headers.accept ?? ''].flat().join(',');
+    const format: ExpositionFormat = accept.includes('application/openmetrics-text') ? 'openmetrics' : 'prometheus';
+
+    let body: string;
+    try {
+      body = formatMetrics(source.collectMetrics(), { ...options, format });
+    } catch (error) {
+      response.statusCode = 500;
+      response.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      response.end(`Failed to collect metrics: ${error instanceof Error ? error.message : String(error)}\n`);
+      return;
+    }
+
+    response.statusCode = 200;
+    response.setHeader('Content-Type', format === 'openmetrics' ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE);
+    response.end(method === 'HEAD' ? undefined : body);
+  };
+}
+
+/**
+ * Sanitize a metric name; OpenMetrics counter families drop the `_total` suffix
+ *
+ * @private
+ */
+function familyName(name: string, type: MetricSeries['type'], format: ExpositionFormat): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_:]/g, '_').replace(/^(?=\d)/, '_');
+  return format === 'openmetrics' && type === 'counter' ? sanitized.replace(/_total$/, '') : sanitized;
+}
+
+/**
+ * Render the sample lines of one series
+ *
+ * @private
+ */
+function formatSamples(
+  name: string,
+  series: MetricSeries,
+  labels: Record<string, string>,
+  format: ExpositionFormat
+): string[] {
+  if (series.type === 'counter') {
+    const sampleName = format === 'openmetrics' ? `${name}_total` : name;
+    return [`${sampleName}${formatLabels(labels)} ${formatNumber(series.value)}`];
+  }
+  if (series.type === 'gauge') {
+    return [`${name}${formatLabels(labels)} ${formatNumber(series.value)}`];
+  }
+
+  return [
+    ...(series.buckets ?? []).map(({ le, count }) =>
+      `${name}_bucket${formatLabels({ ...labels, le: formatNumber(le) })} ${count}`
+    ),
+    `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${series.count}`,
+    `${name}_sum${formatLabels(labels)} ${formatNumber(series.sum)}`,
+    `${name}_count${formatLabels(labels)} ${series.count}`
+  ];
+}
+
+/**
+ * Render a label set, sanitizing names and escaping values
+ *
+ * @private
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([key, value]) => {
+    const name = key.replace(/[^a-zA-Z0-9_]/g, '_').replace(/^(?=\d)/, '_');
+    const escaped = value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+    return `${name}="${escaped}"`;
+  });
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Escape HELP text; OpenMetrics also escapes double quotes
+ *
+ * @private
+ */
+function escapeHelp(text: string, format: ExpositionFormat): string {
+  const escaped = text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+  return format === 'openmetrics' ? escaped.replace(/"/g, '\\"') : escaped;
+}
+
+/**
+ * Render a sample value, spelling out infinities and NaN
+ *
+ * @private
+ */
+function formatNumber(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
\ No newline at end of file
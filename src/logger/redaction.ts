@@ -214,41 +214,74 @@ export class RedactionEngine {
       return obj;
     }
 
+    // Values without fields of their own pass through for the serialization codec
+    if (obj instanceof Date || obj instanceof RegExp || obj instanceof ArrayBuffer || ArrayBuffer.isView(obj)) {
+      return obj;
+    }
+
     // Handle circular references
     if (visited.has(obj)) {
       return '<circular>';
     }
     visited.add(obj);
 
-    // Arrays
+    let result: unknown;
     if (Array.isArray(obj)) {
-      const result = obj.map(item => this.redactObject(item, visited));
-      visited.delete(obj);
-      return result;
-    }
-
-    // Objects
-    const result: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(obj)) {
-      // Check if field name indicates PII
-      if (isPIIFieldName(key)) {
-        result[key] = this.config.hashRedaction ? this.hashValue(value) : '<redacted>';
-        this.stats.fieldHits[key] = (this.stats.fieldHits[key] || 0) + 1;
-      } else {
-        // For non-PII field names, apply string redaction to string values
-        if (typeof value === 'string') {
-          result[key] = this.redactString(value);
-        } else {
-          // Recursively redact nested objects
-          result[key] = this.redactObject(value, visited);
-        }
+      result = obj.map(item => this.redactObject(item, visited));
+    } else if (obj instanceof Error) {
+      result = this.redactError(obj, visited);
+    } else if (obj instanceof Map) {
+      // Map keys are treated like field names
+      result = new Map([...obj].map(([key, value]) => [key, this.redactField(key, value, visited)]));
+    } else if (obj instanceof Set) {
+      result = new Set([...obj].map(item => this.redactObject(item, visited)));
+    } else {
+      const fields: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(obj)) {
+        fields[key] = this.redactField(key, value, visited);
       }
+      result = fields;
     }
 
     visited.delete(obj);
     return result;
   }
 
+  /**
+   * Redacts a field value, replacing it entirely if the field name indicates PII
+   * 
+   * @private
+   */
+  private redactField(key: unknown, value: unknown, visited: WeakSet<object>): unknown {
+    if (typeof key === 'string' && isPIIFieldName(key)) {
+      this.stats.fieldHits[key] = (this.stats.fieldHits[key] || 0) + 1;
+      return this.config.hashRedaction ? this.hashValue(value) : '<redacted>';
+    }
+    return this.redactObject(value, visited);
+  }
+
+  /**
+   * Redacts an error's message, stack, cause and fields, keeping its class
+   * 
+   * @private
+   */
+  private redactError(error: Error, visited: WeakSet<object>): Error {
+    const result = Object.create(Object.getPrototypeOf(error)) as Error;
+    const hidden = (value: unknown): PropertyDescriptor => ({ value, writable: true, configurable: true });
+
+    Object.defineProperty(result, 'message', hidden(this.redactString(error.message)));
+    if (error.stack !== undefined) {
+      Object.defineProperty(result, 'stack', hidden(this.redactString(error.stack)));
+    }
+    if ('cause' in error) {
+      Object.defineProperty(result, 'cause', hidden(this.redactObject((error as { cause?: unknown }).cause, visited)));
+    }
+    for (const [key, value] of Object.entries(error)) {
+      (result as unknown as Record<string, unknown>)[key] = this.redactField(key, value, visited);
+    }
+    return result;
+  }
+
   /**
    * Redacts PII from log arguments array, processing each argument as an object.
    * 
@@ -280,6 +313,30 @@ export class RedactionEngine {
     return args.map(arg => this.redactObject(arg, new WeakSet()));
   }
 
+  /**
+   * Redacts PII from message template parameters.
+   *
+   * Only parameter values are inspected; the template itself is trusted as
+   * developer-authored text, so the message is rendered from redacted values.
+   *
+   * @param params - Named and positional template parameters
+   * @returns Parameters with PII fields and string values redacted
+   *
+   * @example
+   * ```typescript
+   * const engine = new RedactionEngine();
+   * engine.redactParams({ orderId: 'o_42', email: 'user@example.com', 0: 'call 555-123-4567' });
+   * // Returns: { 0: 'call <phone>', orderId: 'o_42', email: '<redacted>' }
+   * ```
+   */
+  redactParams(params: Record<string, unknown>): Record<string, unknown> {
+    if (this.config.mode === 'off') {
+      return params;
+    }
+
+    return this.redactObject(params) as Record<string, unknown>;
+  }
+
   /**
    * Adds Laplace noise to numeric values for differential privacy protection.
    * 
@@ -444,7 +501,9 @@ export class RedactionEngine {
     if (this.config.patterns && this.config.patterns.length > 0) {
       const customPatterns = this.config.patterns.map((pattern, index) => ({
         name: pattern.name || `custom-${index}`,
-        pattern: pattern.pattern,
+        pattern: typeof pattern.pattern === 'string'
+          ? new RegExp(pattern.pattern, pattern.flags ?? 'g')
+          : pattern.pattern,
         replacement: pattern.replacement,
         description: pattern.description || 'Custom pattern',
         defaultEnabled: pattern.defaultEnabled ?? true,
@@ -0,0 +1,468 @@
+/**
+ * Remote Configuration
+ *
+ * Polls an endpoint, or any async function, for runtime config overrides so
+ * logging can be turned up for an incident or a cohort without a deploy.
+ * Overrides are applied with `logger.configure()`, so they are validated and
+ * reported to transports like any other runtime change.
+ *
+ * - Requests send `If-None-Match` with the last ETag; a 304 keeps the override
+ * - Poll intervals are jittered so a fleet of clients does not poll in step
+ * - The last good payload is kept in storage and applied again on `start()`,
+ *   before the first response, and when the endpoint is unreachable
+ * - Payloads that fail the schema or `configure()` are rejected and the
+ *   current settings are kept
+ * - An override ends at its `expiresAt`, capped by `maxDurationMs`, and the
+ *   settings it replaced are restored
+ *
+ * A payload looks like
+ * `{ "config": { "level": "debug" }, "expiresAt": "2026-01-01T12:00:00Z" }`.
+ * Keys missing from a new payload are restored to their value before the
+ * override; `{ "config": {} }` ends the override.
+ *
+ * @example
+ * ```typescript
+ * import { createLogger, RemoteConfigProvider } from 'lever-ui-logger';
+ *
+ * const logger = createLogger({ level: 'info' });
+ * const remoteConfig = new RemoteConfigProvider(logger, {
+ *   source: '/api/logging-config',
+ *   intervalMs: 30000,
+ *   maxDurationMs: 60 * 60 * 1000
+ * });
+ * remoteConfig.start();
+ * ```
+ */
+
+import type { Logger, RuntimeConfig } from './types.js';
+import { LOGGER_CONFIG_SCHEMA, validateSchema, type JsonSchema } from './config-schema.js';
+import { RUNTIME_CONFIG_KEYS } from './logger-configuration.js';
+import { isEqualValue } from './config-diff.js';
+
+/** Default poll interval */
+const DEFAULT_INTERVAL_MS = 60000;
+
+/** Default share of the interval it varies by */
+const DEFAULT_JITTER = 0.1;
+
+/** Default storage key of the last good payload */
+const DEFAULT_STORAGE_KEY = 'lever-log-remote-config';
+
+/** Longest delay setTimeout accepts */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Runtime config override sent by the remote source
+ */
+export interface RemoteConfigPayload {
+  /** Settings to override, as accepted by `logger.configure()` */
+  config: RuntimeConfig;
+
+  /** When the override ends, as epoch ms or an ISO 8601 date-time */
+  expiresAt?: number | string;
+}
+
+/**
+ * Async source of payloads; resolves undefined when nothing changed
+ */
+export type RemoteConfigSource = () => Promise<unknown>;
+
+/**
+ * The parts of `localStorage` the provider uses
+ */
+export interface RemoteConfigStorage {
+  getItem(_key: string): string | null;
+  setItem(_key: string, _value: string): void;
+  removeItem(_key: string): void;
+}
+
+/**
+ * The parts of `fetch` the provider uses
+ */
+export type RemoteConfigFetch = (_url: string, _init: { headers: Record<string, string> }) => Promise<{
+  status: number;
+  ok: boolean;
+  headers: { get(_name: string): string | null };
+  json(): Promise<unknown>;
+}>;
+
+/**
+ * What the provider configures, usually the logger
+ */
+export type RemoteConfigTarget = Pick<Logger, 'configure' | 'getRuntimeConfig'>;
+
+/**
+ * Remote configuration settings
+ */
+export interface RemoteConfigOptions {
+  /** URL to fetch payloads from, or a function returning them */
+  source: string | RemoteConfigSource;
+
+  /** Time between polls in ms (default: 60000) */
+  intervalMs?: number;
+
+  /** Share of the interval each poll is moved by at random, 0-1 (default: 0.1) */
+  jitter?: number;
+
+  /** Longest an override stays applied in ms (default: until it expires) */
+  maxDurationMs?: number;
+
+  /** Storage for the last good payload (default: localStorage if available; false disables) */
+  storage?: RemoteConfigStorage | false;
+
+  /** Storage key of the last good payload (default: 'lever-log-remote-config') */
+  storageKey?: string;
+
+  /** Extra request headers, e.g. for authentication */
+  headers?: Record<string, string>;
+
+  /** Fetch implementation for URL sources (default: global fetch) */
+  fetch?: RemoteConfigFetch;
+
+  /** Called when a poll fails or a payload is rejected (default: console.warn) */
+  onError?: (_error: Error) => void;
+}
+
+/**
+ * JSON Schema of remote config payloads: the runtime keys of the logger schema
+ */
+export const REMOTE_CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    config: {
+      type: 'object',
+      properties: Object.fromEntries(RUNTIME_CONFIG_KEYS.map(key => [key, LOGGER_CONFIG_SCHEMA.properties![key]])),
+      additionalProperties: false
+    },
+    expiresAt: { type: ['number', 'string'], format: 'date-time' }
+  },
+  required: ['config'],
+  additionalProperties: false
+};
+
+/**
+ * Last good payload as kept in storage
+ */
+interface StoredRemoteConfig {
+  payload: RemoteConfigPayload;
+  etag?: string;
+  appliedAt: number;
+  reverted?: boolean;
+}
+
+/**
+ * Polls a remote source for runtime config overrides and applies them to a logger
+ */
+export class RemoteConfigProvider {
+  private readonly target: RemoteConfigTarget;
+  private readonly source: string | RemoteConfigSource;
+  private readonly intervalMs: number;
+  private readonly jitter: number;
+  private readonly maxDurationMs: number;
+  private readonly storage?: RemoteConfigStorage;
+  private readonly storageKey: string;
+  private readonly headers: Record<string, string>;
+  private readonly fetch?: RemoteConfigFetch;
+  private readonly onError: (_error: Error) => void;
+  private running = false;
+  private pollTimer?: ReturnType<typeof setTimeout>;
+  private revertTimer?: ReturnType<typeof setTimeout>;
+  private etag?: string;
+  private lastPayload?: RemoteConfigPayload;
+  private appliedAt = 0;
+  private active?: RuntimeConfig;
+  private baseline?: RuntimeConfig;
+  private deadline = Infinity;
+
+  /**
+   * @param target - Logger to configure
+   * @param options - Source, timing, storage and error handling
+   * @throws {TypeError} If the source or interval is invalid, or a URL source has no fetch
+   * @throws {RangeError} If the jitter is outside 0-1
+   */
+  constructor(target: RemoteConfigTarget, options: RemoteConfigOptions) {
+    this.target = target;
+    this.source = options.source;
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.jitter = options.jitter ?? DEFAULT_JITTER;
+    this.maxDurationMs = options.maxDurationMs ?? Infinity;
+    this.storage = options.storage === false ? undefined : options.storage ?? defaultStorage();
+    this.storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+    this.headers = options.headers ?? {};
+    this.fetch = options.fetch ?? (typeof fetch === 'function' ? (url, init) => fetch(url, init) : undefined);
+    this.onError = options.onError ?? (error => console.warn(`[remote-config] ${error.message}`));
+
+    if (!this.source || (typeof this.source !== 'string' && typeof this.source !== 'function')) {
+      throw new TypeError('Remote config source must be a URL or a function');
+    }
+    if (!(this.intervalMs > 0)) {
+      throw new TypeError(`Remote config interval must be a positive number: ${options.intervalMs}`);
+    }
+    if (!(this.maxDurationMs > 0)) {
+      throw new TypeError(`Remote config max duration must be a positive number: ${options.maxDurationMs}`);
+    }
+    if (!(this.jitter >= 0 && this.jitter <= 1)) {
+      throw new RangeError(`Remote config jitter must be between 0 and 1: ${options.jitter}`);
+    }
+    if (typeof this.source === 'string' && !this.fetch) {
+      throw new TypeError('Remote config from a URL needs a fetch implementation');
+    }
+  }
+
+  /** Whether polling is running */
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /** Settings currently overridden, if any */
+  get override(): RuntimeConfig | undefined {
+    return this.active;
+  }
+
+  /** When the current override ends, in epoch ms, if it has a deadline */
+  get expiresAt(): number | undefined {
+    return this.active && this.deadline !== Infinity ? this.deadline : undefined;
+  }
+
+  /**
+   * Apply the last good payload from storage and start polling
+   */
+  start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    this.restoreCached();
+    void this.tick();
+  }
+
+  /**
+   * Stop polling; an applied override stays until its deadline or `revert()`
+   */
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.pollTimer);
+    this.pollTimer = undefined;
+  }
+
+  /**
+   * Fetch the source once and apply a changed payload
+   *
+   * Never rejects: failures and rejected payloads are reported to `onError`.
+   *
+   * @returns True if the override changed
+   */
+  async poll(): Promise<boolean> {
+    let result: { payload: unknown; etag?: string } | undefined;
+    try {
+      result = await this.fetchPayload();
+    } catch (error) {
+      this.onError(error as Error);
+      return false;
+    }
+    return result ? this.apply(result.payload, result.etag) : false;
+  }
+
+  /**
+   * End the current override and restore the settings it replaced
+   *
+   * @returns True if an override was applied
+   */
+  revert(): boolean {
+    clearTimeout(this.revertTimer);
+    this.revertTimer = undefined;
+    const { baseline } = this;
+    this.active = undefined;
+    this.baseline = undefined;
+    this.deadline = Infinity;
+    if (!baseline) return false;
+
+    try {
+      this.target.configure(baseline);
+    } catch (error) {
+      this.onError(error as Error);
+    }
+    if (this.lastPayload) {
+      this.save({ payload: this.lastPayload, etag: this.etag, appliedAt: this.appliedAt, reverted: true });
+    }
+    return true;
+  }
+
+  /**
+   * Poll, then schedule the next poll while running
+   *
+   * @private
+   */
+  private async tick(): Promise<void> {
+    await this.poll();
+    if (!this.running) return;
+
+    clearTimeout(this.pollTimer);
+    const delay = this.intervalMs * (1 + this.jitter * (2 * Math.random() - 1));
+    this.pollTimer = setTimeout(() => void this.tick(), delay);
+    (this.pollTimer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Read a payload from the source; undefined if it has not changed
+   *
+   * @private
+   */
+  private async fetchPayload(): Promise<{ payload: unknown; etag?: string } | undefined> {
+    if (typeof this.source === 'function') {
+      const payload = await this.source();
+      return payload === undefined ? undefined : { payload };
+    }
+
+    const headers: Record<string, string> = { Accept: 'application/json', ...this.headers };
+    if (this.etag) {
+      headers['If-None-Match'] = this.etag;
+    }
+    const response = await this.fetch!(this.source, { headers });
+    if (response.status === 304) return undefined;
+    if (!response.ok) {
+      throw new Error(`Remote logger config request failed with status ${response.status}`);
+    }
+
+    let payload: unknown;
+    try {
+      payload = await response.json();
+    } catch (error) {
+      throw new TypeError(`Remote logger config is not valid JSON: ${(error as Error).message}`);
+    }
+    return { payload, etag: response.headers.get('ETag') ?? undefined };
+  }
+
+  /**
+   * Validate a payload and apply it, releasing keys the previous override set
+   *
+   * @private
+   */
+  private apply(payload: unknown, etag?: string, appliedAt: number = Date.now()): boolean {
+    const errors = validateSchema(payload, REMOTE_CONFIG_SCHEMA, 'payload');
+    if (errors.length > 0) {
+      this.onError(new TypeError(`Invalid remote logger config: ${errors.join('; ')}`));
+      return false;
+    }
+    if (isEqualValue(payload, this.lastPayload)) {
+      this.etag = etag ?? this.etag;
+      return false;
+    }
+
+    const { config, expiresAt } = payload as RemoteConfigPayload;
+    const expiry = expiresAt === undefined ? Infinity : new Date(expiresAt).getTime();
+    const deadline = Math.min(expiry, appliedAt + this.maxDurationMs);
+    if (deadline <= Date.now()) {
+      this.lastPayload = payload as RemoteConfigPayload;
+      this.etag = etag;
+      return this.revert();
+    }
+
+    const keys = Object.keys(config) as Array<keyof RuntimeConfig>;
+    const previous: RuntimeConfig = this.baseline ?? {};
+    const current = this.target.getRuntimeConfig();
+    const released = Object.fromEntries(Object.entries(previous).filter(([key]) => !(key in config)));
+    const baseline = Object.fromEntries(keys.map(key => [key, key in previous ? previous[key] : current[key]]));
+    try {
+      // configure() validates everything before applying anything, so a rejected payload changes nothing
+      this.target.configure({ ...released, ...config });
+    } catch (error) {
+      this.onError(new TypeError(`Invalid remote logger config: ${(error as Error).message}`));
+      return false;
+    }
+
+    this.lastPayload = payload as RemoteConfigPayload;
+    this.etag = etag;
+    this.appliedAt = appliedAt;
+    this.active = keys.length > 0 ? config : undefined;
+    this.baseline = keys.length > 0 ? baseline : undefined;
+    this.deadline = deadline;
+    this.scheduleRevert();
+    this.save({ payload: this.lastPayload, etag, appliedAt });
+    return true;
+  }
+
+  /**
+   * Revert the override at its deadline, in steps of the longest timer delay
+   *
+   * @private
+   */
+  private scheduleRevert(): void {
+    clearTimeout(this.revertTimer);
+    this.revertTimer = undefined;
+    if (!this.active || this.deadline === Infinity) return;
+
+    const delay = Math.min(Math.max(this.deadline - Date.now(), 0), MAX_TIMER_DELAY);
+    this.revertTimer = setTimeout(() => {
+      if (Date.now() >= this.deadline) {
+        this.revert();
+      } else {
+        this.scheduleRevert();
+      }
+    }, delay);
+    (this.revertTimer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Apply the payload kept in storage, unless it was reverted
+   *
+   * @private
+   */
+  private restoreCached(): void {
+    let stored: StoredRemoteConfig | undefined;
+    try {
+      const item = this.storage?.getItem(this.storageKey);
+      stored = item ? JSON.parse(item) : undefined;
+    } catch (error) {
+      this.onError(new TypeError(`Stored remote logger config is not valid JSON: ${(error as Error).message}`));
+      this.remove();
+      return;
+    }
+    if (!stored) return;
+
+    if (stored.reverted) {
+      this.lastPayload = stored.payload;
+      this.etag = stored.etag;
+    } else if (!this.apply(stored.payload, stored.etag, stored.appliedAt) && !this.lastPayload) {
+      this.remove();
+    }
+  }
+
+  /**
+   * Keep a payload in storage (writes throw when storage is full or disabled)
+   *
+   * @private
+   */
+  private save(record: StoredRemoteConfig): void {
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(record));
+    } catch {
+      // Storage is best effort
+    }
+  }
+
+  /**
+   * Remove the stored payload
+   *
+   * @private
+   */
+  private remove(): void {
+    try {
+      this.storage?.removeItem(this.storageKey);
+    } catch {
+      // Storage is best effort
+    }
+  }
+}
+
+/**
+ * Get localStorage if the environment has it (access throws in some privacy modes)
+ *
+ * @private
+ */
+function defaultStorage(): RemoteConfigStorage | undefined {
+  try {
+    return (globalThis as { localStorage?: RemoteConfigStorage }).localStorage;
+  } catch {
+    return undefined;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,108 @@
+/**
+ * Key-Based Sampling
+ *
+ * Makes sampling decisions by hashing a stable key, such as the session ID,
+ * user ID or trace ID, instead of rolling `Math.random()` per event. An entity
+ * whose key hashes below the rate has all of its events kept; every other
+ * entity has all of them dropped, so a sampled session reads as a coherent
+ * story. Because the hash is compared against the rate, the entities kept at a
+ * lower rate are always a subset of those kept at a higher one.
+ *
+ * Events without a key fall back to random sampling. Kept events carry the
+ * decision so counts can be re-weighted by `1 / rate`.
+ *
+ * @example
+ * ```typescript
+ * import { sampleEvent } from './sampling';
+ *
+ * const decision = sampleEvent(0.1, 'session', () => ({
+ *   level: 'debug',
+ *   component: 'checkout',
+ *   context: { sessionId: 'abc-123' }
+ * }));
+ *
+ * // Same answer for every event of session abc-123
+ * if (decision) {
+ *   event.sampling = decision; // { rate: 0.1, key: 'session' }
+ * }
+ * ```
+ */
+
+import type { SamplingDecision, SamplingKey, SamplingSubject } from './types.js';
+
+/** Context fields read by the built-in keys */
+const CONTEXT_KEY_FIELDS: Record<'session' | 'user' | 'trace', string> = {
+  session: 'sessionId',
+  user: 'userId',
+  trace: 'traceId'
+};
+
+/**
+ * Hash a key to a number in [0, 1) using 32-bit FNV-1a
+ *
+ * @param key - Key to hash
+ * @returns Stable position of the key in the unit interval
+ */
+export function hashToUnit(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Read the sampling key for an event
+ *
+ * @param key - Built-in key name or key function
+ * @param subject - Event being sampled
+ * @returns Key value, or undefined if the event has none
+ */
+export function resolveSamplingKey(key: SamplingKey, subject: SamplingSubject): string | undefined {
+  const value = typeof key === 'function'
+    ? key(subject)
+    : (key === 'trace' && subject.traceId) || subject.context[CONTEXT_KEY_FIELDS[key]];
+
+  if (typeof value === 'string') return value || undefined;
+  if (typeof value === 'number' || typeof value === 'bigint') return String(value);
+  return undefined;
+}
+
+/**
+ * Decide whether to keep an event at a rate
+ *
+ * @param rate - Sampling rate between 0 and 1
+ * @param key - Key to sample by; without one, or when the event has none, sampling is random
+ * @param getSubject - Provides the event, only called when a key is needed
+ * @returns The decision if the event is kept, otherwise undefined
+ */
+export function sampleEvent(
+  rate: number,
+  key?: SamplingKey,
+  getSubject?: () => SamplingSubject
+): SamplingDecision | undefined {
+  if (rate >= 1) return { rate: 1 };
+  if (!(rate > 0)) return undefined;
+
+  const value = key && getSubject ? resolveSamplingKey(key, getSubject()) : undefined;
+  if (value === undefined) {
+    return Math.random() < rate ? { rate, key: 'random' } : undefined;
+  }
+
+  return hashToUnit(value) < rate
+    ? { rate, key: typeof key === 'function' ? 'custom' : key }
+    : undefined;
+}
+
+/**
+ * Check that a sampling rate is between 0 and 1
+ *
+ * @param rate - Rate to check
+ * @throws {RangeError} If the rate is out of range
+ */
+export function assertSamplingRate(rate: number): void {
+  if (!(rate >= 0 && rate <= 1)) {
+    throw new RangeError('Sampling rate must be between 0 and 1');
+  }
+}
\ No newline at end of file
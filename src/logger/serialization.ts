@@ -0,0 +1,518 @@
+/**
+ * LogEventData Serialization Codec
+ *
+ * One JSON encoding shared by every transport and the offline storage path.
+ * Values JSON cannot represent are written as tagged objects (`$type`) so they
+ * survive a round trip: errors, `Map`, `Set`, `BigInt`, `Date`, `RegExp`,
+ * typed arrays and non-finite numbers. Circular references and values nested
+ * deeper than `maxDepth` are replaced by markers instead of throwing, and
+ * serialized events are versioned with `schemaVersion`.
+ *
+ * @example
+ * ```typescript
+ * import { serializeEvent, deserializeEvent } from 'lever-ui-logger';
+ *
+ * const json = serializeEvent(event, { maxDepth: 8, maxSize: 64 * 1024 });
+ * // {"schemaVersion":1,"level":"error",...,"context":{"id":{"$type":"BigInt","value":"9007199254740993"}}}
+ *
+ * const restored = deserializeEvent(json);
+ * restored.context.id; // 9007199254740993n
+ * ```
+ */
+
+import type { LogEventData } from './types.js';
+
+/** Current LogEventData schema version written by the codec */
+export const LOG_EVENT_SCHEMA_VERSION = 1;
+
+/**
+ * Serialization limits and hooks
+ */
+export interface SerializationOptions {
+  /** Maximum object nesting depth; deeper values become '[MaxDepth]' (default: 10) */
+  maxDepth?: number;
+
+  /** Maximum string length; longer strings are truncated (default: unlimited) */
+  maxStringLength?: number;
+
+  /** Maximum serialized event length in characters; context and args are dropped beyond it (default: unlimited) */
+  maxSize?: number;
+
+  /** Called for every value before it is encoded, like a `JSON.stringify` replacer */
+  replacer?: (_key: string, _value: unknown) => unknown;
+}
+
+/**
+ * LogEventData encoded for transmission or storage
+ */
+export interface EncodedLogEvent extends LogEventData {
+  /** Codec schema version; missing on events stored before versioning */
+  schemaVersion: number;
+}
+
+const DEFAULT_MAX_DEPTH = 10;
+
+/** Error constructors restored by name when decoding */
+const ERROR_TYPES: Record<string, new (_message?: string) => Error> = {
+  Error,
+  TypeError,
+  RangeError,
+  SyntaxError,
+  ReferenceError,
+  EvalError,
+  URIError
+};
+
+/** Typed array constructors restored by name when decoding */
+const TYPED_ARRAYS: Record<string, new (_values: ArrayLike<number> & ArrayLike<bigint>) => ArrayLike<unknown>> = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  ...(typeof BigInt64Array !== 'undefined' && { BigInt64Array, BigUint64Array })
+} as Record<string, new (_values: ArrayLike<number> & ArrayLike<bigint>) => ArrayLike<unknown>>;
+
+/**
+ * Encode any value into a JSON-safe form with tagged special types
+ *
+ * @param value - Value to encode
+ * @param options - Depth and string limits
+ * @returns Value that `JSON.stringify` always accepts
+ */
+export function encodeValue(value: unknown, options: SerializationOptions = {}): unknown {
+  return encode(value, '', 0, new WeakSet(), options);
+}
+
+/**
+ * Restore tagged values produced by `encodeValue()`
+ *
+ * @param value - Parsed JSON value
+ * @returns Value with errors, maps, sets, bigints, dates and typed arrays restored
+ */
+export function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  return typeof record.$type === 'string' ? decodeTagged(record) : decodeEntries(record);
+}
+
+/**
+ * Encode a log event with the current schema version
+ *
+ * @param event - Event to encode
+ * @param options - Depth and string limits
+ */
+export function encodeEvent(event: LogEventData, options: SerializationOptions = {}): EncodedLogEvent {
+  return {
+    schemaVersion: LOG_EVENT_SCHEMA_VERSION,
+    ...(encodeValue(event, options) as LogEventData)
+  };
+}
+
+/**
+ * Decode a log event produced by `encodeEvent()`
+ *
+ * Events without a `schemaVersion` (written before versioning) are accepted.
+ *
+ * @param encoded - Parsed encoded event
+ * @throws {TypeError} If the value is not an object or has an unsupported version
+ */
+export function decodeEvent(encoded: unknown): LogEventData {
+  if (!encoded || typeof encoded !== 'object' || Array.isArray(encoded)) {
+    throw new TypeError('Encoded log event must be an object');
+  }
+
+  const { schemaVersion, ...event } = encoded as Partial<EncodedLogEvent>;
+  if (schemaVersion !== undefined && schemaVersion !== LOG_EVENT_SCHEMA_VERSION) {
+    throw new TypeError(`Unsupported log event schema version: ${schemaVersion}`);
+  }
+
+  return decodeValue(event) as LogEventData;
+}
+
+/**
+ * Serialize a log event to JSON
+ *
+ * Events longer than `maxSize` keep their level, message and metadata but
+ * lose context, arguments and template parameters; the message itself is
+ * shortened as a last resort.
+ *
+ * @param event - Event to serialize
+ * @param options - Depth, string and size limits
+ * @returns JSON string; never throws for circular or exotic values
+ */
+export function serializeEvent(event: LogEventData, options: SerializationOptions = {}): string {
+  const json = JSON.stringify(encodeEvent(event, options));
+  const { maxSize } = options;
+  if (maxSize === undefined || json.length <= maxSize) {
+    return json;
+  }
+
+  const reduced: LogEventData = {
+    ...event,
+    context: { truncated: true, originalSize: json.length },
+    args: [],
+    params: undefined
+  };
+  const reducedJson = JSON.stringify(encodeEvent(reduced, options));
+  const overflow = reducedJson.length - maxSize;
+  if (overflow <= 0) {
+    return reducedJson;
+  }
+
+  const suffix = '...[truncated]';
+  const message = reduced.message.slice(0, Math.max(0, reduced.message.length - overflow - suffix.length));
+  return JSON.stringify(encodeEvent({ ...reduced, message: message + suffix }, options));
+}
+
+/**
+ * Parse a log event serialized with `serializeEvent()`
+ *
+ * @param json - Serialized event
+ * @throws {SyntaxError} If the JSON is invalid
+ * @throws {TypeError} If the schema version is unsupported
+ */
+export function deserializeEvent(json: string): LogEventData {
+  return decodeEvent(JSON.parse(json));
+}
+
+/**
+ * JSON-stringify any value for display
+ *
+ * Unlike the codec, nothing is tagged: `5n` reads as `"5n"`, maps as objects,
+ * sets as arrays and errors as `{ name, message, stack }`. The output can't be
+ * decoded; use `serializeEvent()` or `encodeValue()` for sending and storage.
+ *
+ * @param value - Value to stringify
+ * @param indent - Indentation for pretty output
+ * @param options - Depth and string limits
+ */
+export function stringifyValue(value: unknown, indent?: number, options: SerializationOptions = {}): string {
+  return JSON.stringify(display(value, '', 0, new WeakSet(), options), null, indent) ?? String(value);
+}
+
+/**
+ * Recursively encode a value
+ *
+ * @private
+ */
+function encode(input: unknown, key: string, depth: number, seen: WeakSet<object>, options: SerializationOptions): unknown {
+  const value = options.replacer ? options.replacer(key, input) : input;
+
+  switch (typeof value) {
+    case 'string':
+      return truncate(value, options.maxStringLength);
+    case 'number':
+      return Number.isFinite(value) ? value : { $type: 'Number', value: String(value) };
+    case 'boolean':
+      return value;
+    case 'bigint':
+      return { $type: 'BigInt', value: value.toString() };
+    case 'undefined':
+      return { $type: 'Undefined' };
+    case 'symbol':
+      return { $type: 'Symbol', value: value.description ?? '' };
+    case 'function':
+      return `[Function: ${value.name || 'anonymous'}]`;
+  }
+
+  if (value === null) {
+    return null;
+  }
+
+  const object = value as object;
+  if (seen.has(object)) {
+    return '[Circular]';
+  }
+  if (depth >= (options.maxDepth ?? DEFAULT_MAX_DEPTH)) {
+    return '[MaxDepth]';
+  }
+
+  seen.add(object);
+  try {
+    return encodeObject(object, depth + 1, seen, options);
+  } finally {
+    seen.delete(object);
+  }
+}
+
+/**
+ * Encode an object, tagging types JSON cannot represent
+ *
+ * @private
+ */
+function encodeObject(object: object, depth: number, seen: WeakSet<object>, options: SerializationOptions): unknown {
+  const child = (value: unknown, key: string): unknown => encode(value, key, depth, seen, options);
+
+  if (Array.isArray(object)) {
+    return object.map((item, index) => child(item, String(index)));
+  }
+  if (object instanceof Date) {
+    return { $type: 'Date', value: isNaN(object.getTime()) ? null : object.toISOString() };
+  }
+  if (object instanceof Error) {
+    // name, message and stack are usually non-enumerable; own props carry extras such as `code`
+    const { name: _name, message: _message, stack: _stack, cause: _cause, ...props } = object as Error & Record<string, unknown>;
+    const cause = (object as { cause?: unknown }).cause;
+    return {
+      $type: 'Error',
+      name: object.name,
+      message: truncate(String(object.message), options.maxStringLength),
+      ...(object.stack !== undefined && { stack: truncate(object.stack, options.maxStringLength) }),
+      ...(cause !== undefined && { cause: child(cause, 'cause') }),
+      ...(Object.keys(props).length > 0 && { props: encodeEntries(props, child) })
+    };
+  }
+  if (object instanceof Map) {
+    return { $type: 'Map', entries: [...object].map(([key, value], index) => [child(key, String(index)), child(value, String(key))]) };
+  }
+  if (object instanceof Set) {
+    return { $type: 'Set', values: [...object].map((value, index) => child(value, String(index))) };
+  }
+  if (object instanceof RegExp) {
+    return { $type: 'RegExp', source: object.source, flags: object.flags };
+  }
+  if (object instanceof ArrayBuffer) {
+    return { $type: 'TypedArray', kind: 'ArrayBuffer', values: Array.from(new Uint8Array(object)) };
+  }
+  if (ArrayBuffer.isView(object) && !(object instanceof DataView)) {
+    const values = Array.from(object as unknown as ArrayLike<number | bigint>, value =>
+      typeof value === 'bigint' ? value.toString() : value
+    );
+    return { $type: 'TypedArray', kind: object.constructor.name, values };
+  }
+
+  const toJSON = (object as { toJSON?: () => unknown }).toJSON;
+  if (typeof toJSON === 'function') {
+    return child(toJSON.call(object), '');
+  }
+
+  const encoded = encodeEntries(object as Record<string, unknown>, child);
+  // Plain objects that happen to have a $type key are wrapped so they aren't mistaken for tags
+  return Object.prototype.hasOwnProperty.call(object, '$type') ? { $type: 'Object', value: encoded } : encoded;
+}
+
+/**
+ * Recursively convert a value to plain JSON for display
+ *
+ * @private
+ */
+function display(input: unknown, key: string, depth: number, seen: WeakSet<object>, options: SerializationOptions): unknown {
+  const value = options.replacer ? options.replacer(key, input) : input;
+
+  switch (typeof value) {
+    case 'string':
+      return truncate(value, options.maxStringLength);
+    case 'number':
+      return Number.isFinite(value) ? value : String(value);
+    case 'bigint':
+      return `${value}n`;
+    case 'symbol':
+      return value.toString();
+    case 'function':
+      return `[Function: ${value.name || 'anonymous'}]`;
+    case 'boolean':
+    case 'undefined':
+      return value;
+  }
+
+  if (value === null) {
+    return null;
+  }
+
+  const object = value as object;
+  if (seen.has(object)) {
+    return '[Circular]';
+  }
+  if (depth >= (options.maxDepth ?? DEFAULT_MAX_DEPTH)) {
+    return '[MaxDepth]';
+  }
+
+  seen.add(object);
+  try {
+    return displayObject(object, depth + 1, seen, options);
+  } finally {
+    seen.delete(object);
+  }
+}
+
+/**
+ * Convert an object to plain JSON for display
+ *
+ * @private
+ */
+function displayObject(object: object, depth: number, seen: WeakSet<object>, options: SerializationOptions): unknown {
+  const child = (value: unknown, key: string): unknown => display(value, key, depth, seen, options);
+
+  if (Array.isArray(object)) {
+    return object.map((item, index) => child(item, String(index)));
+  }
+  if (object instanceof Date) {
+    return isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString();
+  }
+  if (object instanceof Error) {
+    const { name: _name, message: _message, stack: _stack, cause: _cause, ...props } = object as Error & Record<string, unknown>;
+    const cause = (object as { cause?: unknown }).cause;
+    return {
+      name: object.name,
+      message: truncate(String(object.message), options.maxStringLength),
+      ...(object.stack !== undefined && { stack: truncate(object.stack, options.maxStringLength) }),
+      ...(cause !== undefined && { cause: child(cause, 'cause') }),
+      ...encodeEntries(props, child)
+    };
+  }
+  if (object instanceof Map) {
+    return encodeEntries(Object.fromEntries([...object].map(([key, value]) => [String(key), value])), child);
+  }
+  if (object instanceof Set) {
+    return [...object].map((value, index) => child(value, String(index)));
+  }
+  if (object instanceof RegExp) {
+    return String(object);
+  }
+  if (object instanceof ArrayBuffer) {
+    return Array.from(new Uint8Array(object));
+  }
+  if (ArrayBuffer.isView(object) && !(object instanceof DataView)) {
+    return Array.from(object as unknown as ArrayLike<number | bigint>, value => child(value, ''));
+  }
+
+  const toJSON = (object as { toJSON?: () => unknown }).toJSON;
+  if (typeof toJSON === 'function') {
+    return child(toJSON.call(object), '');
+  }
+
+  return encodeEntries(object as Record<string, unknown>, child);
+}
+
+/**
+ * Encode own enumerable properties, dropping undefined values like JSON
+ *
+ * @private
+ */
+function encodeEntries(
+  object: Record<string, unknown>,
+  child: (_value: unknown, _key: string) => unknown
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(object)) {
+    if (value !== undefined) {
+      result[key] = child(value, key);
+    }
+  }
+  return result;
+}
+
+/**
+ * Decode the properties of an untagged object
+ *
+ * @private
+ */
+function decodeEntries(record: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    result[key] = decodeValue(value);
+  }
+  return result;
+}
+
+/**
+ * Restore a tagged value; unknown tags are decoded as plain objects
+ *
+ * @private
+ */
+function decodeTagged(tagged: Record<string, unknown>): unknown {
+  switch (tagged.$type) {
+    case 'Undefined':
+      return undefined;
+    case 'Number':
+      return Number(tagged.value);
+    case 'BigInt':
+      return BigInt(String(tagged.value));
+    case 'Symbol':
+      return Symbol(String(tagged.value));
+    case 'Date':
+      return new Date(typeof tagged.value === 'string' ? tagged.value : NaN);
+    case 'RegExp':
+      return new RegExp(String(tagged.source), String(tagged.flags));
+    case 'Map':
+      return new Map((tagged.entries as unknown[][]).map(([key, value]) => [decodeValue(key), decodeValue(value)]));
+    case 'Set':
+      return new Set((tagged.values as unknown[]).map(decodeValue));
+    case 'Error':
+      return decodeError(tagged);
+    case 'TypedArray':
+      return decodeTypedArray(tagged);
+    case 'Object':
+      return decodeEntries(tagged.value as Record<string, unknown>);
+    default:
+      return decodeEntries(tagged);
+  }
+}
+
+/**
+ * Restore an encoded Error, using the built-in constructor matching its name
+ *
+ * @private
+ */
+function decodeError(tagged: Record<string, unknown>): Error {
+  const name = String(tagged.name ?? 'Error');
+  const ErrorType = ERROR_TYPES[name] ?? Error;
+  const error = new ErrorType(String(tagged.message ?? ''));
+
+  error.name = name;
+  if (typeof tagged.stack === 'string') {
+    error.stack = tagged.stack;
+  } else {
+    delete error.stack;
+  }
+  if ('cause' in tagged) {
+    (error as { cause?: unknown }).cause = decodeValue(tagged.cause);
+  }
+  if (tagged.props && typeof tagged.props === 'object') {
+    Object.assign(error, decodeEntries(tagged.props as Record<string, unknown>));
+  }
+  return error;
+}
+
+/**
+ * Restore an encoded typed array or ArrayBuffer
+ *
+ * @private
+ */
+function decodeTypedArray(tagged: Record<string, unknown>): unknown {
+  const values = tagged.values as Array<number | string>;
+  if (tagged.kind === 'ArrayBuffer') {
+    return new Uint8Array(values as number[]).buffer;
+  }
+
+  const kind = String(tagged.kind);
+  const TypedArray = TYPED_ARRAYS[kind];
+  if (!TypedArray) {
+    return values;
+  }
+  const restored = kind.startsWith('Big') ? values.map(value => BigInt(value)) : values;
+  return new TypedArray(restored as unknown as ArrayLike<number> & ArrayLike<bigint>);
+}
+
+/**
+ * Truncate a string to the configured length
+ *
+ * @private
+ */
+function truncate(value: string, maxLength?: number): string {
+  if (maxLength === undefined || value.length <= maxLength) {
+    return value;
+  }
+  return `${value.slice(0, maxLength)}...[truncated ${value.length - maxLength} chars]`;
+}
\ No newline at end of file
@@ -0,0 +1,367 @@
+/**
+ * Distributed Tracing Support
+ *
+ * Lightweight spans and W3C Trace Context propagation so that logs written in
+ * the browser can be joined with backend traces. While a span is active every
+ * log event carries its `traceId` and `spanId`; `traceparent`/`tracestate`
+ * strings can be parsed from incoming requests or generated for outgoing ones.
+ *
+ * @see https://www.w3.org/TR/trace-context/
+ *
+ * @example
+ * ```typescript
+ * const span = logger.startSpan('checkout');
+ * logger.info('Validating cart');           // has span.traceId / span.spanId
+ *
+ * const child = span.startChild('payment');
+ * await fetch('/api/pay', { headers: { traceparent: child.toTraceparent() } });
+ * child.end();
+ *
+ * span.end({ items: 3 });                   // records a 'checkout' duration metric
+ *
+ * parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+ * // { traceId: '4bf9...4736', spanId: '00f0...02b7', sampled: true }
+ * ```
+ */
+
+import type { SpanHandle, SpanOptions, TraceContext } from './types.js';
+import { normalizeError } from './error-normalizer.js';
+import { isPromiseLike } from './instrumentation.js';
+
+type SpanFields = Record<string, number | string | boolean>;
+
+/** Only version supported for generation; higher versions are parsed leniently */
+const TRACEPARENT_VERSION = '00';
+
+/** Flag bit indicating the caller may have recorded the trace */
+const SAMPLED_FLAG = 0x01;
+
+/** Maximum number of list-members allowed in a tracestate header */
+const MAX_TRACESTATE_MEMBERS = 32;
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const TRACESTATE_KEY_PATTERN = /^([a-z0-9][_0-9a-z\-*/]{0,255}|[a-z0-9][_0-9a-z\-*/]{0,240}@[a-z][_0-9a-z\-*/]{0,13})$/;
+const TRACESTATE_VALUE_PATTERN = /^[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+
+/**
+ * Parse a W3C `traceparent` header
+ *
+ * @param header - Header value, e.g. `00-<trace-id>-<parent-id>-<flags>`
+ * @returns Parsed trace context, or null if the header is invalid
+ */
+export function parseTraceparent(header: string): TraceContext | null {
+  if (typeof header !== 'string') {
+    return null;
+  }
+
+  const match = TRACEPARENT_PATTERN.exec(header.trim().toLowerCase());
+  if (!match) {
+    return null;
+  }
+
+  const [, version, traceId, spanId, flags, extra] = match;
+
+  // Version ff is forbidden; version 00 must not carry extra fields
+  if (version === 'ff' || (version === TRACEPARENT_VERSION && extra)) {
+    return null;
+  }
+
+  if (isAllZeros(traceId) || isAllZeros(spanId)) {
+    return null;
+  }
+
+  return {
+    traceId,
+    spanId,
+    sampled: (parseInt(flags, 16) & SAMPLED_FLAG) === SAMPLED_FLAG
+  };
+}
+
+/**
+ * Format a trace context as a W3C `traceparent` header
+ *
+ * @param context - Trace context to format
+ * @returns Header value
+ */
+export function formatTraceparent(context: TraceContext): string {
+  const flags = context.sampled ? '01' : '00';
+  return `${TRACEPARENT_VERSION}-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Parse a W3C `tracestate` header into ordered key/value entries
+ *
+ * Invalid list-members are skipped; duplicate keys keep the first occurrence.
+ *
+ * @param header - Header value, e.g. `vendor1=value1,vendor2=value2`
+ * @returns Ordered entries (most recently updated vendor first)
+ */
+export function parseTracestate(header: string): Array<[string, string]> {
+  if (typeof header !== 'string' || header.trim() === '') {
+    return [];
+  }
+
+  const entries: Array<[string, string]> = [];
+  const seen = new Set<string>();
+
+  for (const member of header.split(',')) {
+    const trimmed = member.trim();
+    if (!trimmed) continue;
+
+    const separator = trimmed.indexOf('=');
+    if (separator <= 0) continue;
+
+    const key = trimmed.slice(0, separator);
+    const value = trimmed.slice(separator + 1);
+    if (!TRACESTATE_KEY_PATTERN.test(key) || !TRACESTATE_VALUE_PATTERN.test(value) || seen.has(key)) {
+      continue;
+    }
+
+    seen.add(key);
+    entries.push([key, value]);
+    if (entries.length >= MAX_TRACESTATE_MEMBERS) break;
+  }
+
+  return entries;
+}
+
+/**
+ * Format key/value entries as a W3C `tracestate` header
+ *
+ * @param entries - Ordered entries or a record of vendor values
+ * @returns Header value (invalid entries are dropped)
+ */
+export function formatTracestate(entries: Array<[string, string]> | Record<string, string>): string {
+  const list = Array.isArray(entries) ? entries : Object.entries(entries);
+  return list
+    .filter(([key, value]) => TRACESTATE_KEY_PATTERN.test(key) && TRACESTATE_VALUE_PATTERN.test(value))
+    .slice(0, MAX_TRACESTATE_MEMBERS)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(',');
+}
+
+/**
+ * Generate a random 16-byte trace ID as 32 lowercase hex characters
+ */
+export function generateTraceId(): string {
+  return randomHex(16);
+}
+
+/**
+ * Generate a random 8-byte span ID as 16 lowercase hex characters
+ */
+export function generateSpanId(): string {
+  return randomHex(8);
+}
+
+/**
+ * Callbacks through which a span reports to the logger that created it
+ */
+export interface SpanOwner {
+  /** Start and activate a span with the given options */
+  startSpan(_name: string, _options: SpanOptions): SpanHandle;
+
+  /** Called once when the span ends, with its final metric fields */
+  endSpan(_fields: SpanFields): void;
+}
+
+/**
+ * A timed unit of work within a trace
+ */
+export class Span implements SpanHandle {
+  public readonly name: string;
+  public readonly traceId: string;
+  public readonly spanId: string;
+  public readonly parentSpanId?: string;
+  public readonly sampled: boolean;
+  public readonly traceState?: string;
+  private readonly owner: SpanOwner;
+  private readonly attributes: SpanFields;
+  private readonly startTime: number = performance.now();
+  private duration?: number;
+
+  /**
+   * Creates a new span
+   *
+   * Prefer `logger.startSpan()`, which also activates the span.
+   *
+   * @param name - Span name (also used as the duration metric name)
+   * @param owner - Logger callbacks for child creation and completion
+   * @param options - Parent and initial attributes
+   */
+  constructor(name: string, owner: SpanOwner, options: SpanOptions = {}) {
+    const parent = resolveParent(options.parent);
+
+    this.name = name;
+    this.owner = owner;
+    this.traceId = parent?.traceId ?? generateTraceId();
+    this.spanId = generateSpanId();
+    this.parentSpanId = parent?.spanId;
+    this.sampled = parent?.sampled ?? true;
+    this.traceState = options.traceState ?? parent?.traceState;
+    this.attributes = { ...options.attributes };
+  }
+
+  /**
+   * Whether end() has already been called
+   */
+  get ended(): boolean {
+    return this.duration !== undefined;
+  }
+
+  /**
+   * Start a child span of this span
+   *
+   * @param name - Child span name
+   * @param options - Child span options (parent is always this span)
+   * @returns The new, active child span
+   */
+  startChild(name: string, options: Omit<SpanOptions, 'parent'> = {}): SpanHandle {
+    return this.owner.startSpan(name, { ...options, parent: this });
+  }
+
+  /**
+   * Set an attribute recorded with the span's duration metric
+   *
+   * @param key - Attribute name
+   * @param value - Attribute value
+   * @returns This span for chaining
+   */
+  setAttribute(key: string, value: number | string | boolean): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  /**
+   * End the span, deactivate it and record its duration metric
+   *
+   * Calling end() more than once returns the original duration.
+   *
+   * @param fields - Additional metric fields
+   * @returns Duration in milliseconds
+   */
+  end(fields: SpanFields = {}): number {
+    if (this.duration !== undefined) {
+      return this.duration;
+    }
+
+    this.duration = performance.now() - this.startTime;
+    this.owner.endSpan({
+      ...this.attributes,
+      ...fields,
+      ...(this.parentSpanId ? { parentSpanId: this.parentSpanId } : {}),
+      duration: this.duration
+    });
+    return this.duration;
+  }
+
+  /**
+   * Trace context of this span
+   */
+  toTraceContext(): TraceContext {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      sampled: this.sampled,
+      ...(this.traceState ? { traceState: this.traceState } : {})
+    };
+  }
+
+  /**
+   * W3C `traceparent` header identifying this span as the parent
+   */
+  toTraceparent(): string {
+    return formatTraceparent(this.toTraceContext());
+  }
+}
+
+/**
+ * Run a function for a span, ending the span when the function completes
+ *
+ * The span ends when the function returns, throws, or - for promises -
+ * settles. Its metric includes `success` and, on failure, the error name;
+ * errors are re-thrown unchanged.
+ *
+ * @param span - Span to end
+ * @param fn - Function to run, receiving the span
+ * @returns Result of the function
+ */
+export function runInSpan<T>(span: SpanHandle, fn: (_span: SpanHandle) => T): T {
+  const fail = (error: unknown): void => {
+    span.end({ success: false, error: normalizeError(error).name });
+  };
+
+  let result: T;
+  try {
+    result = fn(span);
+  } catch (error) {
+    fail(error);
+    throw error;
+  }
+
+  if (isPromiseLike(result)) {
+    return result.then(
+      value => {
+        span.end({ success: true });
+        return value;
+      },
+      error => {
+        fail(error);
+        throw error;
+      }
+    ) as T;
+  }
+
+  span.end({ success: true });
+  return result;
+}
+
+/**
+ * Resolve a span parent given as a span, trace context or traceparent string
+ *
+ * @private
+ */
+function resolveParent(parent: SpanOptions['parent']): TraceContext | null {
+  if (!parent) {
+    return null;
+  }
+  if (typeof parent === 'string') {
+    return parseTraceparent(parent);
+  }
+  return {
+    traceId: parent.traceId,
+    spanId: parent.spanId,
+    sampled: parent.sampled,
+    traceState: parent.traceState
+  };
+}
+
+/**
+ * Generate non-zero random bytes as lowercase hex
+ *
+ * @private
+ */
+function randomHex(byteLength: number): string {
+  const bytes = new Uint8Array(byteLength);
+
+  do {
+    if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+      crypto.getRandomValues(bytes);
+    } else {
+      for (let i = 0; i < byteLength; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+  } while (bytes.every(byte => byte === 0));
+
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Check whether a hex string is all zeros (an invalid ID)
+ *
+ * @private
+ */
+function isAllZeros(hex: string): boolean {
+  return /^0+$/.test(hex);
+}
\ No newline at end of file
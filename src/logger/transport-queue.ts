@@ -0,0 +1,306 @@
+/**
+ * Transport Write Queue
+ *
+ * Buffers events for one transport and writes them off the caller's stack,
+ * one at a time: an async write must settle before the next event is written,
+ * so a slow transport accumulates buffered events rather than an unbounded
+ * number of in-flight promises. The buffer is bounded; when it is full the
+ * overflow policy decides what is discarded. With `block`, the logging call
+ * writes buffered events itself, still one at a time, and only discards the
+ * incoming event while an async write is in flight. Discarded events are
+ * counted and reported once the queue drains, or on `flush()`. A flush waits
+ * at most `flushTimeoutMs`; events still buffered or being written then are
+ * counted as dropped, and the result of the abandoned write is ignored.
+ *
+ * @example
+ * ```typescript
+ * import { TransportQueue } from './transport-queue';
+ *
+ * const queue = new TransportQueue(
+ *   beaconTransport,
+ *   { maxSize: 500, overflow: 'drop-below', dropBelow: 'warn' },
+ *   report => console.warn(`${report.transport} dropped ${report.dropped} events`),
+ *   error => console.error(error)
+ * );
+ *
+ * queue.enqueue(eventData); // returns immediately
+ * await queue.flush();      // resolves once every event has been written
+ * ```
+ */
+
+import type { DroppedEventsReport, LogEventData, LogLevel, OverflowPolicy, QueueConfig, Transport } from './types.js';
+import { suppressErrorCapture } from './global-error-capture.js';
+import { isLogLevel } from './level-registry.js';
+import { shouldLog } from './logger-config.js';
+
+/**
+ * Callback invoked with the events a queue discarded
+ */
+export type DroppedEventsHandler = (_report: DroppedEventsReport) => void;
+
+/**
+ * Bounded, sequential write queue for a single transport
+ */
+export class TransportQueue {
+  private readonly transport: Transport;
+  private readonly maxSize: number;
+  private readonly policy: OverflowPolicy;
+  private readonly dropBelow: LogLevel;
+  private readonly flushTimeoutMs: number;
+  private readonly onDropped: DroppedEventsHandler;
+  private readonly onError: (_error: Error, _epoch: number) => void;
+  private readonly onSuccess: (_epoch: number) => void;
+  private readonly writeEpoch: () => number;
+  private readonly pending = new Set<Promise<void>>();
+  private buffer: LogEventData[] = [];
+  private idleWaiters: Array<() => void> = [];
+  private scheduled = false;
+  private dropped = 0;
+
+  /**
+   * @param transport - Transport the queue writes to
+   * @param config - Buffer size and overflow policy
+   * @param onDropped - Receives a report of discarded events once the queue drains
+   * @param onError - Receives errors thrown or rejected by the transport, with the write's epoch
+   * @param onSuccess - Called after every successful write, with the write's epoch
+   * @param writeEpoch - Read when each write is sent, e.g. the transport's circuit breaker epoch
+   */
+  constructor(
+    transport: Transport,
+    config: QueueConfig,
+    onDropped: DroppedEventsHandler,
+    onError: (_error: Error, _epoch: number) => void,
+    onSuccess: (_epoch: number) => void = () => {},
+    writeEpoch: () => number = () => 0
+  ) {
+    this.transport = transport;
+    this.maxSize = config.maxSize ?? 1000;
+    this.policy = config.overflow ?? 'drop-oldest';
+    this.dropBelow = config.dropBelow ?? 'warn';
+    this.flushTimeoutMs = config.flushTimeoutMs ?? 5000;
+    this.onDropped = onDropped;
+    this.onError = onError;
+    this.onSuccess = onSuccess;
+    this.writeEpoch = writeEpoch;
+
+    if (!(this.maxSize >= 1)) {
+      throw new TypeError(`Queue size must be at least 1: ${config.maxSize}`);
+    }
+    if (!isLogLevel(this.dropBelow)) {
+      throw new TypeError(`Invalid log level: ${this.dropBelow}`);
+    }
+    if (!(this.flushTimeoutMs >= 0)) {
+      throw new TypeError(`Flush timeout must not be negative: ${config.flushTimeoutMs}`);
+    }
+  }
+
+  /**
+   * Number of buffered events
+   */
+  get size(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Number of events discarded since the last report
+   */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  /**
+   * Buffer an event, applying the overflow policy when the buffer is full
+   *
+   * @param event - Event to write
+   */
+  enqueue(event: LogEventData): void {
+    if (this.buffer.length >= this.maxSize) {
+      if (this.policy === 'block') {
+        this.block(event);
+        return;
+      }
+      if (!this.makeRoom(event)) {
+        this.dropped++;
+        return;
+      }
+    }
+
+    this.buffer.push(event);
+    this.schedule();
+  }
+
+  /**
+   * Wait until every buffered event has been written and reported drops are sent
+   *
+   * Events not written within the flush timeout are discarded and reported as dropped.
+   *
+   * @returns Promise that resolves when the queue is idle
+   */
+  flush(): Promise<void> {
+    if (this.isIdle) {
+      this.reportDropped();
+      if (this.isIdle) return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      const timer = setTimeout(() => this.abandon(), this.flushTimeoutMs);
+      this.idleWaiters.push(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Whether nothing is buffered or being written
+   *
+   * @private
+   */
+  private get isIdle(): boolean {
+    return this.buffer.length === 0 && this.pending.size === 0;
+  }
+
+  /**
+   * Discard events according to the overflow policy
+   *
+   * @private
+   * @returns True if there is room for the incoming event
+   */
+  private makeRoom(event: LogEventData): boolean {
+    if (this.policy === 'drop-newest') return false;
+
+    if (this.policy === 'drop-below') {
+      if (!shouldLog(event.level, this.dropBelow)) return false;
+
+      const kept = this.buffer.filter(buffered => shouldLog(buffered.level, this.dropBelow));
+      this.dropped += this.buffer.length - kept.length;
+      this.buffer = kept;
+      if (this.buffer.length < this.maxSize) return true;
+    }
+
+    this.buffer.shift();
+    this.dropped++;
+    return true;
+  }
+
+  /**
+   * Drain the buffer in a microtask
+   *
+   * @private
+   */
+  private schedule(): void {
+    if (this.scheduled) return;
+    this.scheduled = true;
+    queueMicrotask(() => {
+      this.scheduled = false;
+      this.drain();
+    });
+  }
+
+  /**
+   * Write buffered events until an async write is in flight
+   *
+   * @private
+   */
+  private drain(): void {
+    while (this.buffer.length > 0 && this.pending.size === 0) {
+      this.write(this.buffer.shift()!);
+    }
+    if (this.isIdle) {
+      this.settle();
+    }
+  }
+
+  /**
+   * Backpressure: write buffered events on the caller's stack, then buffer the event
+   *
+   * Writes stay sequential, so a sync transport is written out in full while an
+   * async one has at most one write in flight; if that write leaves the buffer
+   * full, the incoming event is discarded rather than growing the buffer.
+   *
+   * @private
+   */
+  private block(event: LogEventData): void {
+    this.drain();
+    if (this.buffer.length >= this.maxSize) {
+      this.dropped++;
+      return;
+    }
+    this.buffer.push(event);
+    this.drain();
+  }
+
+  /**
+   * Write one event, tracking the write if it is async
+   *
+   * @private
+   */
+  private write(event: LogEventData): void {
+    const epoch = this.writeEpoch();
+    try {
+      const result = suppressErrorCapture(() => this.transport.write(event));
+      if (result && typeof result.then === 'function') {
+        // An abandoned write is no longer pending; its result is ignored
+        const promise: Promise<void> = Promise.resolve(result)
+          .then(
+            () => { if (this.pending.has(promise)) this.onSuccess(epoch); },
+            (error: Error) => { if (this.pending.has(promise)) this.onError(error, epoch); }
+          )
+          .finally(() => {
+            if (this.pending.delete(promise)) this.drain();
+          });
+        this.pending.add(promise);
+      } else {
+        this.onSuccess(epoch);
+      }
+    } catch (error) {
+      this.onError(error as Error, epoch);
+    }
+  }
+
+  /**
+   * Give up on a flush: report buffered and in-flight events as dropped and release waiters
+   *
+   * @private
+   */
+  private abandon(): void {
+    const abandoned = this.buffer.length + this.pending.size;
+    this.buffer = [];
+    this.pending.clear();
+    this.reportDropped();
+    if (abandoned > 0) {
+      this.onDropped({ transport: this.transport.name, dropped: abandoned, policy: this.policy, timedOut: true });
+    }
+
+    // Reports may queue new events; waiters are released regardless
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  /**
+   * Report drops, then release flush() callers if nothing new was queued
+   *
+   * @private
+   */
+  private settle(): void {
+    this.reportDropped();
+    if (!this.isIdle) return;
+
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  /**
+   * Report and reset the dropped-events counter
+   *
+   * @private
+   */
+  private reportDropped(): void {
+    if (this.dropped === 0) return;
+
+    const dropped = this.dropped;
+    this.dropped = 0;
+    this.onDropped({ transport: this.transport.name, dropped, policy: this.policy });
+  }
+}
\ No newline at end of file
@@ -3,6 +3,11 @@
  * 
  * Handles transport lifecycle, error isolation, and parallel operations.
  * Provides a clean separation between logging logic and transport management.
+ * With a queue configuration, each transport gets a bounded queue and events
+ * are written off the caller's stack. Routes restrict the events a transport
+ * receives by level, component or a custom predicate. Each transport has a
+ * circuit breaker that stops writing to it after repeated failures. Writes,
+ * flushes, errors and dropped events are counted per transport.
  * 
  * @example
  * ```typescript
@@ -12,8 +17,9 @@
  * const registry = new TransportRegistry();
  * registry.add(new ConsoleTransport());
  * registry.add(new EventBusTransport(eventBus));
+ * registry.add(beaconTransport, { minLevel: 'error', excludeComponents: ['payments'] });
  * 
- * // Write to all transports
+ * // Write to all transports whose routes accept the event
  * registry.writeToAll(logEventData);
  * 
  * // Lifecycle management
@@ -22,28 +28,80 @@
  * ```
  */
 
-import type { Transport, LogEventData } from './types.js';
+import type {
+  CircuitBreakerConfig,
+  CircuitState,
+  Transport,
+  TransportHealth,
+  TransportStats,
+  LogEventData,
+  LogLevel,
+  QueueConfig,
+  TransportRoute
+} from './types.js';
+import { TransportErrorEvent, TransportEvent, type LoggerConfigChangedEvent } from './events.js';
+import { suppressErrorCapture } from './global-error-capture.js';
+import { TransportQueue, type DroppedEventsHandler } from './transport-queue.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { isLogLevel } from './level-registry.js';
+import { shouldLog } from './logger-config.js';
+import { matchNamespace } from './namespace-levels.js';
+
+/**
+ * Transport registry options
+ */
+export interface TransportRegistryOptions {
+  /** Queue events per transport instead of writing them synchronously */
+  queue?: QueueConfig;
+  
+  /** Receives reports of events discarded by full queues */
+  onDropped?: DroppedEventsHandler;
+  
+  /** Circuit breaker settings; false only tracks health (default: true) */
+  circuitBreaker?: boolean | CircuitBreakerConfig;
+}
+
+/**
+ * Running counters of one transport
+ */
+type TransportCounters = Pick<TransportStats, 'writes' | 'flushes' | 'errors' | 'dropped'>;
 
 /**
  * Registry for managing transport instances with error isolation and lifecycle management
  */
 export class TransportRegistry {
   private transports: Transport[] = [];
+  private readonly queues = new Map<string, TransportQueue>();
+  private readonly routes = new Map<string, TransportRoute>();
+  private readonly routeCache = new Map<string, Transport[]>();
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly counters = new Map<string, TransportCounters>();
+  private readonly options: TransportRegistryOptions;
+
+  /**
+   * Creates a new transport registry
+   * 
+   * @param options - Optional queueing and circuit breaker configuration
+   */
+  constructor(options: TransportRegistryOptions = {}) {
+    this.options = options;
+  }
 
   /**
    * Add a transport to the registry
    * 
    * @param transport - Transport instance to add
-   * @throws {TypeError} If transport is invalid or duplicate name exists
+   * @param route - Optional filters restricting the events the transport receives
+   * @throws {TypeError} If transport or route is invalid or duplicate name exists
    * 
    * @example
    * ```typescript
    * const registry = new TransportRegistry();
    * registry.add(new ConsoleTransport());
-   * registry.add(new EventBusTransport(eventBus));
+   * registry.add(new EventBusTransport(eventBus), { excludeComponents: ['payments'] });
    * ```
    */
-  add(transport: Transport): void {
+  add(transport: Transport, route?: TransportRoute): void {
     if (!transport || typeof transport !== 'object') {
       throw new TypeError('Transport must be a valid object');
     }
@@ -56,8 +114,76 @@ export class TransportRegistry {
     if (this.transports.find(t => t.name === transport.name)) {
       throw new Error(`Transport with name '${transport.name}' already exists`);
     }
+    if (route) {
+      validateRoute(route);
+    }
     
+    const { circuitBreaker = true } = this.options;
+    const breaker = new CircuitBreaker(
+      circuitBreaker === true ? {} : circuitBreaker || { failureThreshold: Infinity },
+      (state, health, error) => this.announceCircuitChange(transport.name, state, health, error)
+    );
+    this.breakers.set(transport.name, breaker);
+
+    const counters: TransportCounters = { writes: 0, flushes: 0, errors: 0, dropped: 0 };
+    this.counters.set(transport.name, counters);
+
+    if (this.options.queue) {
+      this.queues.set(transport.name, new TransportQueue(
+        transport,
+        this.options.queue,
+        report => {
+          counters.dropped += report.dropped;
+          this.options.onDropped?.(report);
+        },
+        (error, epoch) => this.handleTransportError(transport.name, 'write', error, epoch),
+        epoch => this.recordWrite(transport.name, epoch),
+        () => breaker.epoch
+      ));
+    }
     this.transports.push(transport);
+    if (route) {
+      this.routes.set(transport.name, route);
+    }
+    this.routeCache.clear();
+  }
+
+  /**
+   * Replace the routing filters of a transport
+   * 
+   * @param transportName - Name of the transport
+   * @param route - New filters, or undefined to send the transport every event
+   * @throws {TypeError} If the route is invalid
+   * @throws {Error} If no transport has the name
+   * 
+   * @example
+   * ```typescript
+   * registry.setRoute('beacon', { minLevel: 'warn' }); // during an incident
+   * registry.setRoute('beacon', undefined);            // everything again
+   * ```
+   */
+  setRoute(transportName: string, route?: TransportRoute): void {
+    if (!this.getTransport(transportName)) {
+      throw new Error(`Transport '${transportName}' not found`);
+    }
+
+    if (route) {
+      validateRoute(route);
+      this.routes.set(transportName, route);
+    } else {
+      this.routes.delete(transportName);
+    }
+    this.routeCache.clear();
+  }
+
+  /**
+   * Get the routing filters of a transport
+   * 
+   * @param transportName - Name of the transport
+   * @returns The transport's route, or undefined if it receives every event
+   */
+  getRoute(transportName: string): TransportRoute | undefined {
+    return this.routes.get(transportName);
   }
 
   /**
@@ -80,16 +206,23 @@ export class TransportRegistry {
     const index = this.transports.findIndex(t => t.name === transportName);
     if (index >= 0) {
       this.transports.splice(index, 1);
+      this.queues.delete(transportName);
+      this.routes.delete(transportName);
+      this.breakers.delete(transportName);
+      this.counters.delete(transportName);
+      this.routeCache.clear();
       return true;
     }
     return false;
   }
 
   /**
-   * Write log event data to all registered transports
+   * Write log event data to all registered transports whose routes accept it
    * 
    * Errors from individual transports are isolated and logged to console
-   * to prevent one failing transport from breaking others.
+   * to prevent one failing transport from breaking others. Transports with
+   * an open circuit are skipped. In queued mode the event is only buffered;
+   * it is written in a microtask.
    * 
    * @param eventData - Log event data to write to all transports
    * 
@@ -108,14 +241,26 @@ export class TransportRegistry {
    * ```
    */
   writeToAll(eventData: LogEventData): void {
-    this.transports.forEach(transport => {
+    this.route(eventData).forEach(transport => {
+      const breaker = this.breakers.get(transport.name);
+      if (breaker && !breaker.canWrite()) return;
+
+      const queue = this.queues.get(transport.name);
+      if (queue) {
+        queue.enqueue(eventData);
+        return;
+      }
+
+      const epoch = breaker?.epoch;
       try {
         const result = transport.write(eventData);
-        // Handle async transports
-        if (result && typeof result.catch === 'function') {
-          result.catch((error: Error) => {
-            this.handleTransportError(transport.name, 'write', error);
+        // Handle async transports; results from before a circuit state change are ignored
+        if (result && typeof result.then === 'function') {
+          result.then(() => this.recordWrite(transport.name, epoch), (error: Error) => {
+            this.handleTransportError(transport.name, 'write', error, epoch);
           });
+        } else {
+          this.recordWrite(transport.name);
         }
       } catch (error) {
         this.handleTransportError(transport.name, 'write', error as Error);
@@ -123,11 +268,29 @@ export class TransportRegistry {
     });
   }
 
+  /**
+   * Notify transports implementing `onConfigChanged` of a configuration change
+   * 
+   * Errors from individual transports are isolated and logged.
+   * 
+   * @param event - Configuration change event
+   */
+  notifyConfigChanged(event: LoggerConfigChangedEvent): void {
+    this.transports.forEach(transport => {
+      try {
+        transport.onConfigChanged?.(event);
+      } catch (error) {
+        this.handleTransportError(transport.name, 'onConfigChanged', error as Error);
+      }
+    });
+  }
+
   /**
    * Flush all registered transports in parallel
    * 
    * Individual transport flush errors are isolated and logged.
    * The operation continues even if some transports fail to flush.
+   * Queued events are written before each transport is flushed.
    * 
    * @returns Promise that resolves when all transports have attempted to flush
    * 
@@ -140,7 +303,10 @@ export class TransportRegistry {
   async flushAll(): Promise<void> {
     const flushPromises = this.transports.map(async transport => {
       try {
+        await this.queues.get(transport.name)?.flush();
         await Promise.resolve(transport.flush());
+        const counters = this.counters.get(transport.name);
+        if (counters) counters.flushes++;
       } catch (error) {
         this.handleTransportError(transport.name, 'flush', error as Error);
       }
@@ -166,6 +332,7 @@ export class TransportRegistry {
   async closeAll(): Promise<void> {
     const closePromises = this.transports.map(async transport => {
       try {
+        await this.queues.get(transport.name)?.flush();
         await Promise.resolve(transport.close());
       } catch (error) {
         this.handleTransportError(transport.name, 'close', error as Error);
@@ -176,6 +343,57 @@ export class TransportRegistry {
     
     // Clear transports array after closing all
     this.transports.length = 0;
+    this.queues.clear();
+    this.routes.clear();
+    this.breakers.clear();
+    this.counters.clear();
+    this.routeCache.clear();
+  }
+
+  /**
+   * Get the health and circuit state of every registered transport
+   * 
+   * @returns Health snapshots keyed by transport name
+   * 
+   * @example
+   * ```typescript
+   * const { beacon } = registry.getHealth();
+   * if (beacon.state === 'open') {
+   *   console.warn(`Beacon down: ${beacon.lastError?.message}`);
+   * }
+   * ```
+   */
+  getHealth(): Record<string, TransportHealth> {
+    const health: Record<string, TransportHealth> = {};
+    this.breakers.forEach((breaker, name) => {
+      health[name] = breaker.health;
+    });
+    return health;
+  }
+
+  /**
+   * Get write, flush and error counts, queue depth and drops of every transport
+   * 
+   * @returns Counters keyed by transport name
+   * 
+   * @example
+   * ```typescript
+   * const { beacon } = registry.getStats();
+   * console.log(`${beacon.writes} written, ${beacon.queued} queued, ${beacon.dropped} dropped`);
+   * ```
+   */
+  getStats(): Record<string, TransportStats> {
+    const stats: Record<string, TransportStats> = {};
+    this.counters.forEach((counters, name) => {
+      const queue = this.queues.get(name);
+      stats[name] = {
+        ...counters,
+        dropped: counters.dropped + (queue?.droppedCount ?? 0),
+        skipped: this.breakers.get(name)?.health.skipped ?? 0,
+        queued: queue?.size ?? 0
+      };
+    });
+    return stats;
   }
 
   /**
@@ -254,6 +472,87 @@ export class TransportRegistry {
    */
   clear(): void {
     this.transports.length = 0;
+    this.queues.clear();
+    this.routes.clear();
+    this.breakers.clear();
+    this.counters.clear();
+    this.routeCache.clear();
+  }
+
+  /**
+   * Select the transports that receive an event
+   * 
+   * Level and component filters are resolved once per level and component
+   * and cached until transports or routes change; predicates run per event.
+   * 
+   * @private
+   */
+  private route(eventData: LogEventData): Transport[] {
+    if (this.routes.size === 0) return this.transports;
+
+    const key = `${eventData.level}\u0000${eventData.component}`;
+    let candidates = this.routeCache.get(key);
+    if (!candidates) {
+      candidates = this.transports.filter(transport => {
+        const route = this.routes.get(transport.name);
+        return !route || matchesRoute(route, eventData.level, eventData.component);
+      });
+      this.routeCache.set(key, candidates);
+    }
+
+    return candidates.filter(transport => {
+      const predicate = this.routes.get(transport.name)?.predicate;
+      if (!predicate) return true;
+      try {
+        return predicate(eventData);
+      } catch (error) {
+        this.handleTransportError(transport.name, 'route', error as Error);
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Count a successful write and report it to the transport's circuit breaker
+   * 
+   * @private
+   */
+  private recordWrite(transportName: string, epoch?: number): void {
+    this.breakers.get(transportName)?.recordSuccess(Date.now(), epoch);
+    const counters = this.counters.get(transportName);
+    if (counters) counters.writes++;
+  }
+
+  /**
+   * Tell the other transports that a transport's circuit opened or closed
+   * 
+   * @private
+   */
+  private announceCircuitChange(
+    transportName: string,
+    state: CircuitState,
+    health: TransportHealth,
+    error?: Error
+  ): void {
+    const event = error
+      ? new TransportErrorEvent(transportName, error, 'write', { ...health })
+      : new TransportEvent(transportName, 'write', { ...health });
+
+    suppressErrorCapture(() => {
+      if (state === 'open') {
+        const seconds = Math.round(((health.nextProbeAt ?? Date.now()) - Date.now()) / 1000);
+        console.warn(`Transport ${transportName} failed ${health.consecutiveFailures} times in a row; skipping it for ${seconds}s`);
+      }
+
+      this.transports.forEach(transport => {
+        if (transport.name === transportName) return;
+        try {
+          transport.onTransportEvent?.(event);
+        } catch (notifyError) {
+          console.error(`Transport ${transport.name} onTransportEvent failed:`, notifyError);
+        }
+      });
+    });
   }
 
   /**
@@ -263,9 +562,44 @@ export class TransportRegistry {
    * @param transportName - Name of the failing transport
    * @param operation - Operation that failed (write, flush, close)
    * @param error - Error that occurred
+   * @param epoch - Circuit breaker epoch a failed write was sent in
    */
-  private handleTransportError(transportName: string, operation: string, error: Error): void {
+  private handleTransportError(transportName: string, operation: string, error: Error, epoch?: number): void {
+    this.breakers.get(transportName)?.recordFailure(error, operation, Date.now(), epoch);
+    const counters = this.counters.get(transportName);
+    if (counters) counters.errors++;
+
     // Don't log transport errors to avoid infinite loops
-    console.error(`Transport ${transportName} ${operation} failed:`, error);
+    suppressErrorCapture(() => {
+      console.error(`Transport ${transportName} ${operation} failed:`, error);
+    });
+  }
+}
+
+/**
+ * Check a route's filters before it is used
+ * 
+ * @param route - Routing filters
+ * @throws {TypeError} If the minimum level or predicate is invalid
+ */
+export function validateRoute(route: TransportRoute): void {
+  if (route.minLevel !== undefined && !isLogLevel(route.minLevel)) {
+    throw new TypeError(`Invalid log level: ${route.minLevel}`);
+  }
+  if (route.predicate !== undefined && typeof route.predicate !== 'function') {
+    throw new TypeError('Route predicate must be a function');
   }
+}
+
+/**
+ * Check an event's level and component against a route's static filters
+ * 
+ * @private
+ */
+function matchesRoute(route: TransportRoute, level: LogLevel, component: string): boolean {
+  const matches = (pattern: string) => matchNamespace(pattern, component) >= 0;
+
+  if (route.minLevel && !shouldLog(level, route.minLevel)) return false;
+  if (route.components && !route.components.some(matches)) return false;
+  return !route.excludeComponents?.some(matches);
 }
\ No newline at end of file
@@ -40,10 +40,69 @@
  * ```
  */
 
+import type { LoggerConfigChangedEvent, TransportErrorEvent, TransportEvent } from './events.js';
+import type { RedactionStats } from './redaction.js';
+
+/**
+ * Log levels built into every logger
+ */
+export type BuiltInLogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Names of custom levels known to the type system
+ * 
+ * Augment this interface to accept levels added with `registerLevel()`
+ * wherever a `LogLevel` is expected:
+ * 
+ * ```typescript
+ * declare module 'lever-ui-logger' {
+ *   interface CustomLogLevels { fatal: true }
+ * }
+ * ```
+ */
+export interface CustomLogLevels {}
+
+/**
+ * Log level name: a built-in level or a custom level declared in `CustomLogLevels`
+ * 
+ * Unknown names are rejected at runtime with a TypeError.
+ */
+export type LogLevel = BuiltInLogLevel | Extract<keyof CustomLogLevels, string>;
+
+/**
+ * Log message: a string, or a function evaluated only if the log is written
+ */
+export type LogMessage = string | (() => string);
+
+/**
+ * Definition of a log level in the level registry
+ */
+export interface LevelDefinition<N extends string = string> {
+  /** Level name, also used as the logger method name (lowercase identifier) */
+  name: N;
+  
+  /** Priority relative to the built-in levels (trace 0, debug 1, info 2, warn 3, error 4) */
+  priority: number;
+  
+  /** Built-in level this level is treated as by transports that only know those (default: closest by priority) */
+  severity?: BuiltInLogLevel;
+  
+  /** Console method used by ConsoleTransport (default: the severity's method) */
+  consoleMethod?: 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'log';
+  
+  /** ANSI color code for terminal output (default: the severity's color) */
+  color?: string;
+  
+  /** CSS style for browser console output (default: the severity's style) */
+  browserStyle?: string;
+}
+
 /**
- * Log levels supported by the logger
+ * Logger methods generated for custom levels
  */
-export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+export type LevelMethods<L extends string> = {
+  [K in L]: (message: LogMessage, ...args: readonly unknown[]) => void;
+};
 
 /**
  * Logger configuration options
@@ -75,6 +134,459 @@ export interface LoggerConfig {
   
   /** Enable/disable console.error interception */
   captureConsoleErrors?: boolean;
+  
+  /** Levels by namespace pattern, e.g. 'app:auth:*=debug,*=warn' or { 'app:auth:*': 'debug' } */
+  levels?: string | Record<string, LogLevel>;
+  
+  /** Context storage strategy for scoped context and spans (default: 'auto') */
+  contextStorage?: ContextStorageMode | ContextStorage;
+  
+  /** Read level overrides from the URL, localStorage or environment (default: false) */
+  levelOverrides?: boolean | LevelOverrideOptions;
+  
+  /** Custom levels to register before the logger is created */
+  customLevels?: readonly LevelDefinition[];
+  
+  /** Suppress identical events within a window and emit "repeated N times" summaries (default: false) */
+  dedupe?: boolean | DedupeConfig;
+  
+  /** Buffer recent events at every level and write them when an error is logged (default: false) */
+  flightRecorder?: boolean | FlightRecorderConfig;
+  
+  /** Sample by a stable key so all of an entity's events are kept or dropped together (default: false) */
+  keySampling?: boolean | KeySamplingConfig;
+  
+  /** Lower sampling rates automatically to hold a target throughput per level (default: false) */
+  adaptiveSampling?: boolean | AdaptiveSamplingConfig;
+  
+  /** Write to transports through bounded per-transport queues instead of on the caller's stack (default: false) */
+  queue?: boolean | QueueConfig;
+  
+  /** Routing rules by transport name; transports without a rule receive every event */
+  routes?: Record<string, TransportRoute>;
+  
+  /** Stop writing to a transport after repeated write failures, probing until it recovers (default: true) */
+  circuitBreaker?: boolean | CircuitBreakerConfig;
+  
+  /** Aggregation settings for counters, gauges and histograms */
+  metrics?: MetricsConfig;
+}
+
+/**
+ * Settings that logger.configure() can change after the logger is created
+ */
+export type RuntimeConfig = Pick<
+  LoggerConfig,
+  | 'level'
+  | 'levels'
+  | 'defaultContext'
+  | 'sampling'
+  | 'keySampling'
+  | 'redaction'
+  | 'captureUnhandledErrors'
+  | 'captureUnhandledRejections'
+  | 'captureConsoleErrors'
+  | 'routes'
+>;
+
+/**
+ * Metrics aggregation settings
+ */
+export interface MetricsConfig {
+  /** Interval in ms at which aggregated series are written (default: 10000) */
+  flushIntervalMs?: number;
+  
+  /** Default histogram bucket upper bounds, ascending (default: DEFAULT_BUCKETS) */
+  buckets?: number[];
+  
+  /** Maximum number of series; handles for further series are no-ops (default: 1000) */
+  maxSeries?: number;
+}
+
+/**
+ * Kind of aggregated metric
+ */
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Dimensions of a metric series; each distinct combination is its own series
+ */
+export type MetricTags = Record<string, string | number | boolean>;
+
+/**
+ * Monotonic counter handle returned by logger.counter()
+ */
+export interface Counter {
+  /** Add a non-negative amount (default: 1) */
+  inc(value?: number): void;
+}
+
+/**
+ * Gauge handle returned by logger.gauge()
+ */
+export interface Gauge {
+  /** Set the current value */
+  set(value: number): void;
+  
+  /** Add to the current value (default: 1) */
+  inc(value?: number): void;
+  
+  /** Subtract from the current value (default: 1) */
+  dec(value?: number): void;
+}
+
+/**
+ * Histogram handle returned by logger.histogram()
+ */
+export interface Histogram {
+  /** Record an observation */
+  observe(value: number): void;
+}
+
+/**
+ * Cumulative state of a metric series since it was created, see logger.collectMetrics()
+ */
+export interface MetricSeries {
+  /** Metric name */
+  name: string;
+  
+  /** Kind of metric */
+  type: MetricType;
+  
+  /** Dimensions of the series */
+  tags: Record<string, string>;
+  
+  /** Counter total or current gauge value; the sum of observations for histograms */
+  value: number;
+  
+  /** Number of updates */
+  count: number;
+  
+  /** Sum of all updates */
+  sum: number;
+  
+  /** Cumulative histogram bucket counts */
+  buckets?: MetricBucket[];
+}
+
+/**
+ * Cumulative count of observations at or below a bucket's upper bound
+ */
+export interface MetricBucket {
+  /** Upper bound of the bucket */
+  le: number;
+  
+  /** Observations less than or equal to the bound */
+  count: number;
+}
+
+/**
+ * Circuit breaker settings for failing transports
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive write failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  
+  /** Time in ms an open circuit waits before letting a probe write through (default: 30000) */
+  probeIntervalMs?: number;
+  
+  /** Time in ms after which an unsettled probe write counts as failed (default: 10000) */
+  probeTimeoutMs?: number;
+}
+
+/**
+ * Circuit state of a transport
+ * 
+ * - `closed`: events are written
+ * - `open`: events are skipped after repeated failures
+ * - `half-open`: a single probe write is in progress
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health of a transport
+ */
+export interface TransportHealth {
+  /** Circuit state */
+  state: CircuitState;
+  
+  /** Write failures since the last successful write */
+  consecutiveFailures: number;
+  
+  /** Failures of any operation since the transport was added */
+  totalFailures: number;
+  
+  /** Events not written because the circuit was open */
+  skipped: number;
+  
+  /** Most recent failure of any operation */
+  lastError?: {
+    name: string;
+    message: string;
+    operation: string;
+    timestamp: number;
+  };
+  
+  /** Timestamp of the last successful write */
+  lastSuccessAt?: number;
+  
+  /** While open, when the next probe write is let through */
+  nextProbeAt?: number;
+}
+
+/**
+ * Counters of one transport, see `Logger.getStats()`
+ */
+export interface TransportStats {
+  /** Successful writes */
+  writes: number;
+  
+  /** Successful flushes */
+  flushes: number;
+  
+  /** Failed writes, flushes and closes */
+  errors: number;
+  
+  /** Events not written because the circuit was open */
+  skipped: number;
+  
+  /** Events waiting in the transport's queue */
+  queued: number;
+  
+  /** Events discarded by the transport's full queue */
+  dropped: number;
+}
+
+/**
+ * Filters deciding which events a transport receives
+ * 
+ * Component lists take plain namespaces, which cover their descendants, and
+ * `*` wildcard patterns, as level rules do.
+ */
+export interface TransportRoute {
+  /** Only events at or above this level */
+  minLevel?: LogLevel;
+  
+  /** Only events from these components */
+  components?: string[];
+  
+  /** No events from these components */
+  excludeComponents?: string[];
+  
+  /** Custom filter, evaluated after the other filters */
+  predicate?: (event: LogEventData) => boolean;
+}
+
+/**
+ * What a transport queue does with an event when it is full
+ * 
+ * - `drop-oldest`: discard the oldest buffered event
+ * - `drop-newest`: discard the incoming event
+ * - `block`: the logging call writes out the buffer itself, one write at a time; with an async
+ *   transport, the incoming event is discarded while a write is in flight and the buffer is full
+ * - `drop-below`: discard buffered and incoming events below `dropBelow`, then the oldest
+ */
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'block' | 'drop-below';
+
+/**
+ * Transport queue settings
+ */
+export interface QueueConfig {
+  /** Maximum events buffered per transport (default: 1000) */
+  maxSize?: number;
+  
+  /** Policy applied when a transport's buffer is full (default: 'drop-oldest') */
+  overflow?: OverflowPolicy;
+  
+  /** Level below which events are discarded by the 'drop-below' policy (default: 'warn') */
+  dropBelow?: LogLevel;
+  
+  /** Time in ms a flush waits for queued events before counting the rest as dropped (default: 5000) */
+  flushTimeoutMs?: number;
+}
+
+/**
+ * Events a transport queue discarded since its last report
+ */
+export interface DroppedEventsReport {
+  /** Name of the transport the events were queued for */
+  transport: string;
+  
+  /** Number of events discarded */
+  dropped: number;
+  
+  /** Overflow policy of the queue */
+  policy: OverflowPolicy;
+  
+  /** Set when the events were discarded because a flush timed out rather than by the policy */
+  timedOut?: true;
+}
+
+/**
+ * Adaptive sampling settings
+ */
+export interface AdaptiveSamplingConfig {
+  /** Target events per minute for each level, or per level; unlisted levels are not adapted (default: 600) */
+  targetPerMinute?: number | Partial<Record<LogLevel, number>>;
+  
+  /** Sliding window in ms over which throughput is measured (default: 10000) */
+  windowMs?: number;
+  
+  /** Lowest adaptive rate per level, merged with the default error floor (default: { error: 0.1 }) */
+  floors?: Partial<Record<LogLevel, number>>;
+}
+
+/**
+ * Adaptive sampling state for one level
+ */
+export interface LevelSamplingStats {
+  /** Current adaptive rate, applied on top of the configured sampling rates */
+  rate: number;
+  
+  /** Events at this level that passed the level check */
+  seen: number;
+  
+  /** Events at this level kept by sampling */
+  kept: number;
+}
+
+/**
+ * Adaptive sampling state by level, for levels that have been logged
+ */
+export type SamplingStats = Partial<Record<LogLevel, LevelSamplingStats>>;
+
+/**
+ * Stable key that sampling decisions are made on
+ * 
+ * - `session`: `sessionId` in the logger context
+ * - `user`: `userId` in the logger context
+ * - `trace`: trace ID of the active span, or `traceId` in the logger context
+ * - a function returning the key for an event, or undefined to sample it randomly
+ */
+export type SamplingKey = 'session' | 'user' | 'trace' | ((subject: SamplingSubject) => string | undefined);
+
+/**
+ * Event fields available to sampling key functions
+ */
+export interface SamplingSubject {
+  /** Log level */
+  level: LogLevel;
+  
+  /** Component of the logger */
+  component: string;
+  
+  /** Logger context (before redaction when sampled by the logger) */
+  context: Record<string, unknown>;
+  
+  /** Trace ID of the active span */
+  traceId?: string;
+}
+
+/**
+ * Key-based sampling settings
+ */
+export interface KeySamplingConfig {
+  /** Key events are sampled by; events without one are sampled randomly (default: 'session') */
+  key?: SamplingKey;
+  
+  /** Rates by component namespace or `*` pattern, for all levels or per level; override `sampling` */
+  components?: Record<string, number | Partial<Record<LogLevel, number>>>;
+}
+
+/**
+ * Sampling decision recorded on events kept at a rate below 1
+ */
+export interface SamplingDecision {
+  /** Rate the event was kept at; each kept event stands for 1 / rate events */
+  rate: number;
+  
+  /** Key the decision was made on ('session', 'user', 'trace', 'custom'), or 'random' */
+  key?: string;
+}
+
+/**
+ * Flight recorder settings
+ */
+export interface FlightRecorderConfig {
+  /** Maximum buffered events (default: 100) */
+  maxEvents?: number;
+  
+  /** Maximum approximate serialized size of buffered events in bytes (default: 256 KiB) */
+  maxBytes?: number;
+  
+  /** Events at or above this level dump the buffer (default: 'error') */
+  triggerLevel?: LogLevel;
+  
+  /** Custom trigger, used instead of `triggerLevel` */
+  trigger?: (event: LogEventData) => boolean;
+}
+
+/**
+ * Duplicate-message suppression settings
+ */
+export interface DedupeConfig {
+  /** Window in ms, starting at the first occurrence, during which duplicates are counted (default: 1000) */
+  windowMs?: number;
+  
+  /** Maximum fingerprints tracked at once; the oldest window closes early beyond this (default: 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * Summary of duplicate events suppressed within a dedupe window
+ */
+export interface RepeatSummary {
+  /** Number of suppressed duplicates after the first occurrence */
+  count: number;
+  
+  /** Timestamp of the first (forwarded) occurrence */
+  firstTimestamp: number;
+  
+  /** Timestamp of the last suppressed duplicate */
+  lastTimestamp: number;
+}
+
+/**
+ * Places runtime level overrides can be read from
+ * 
+ * - `url`: query parameter of the current page, e.g. `?log=debug,auth=trace`
+ * - `storage`: `localStorage` entry
+ * - `env`: environment variables on Node.js, e.g. `LEVER_LOG` or `LOG_LEVEL`
+ */
+export type LevelOverrideSource = 'url' | 'storage' | 'env';
+
+/**
+ * Options for runtime level overrides
+ */
+export interface LevelOverrideOptions {
+  /** Sources to read, highest precedence first (default: ['url', 'storage', 'env']) */
+  sources?: LevelOverrideSource[];
+  
+  /** Query parameter name (default: 'log') */
+  queryParam?: string;
+  
+  /** localStorage key (default: 'lever-log') */
+  storageKey?: string;
+  
+  /** Environment variable names, highest precedence first (default: ['LEVER_LOG', 'LOG_LEVEL']) */
+  envVars?: string[];
+}
+
+/**
+ * Level override resolved from a runtime source
+ */
+export interface LevelOverride {
+  /** Source the override was read from */
+  source: LevelOverrideSource;
+  
+  /** Raw specification, e.g. 'debug,auth=trace' */
+  value: string;
+  
+  /** Global level, if the specification contains a bare level */
+  level?: LogLevel;
+  
+  /** Component level rules in specification order */
+  levels: Array<[string, LogLevel]>;
 }
 
 /**
@@ -115,8 +627,10 @@ export interface RedactionConfig {
 export interface RedactionPattern {
   /** Pattern name for debugging and configuration */
   name?: string;
-  /** Regular expression pattern to match */
-  pattern: RegExp;
+  /** Regular expression to match, or its source as a string so the pattern can be written as JSON */
+  pattern: RegExp | string;
+  /** Flags for a string pattern (default: 'g') */
+  flags?: string;
   /** Replacement string */
   replacement: string;
   /** Description of what this pattern matches */
@@ -127,6 +641,47 @@ export interface RedactionPattern {
   priority?: 'high' | 'medium' | 'low';
 }
 
+/**
+ * Built-in context storage strategies
+ * 
+ * - `auto`: AsyncLocalStorage on Node.js, Zone.js when loaded, otherwise `sync`
+ * - `sync`: a single synchronous stack shared by all async operations
+ * - `async-local`: AsyncLocalStorage, isolating scopes per async call chain
+ * - `zone`: Zone.js zones, isolating scopes per zone
+ */
+export type ContextStorageMode = 'auto' | 'sync' | 'async-local' | 'zone';
+
+/**
+ * A scoped context layer or active span held by context storage
+ */
+export interface ContextFrame {
+  /** Context fields added by this frame */
+  context?: Record<string, unknown>;
+  
+  /** Span made active by this frame */
+  span?: SpanHandle;
+}
+
+/**
+ * Strategy for storing scoped context frames
+ * 
+ * Implementations decide which frames are visible to the current execution,
+ * e.g. one shared stack or one stack per async call chain.
+ */
+export interface ContextStorage {
+  /** Strategy name for diagnostics */
+  readonly name: string;
+  
+  /** Mutable frames visible to the current execution, outermost first */
+  getFrames(): ContextFrame[];
+  
+  /** Run a function with an extra frame visible for its whole (async) execution */
+  run<T>(frame: ContextFrame, fn: () => T): T;
+  
+  /** Create an empty storage of the same kind */
+  fork(): ContextStorage;
+}
+
 /**
  * Transport interface for log output
  */
@@ -145,6 +700,12 @@ export interface Transport {
   
   /** Transport configuration */
   config?: Record<string, unknown>;
+  
+  /** Notified when the logger configuration changes, e.g. by a runtime level override */
+  onConfigChanged?(event: LoggerConfigChangedEvent): void;
+  
+  /** Notified when a transport's circuit breaker opens or closes */
+  onTransportEvent?(event: TransportEvent | TransportErrorEvent): void;
 }
 
 /**
@@ -156,6 +717,12 @@ export interface LogEventData {
   
   /** Log message */
   message: string;
+
+  /** Message template with `{name}` or printf placeholders, present when the message was rendered from one */
+  messageTemplate?: string;
+
+  /** Redacted template parameters; positional parameters are keyed by index */
+  params?: Record<string, unknown>;
   
   /** Timestamp when log was created */
   timestamp: number;
@@ -171,6 +738,30 @@ export interface LogEventData {
   
   /** Logger instance name */
   logger: string;
+
+  /** Structured error details, present when the event was produced by exception() or error capture */
+  error?: ErrorData;
+
+  /** Structured metric data, present for metric() measurements and aggregated series */
+  metric?: MetricData;
+
+  /** W3C trace ID of the span active when the event was written */
+  traceId?: string;
+
+  /** ID of the span active when the event was written */
+  spanId?: string;
+
+  /** Present on summary events emitted by duplicate suppression */
+  repeated?: RepeatSummary;
+
+  /** Event ID, assigned to events that trigger a flight-recorder dump */
+  id?: string;
+
+  /** On events written by a flight-recorder dump, the ID of the triggering event */
+  triggeredBy?: string;
+
+  /** Sampling decision, present when the event was kept at a sampling rate below 1 */
+  sampling?: SamplingDecision;
 }
 
 /**
@@ -191,6 +782,15 @@ export interface MetricData {
   
   /** Component that recorded the metric */
   component: string;
+  
+  /** Kind of aggregated series, absent for metric() measurements */
+  type?: MetricType;
+  
+  /** Dimensions of the aggregated series */
+  tags?: Record<string, string>;
+  
+  /** Histogram bucket counts for the flush interval */
+  buckets?: MetricBucket[];
 }
 
 /**
@@ -219,48 +819,287 @@ export interface ErrorData {
   component: string;
 }
 
+/**
+ * Options for logging an exception
+ */
+export interface ExceptionOptions {
+  /** Whether the error was handled by the application (default: true) */
+  handled?: boolean;
+}
+
+/**
+ * Handle returned by logger.time() for measuring a duration
+ */
+export interface TimerHandle {
+  /** Metric name the duration is recorded under */
+  readonly label: string;
+  
+  /** Whether end() has already been called */
+  readonly ended: boolean;
+  
+  /** Stop the timer, record the metric and return the duration in ms */
+  end(fields?: Record<string, number | string | boolean>): number;
+}
+
+/**
+ * Options for logger.wrap() function instrumentation
+ */
+export interface WrapOptions {
+  /** Name used for log messages and the duration metric (default: function name) */
+  name?: string;
+  
+  /** Level for entry/exit log messages (default: 'debug') */
+  level?: LogLevel;
+  
+  /** Log entry and exit messages in addition to the metric (default: true) */
+  logEntryExit?: boolean;
+  
+  /** Include call arguments in the entry message context (default: false) */
+  logArgs?: boolean;
+}
+
+/**
+ * W3C trace context identifying a span within a distributed trace
+ */
+export interface TraceContext {
+  /** 32 lowercase hex character trace ID */
+  traceId: string;
+  
+  /** 16 lowercase hex character span ID */
+  spanId: string;
+  
+  /** Whether the trace is sampled (traceparent flag 01) */
+  sampled: boolean;
+  
+  /** Vendor-specific tracestate header value to propagate */
+  traceState?: string;
+}
+
+/**
+ * Options for starting a span
+ */
+export interface SpanOptions {
+  /** Parent span, trace context or traceparent header (default: active span) */
+  parent?: SpanHandle | TraceContext | string;
+  
+  /** tracestate header value (default: inherited from parent) */
+  traceState?: string;
+  
+  /** Attributes recorded with the span's duration metric */
+  attributes?: Record<string, number | string | boolean>;
+}
+
+/**
+ * Handle returned by logger.startSpan() for a unit of traced work
+ */
+export interface SpanHandle {
+  /** Span name, also the name of its duration metric */
+  readonly name: string;
+  
+  /** Trace ID shared by all spans in the trace */
+  readonly traceId: string;
+  
+  /** Unique ID of this span */
+  readonly spanId: string;
+  
+  /** ID of the parent span, if any */
+  readonly parentSpanId?: string;
+  
+  /** Whether the trace is sampled */
+  readonly sampled: boolean;
+  
+  /** tracestate header value propagated with this span */
+  readonly traceState?: string;
+  
+  /** Whether end() has already been called */
+  readonly ended: boolean;
+  
+  /** Start and activate a child span */
+  startChild(name: string, options?: Omit<SpanOptions, 'parent'>): SpanHandle;
+  
+  /** Set an attribute recorded with the duration metric */
+  setAttribute(key: string, value: number | string | boolean): this;
+  
+  /** End and deactivate the span, record its metric and return the duration in ms */
+  end(fields?: Record<string, number | string | boolean>): number;
+  
+  /** Trace context of this span */
+  toTraceContext(): TraceContext;
+  
+  /** W3C traceparent header value for this span */
+  toTraceparent(): string;
+}
+
+/**
+ * Counts of events not written to transports, by level
+ */
+export interface FilteredEventStats {
+  /** Below the logger's or component's level */
+  level: Partial<Record<LogLevel, number>>;
+  
+  /** Dropped by sampling */
+  sampling: Partial<Record<LogLevel, number>>;
+  
+  /** Suppressed as duplicates */
+  duplicate: Partial<Record<LogLevel, number>>;
+}
+
+/**
+ * Statistics for the whole logging pipeline, returned by logger.getStats()
+ */
+export interface LoggerStats {
+  /** Events written to transports, by level */
+  events: Partial<Record<LogLevel, number>>;
+  
+  /** Events not written, by reason */
+  filtered: FilteredEventStats;
+  
+  /** Redaction operations and hits by pattern and field */
+  redaction: RedactionStats;
+  
+  /** Counters by transport name */
+  transports: Record<string, TransportStats>;
+}
+
+/**
+ * Description of a logger's effective setup, returned by logger.inspect()
+ */
+export interface LoggerInspection {
+  /** Logger name */
+  name: string;
+  
+  /** Component of the logger */
+  component: string;
+  
+  /** Effective level of the logger */
+  level: LogLevel;
+  
+  /** Effective configuration without transports, encoded to be JSON-safe */
+  config: Record<string, unknown>;
+  
+  /** Component level rules, including runtime overrides */
+  componentLevels: Record<string, LogLevel>;
+  
+  /** Runtime level override, if one was applied */
+  levelOverride?: LevelOverride;
+  
+  /** Registered transports in write order */
+  transports: Array<{
+    name: string;
+    route?: Record<string, unknown>;
+    queued: boolean;
+    health: TransportHealth;
+  }>;
+}
+
 /**
  * Logger interface - main logging API
+ * 
+ * `L` names custom levels the logger was created with, e.g. by
+ * `createLogger({ customLevels })`, in addition to `LogLevel`.
  */
-export interface Logger {
+export interface Logger<L extends string = never> {
   /** Logger name/identifier */
   readonly name: string;
   
   /** Current log level */
-  readonly level: LogLevel;
+  readonly level: LogLevel | L;
   
   /** Log trace message */
-  trace(message: string, ...args: readonly unknown[]): void;
+  trace(message: LogMessage, ...args: readonly unknown[]): void;
   
   /** Log debug message */
-  debug(message: string, ...args: readonly unknown[]): void;
+  debug(message: LogMessage, ...args: readonly unknown[]): void;
   
   /** Log info message */
-  info(message: string, ...args: readonly unknown[]): void;
+  info(message: LogMessage, ...args: readonly unknown[]): void;
   
   /** Log warning message */
-  warn(message: string, ...args: readonly unknown[]): void;
+  warn(message: LogMessage, ...args: readonly unknown[]): void;
   
   /** Log error message */
-  error(message: string, ...args: readonly unknown[]): void;
+  error(message: LogMessage, ...args: readonly unknown[]): void;
+  
+  /** Log a message at any registered level, including custom levels */
+  log(level: LogLevel | L, message: LogMessage, ...args: readonly unknown[]): void;
+  
+  /** Log a thrown value as structured error data */
+  exception(error: unknown, context?: Record<string, unknown>, options?: ExceptionOptions): void;
   
   /** Record a metric */
   metric(name: string, fields?: Record<string, number | string | boolean>): void;
   
+  /** Get or create an aggregated counter series */
+  counter(name: string, tags?: MetricTags): Counter;
+  
+  /** Get or create an aggregated gauge series */
+  gauge(name: string, tags?: MetricTags): Gauge;
+  
+  /** Get or create an aggregated histogram series with the given or default buckets */
+  histogram(name: string, buckets?: number[], tags?: MetricTags): Histogram;
+  
+  /** Get the cumulative state of every aggregated series, e.g. for Prometheus exposition */
+  collectMetrics(): MetricSeries[];
+  
+  /** Start a timer that records a duration metric when ended */
+  time(label: string): TimerHandle;
+  
+  /** Time a function call and record its duration metric */
+  timeAsync<T>(label: string, fn: () => Promise<T> | T, fields?: Record<string, number | string | boolean>): Promise<T>;
+  
+  /** Wrap a function to log entry, exit, duration and thrown errors */
+  wrap<A extends unknown[], R>(fn: (...args: A) => R, options?: WrapOptions): (...args: A) => R;
+  
+  /** Start a span and make it active; it is a child of the active span unless a parent is given */
+  startSpan(name: string, options?: SpanOptions): SpanHandle;
+  
+  /** Run a function inside a new active span, ending it when the function returns or settles */
+  withSpan<T>(name: string, fn: (span: SpanHandle) => T, options?: SpanOptions): T;
+  
+  /** Get the active span, if any */
+  getActiveSpan(): SpanHandle | undefined;
+  
+  /** Get the traceparent header for the active span, if any */
+  getTraceparent(): string | undefined;
+  
   /** Create child logger with additional context */
-  withContext(context: Record<string, unknown>): Logger;
+  withContext(context: Record<string, unknown>): Logger<L> & LevelMethods<L>;
   
   /** Set minimum log level */
-  setLevel(level: LogLevel): void;
+  setLevel(level: LogLevel | L): void;
+  
+  /** Set log level for a component namespace (and its descendants) or wildcard pattern */
+  setComponentLevel(component: string, level: LogLevel | L): void;
+  
+  /** Set levels from a namespace pattern specification, e.g. 'app:auth:*=debug,*=warn' */
+  setLevels(levels: string | Record<string, LogLevel | L>): void;
+  
+  /** Change runtime settings of the whole logger tree; returns the keys that changed */
+  configure(config: RuntimeConfig): string[];
   
-  /** Set component-specific log level */
-  setComponentLevel(component: string, level: LogLevel): void;
+  /** Get the current values of the settings configure() can change */
+  getRuntimeConfig(): Required<RuntimeConfig>;
+  
+  /** Get adaptive sampling rates and totals, if adaptive sampling is enabled */
+  getSamplingStats(): SamplingStats | undefined;
   
   /** Explicitly redact a value */
   redact(value: unknown): string;
   
-  /** Add a transport to this logger */
-  addTransport(transport: Transport): void;
+  /** Add a transport to this logger, optionally with routing filters */
+  addTransport(transport: Transport, route?: TransportRoute): void;
+  
+  /** Replace (or with no route, remove) the routing filters of a transport */
+  setTransportRoute(transportName: string, route?: TransportRoute): void;
+  
+  /** Get the health and circuit state of every transport by name */
+  getTransportHealth(): Record<string, TransportHealth>;
+  
+  /** Get event, redaction and transport counters for the whole pipeline */
+  getStats(): LoggerStats;
+  
+  /** Describe the effective configuration, component levels and transports */
+  inspect(): LoggerInspection;
   
   /** Remove a transport from this logger */
   removeTransport(transportName: string): boolean;
@@ -4,6 +4,8 @@
  */
 
 import type { MiddlewareFunction, MiddlewareContext } from './transport-middleware.js';
+import type { LogEventData } from '../logger/types.js';
+import { encodeEvent, serializeEvent } from '../logger/serialization.js';
 
 /**
  * Compression format types
@@ -134,8 +136,8 @@ export function compressionMiddleware(options: CompressionOptions = {}): Middlew
       return;
     }
 
-    // Serialize event to JSON
-    const jsonString = JSON.stringify(context.event);
+    // Serialize event with the shared codec
+    const jsonString = serializeEvent(context.event);
     const originalSize = new TextEncoder().encode(jsonString).length;
 
     // Skip compression for small payloads
@@ -254,8 +256,8 @@ export function batchCompressionMiddleware(options: CompressionOptions = {}): Mi
       return;
     }
 
-    // Serialize batch to JSON
-    const jsonString = JSON.stringify(events);
+    // Serialize batch with the shared codec
+    const jsonString = JSON.stringify(events.map(event => encodeEvent(event as LogEventData)));
     const originalSize = new TextEncoder().encode(jsonString).length;
 
     // Skip compression for small batches
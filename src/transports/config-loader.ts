@@ -0,0 +1,235 @@
+/**
+ * Declarative Logger Configuration
+ *
+ * Creates loggers from configuration written as JSON, e.g. one file per
+ * environment or a document served by a config service. The configuration is
+ * validated against the logger schema extended with the options of every
+ * registered transport type, and all problems are reported at once with the
+ * path of each offending value. Transport entries are created by the factory
+ * registered for their `type`.
+ *
+ * @example
+ * ```typescript
+ * import { createLoggerFromConfig, validateLoggerConfig } from 'lever-ui-logger';
+ *
+ * const logger = createLoggerFromConfig(`{
+ *   "level": "info",
+ *   "component": "checkout",
+ *   "redaction": { "patterns": [{ "pattern": "ORD-\\\\d{6}", "flags": "g", "replacement": "<order>" }] },
+ *   "transports": [
+ *     { "type": "console", "format": "compact" },
+ *     { "type": "sendbeacon", "endpoint": "/api/logs", "batchSize": 50 },
+ *     { "type": "eventbus" }
+ *   ]
+ * }`, { eventBus });
+ *
+ * // In CI, check config files without creating anything
+ * validateLoggerConfig({ transports: [{ type: 'sendbeacon', endpoint: '/logs', batchSize: 0 }] });
+ * // ['transports[0].batchSize must be > 0']
+ * ```
+ */
+
+import type { Logger, LoggerConfig, Transport } from '../logger/types.js';
+import {
+  LOGGER_CONFIG_SCHEMA,
+  TRANSPORT_SPEC_SCHEMA,
+  validateSchema,
+  type JsonSchema
+} from '../logger/config-schema.js';
+import { LoggerImpl } from '../logger/logger-impl.js';
+import { getLevels } from '../logger/level-registry.js';
+import { getTransportFactory, getTransportTypes, type TransportFactoryContext } from './transport-factories.js';
+
+/**
+ * A transport entry: its registered type and the factory's options
+ */
+export type TransportSpec = { type: string } & Record<string, unknown>;
+
+/**
+ * Logger configuration as written in JSON
+ */
+export type LoggerConfigJson = Omit<LoggerConfig, 'transports'> & {
+  transports?: TransportSpec[];
+};
+
+/**
+ * Get the JSON Schema of logger configuration, including the options of every registered transport type
+ *
+ * @returns Schema for editors, CI checks and `validateLoggerConfig()`
+ */
+export function getLoggerConfigSchema(): JsonSchema {
+  const types = getTransportTypes();
+
+  return {
+    ...LOGGER_CONFIG_SCHEMA,
+    properties: {
+      ...LOGGER_CONFIG_SCHEMA.properties,
+      transports: {
+        type: 'array',
+        items: {
+          ...TRANSPORT_SPEC_SCHEMA,
+          properties: { type: { enum: types } },
+          allOf: types.map(type => ({
+            if: { properties: { type: { const: type } }, required: ['type'] },
+            then: optionsSchema(type)
+          }))
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Validate logger configuration written as JSON
+ *
+ * @param json - JSON text or the parsed configuration
+ * @returns One message per problem, such as `transports[1].batchSize must be > 0`; empty if valid
+ */
+export function validateLoggerConfig(json: unknown): string[] {
+  let config: unknown = json;
+  if (typeof json === 'string') {
+    try {
+      config = JSON.parse(json);
+    } catch (error) {
+      return [`config is not valid JSON: ${(error as Error).message}`];
+    }
+  }
+  const errors = validateSchema(config, getLoggerConfigSchema());
+  if (isRecord(config)) {
+    errors.push(...checkLevelNames(config), ...checkRedactionPatterns(config.redaction));
+  }
+  return errors;
+}
+
+/**
+ * Create a logger from configuration written as JSON
+ *
+ * @param json - JSON text or the parsed configuration
+ * @param context - Services for transport factories, such as the `eventBus`
+ * @returns A new logger
+ * @throws {TypeError} If the configuration is invalid, listing every problem, or a transport cannot be created
+ */
+export function createLoggerFromConfig(json: string | LoggerConfigJson, context: TransportFactoryContext = {}): Logger {
+  const errors = validateLoggerConfig(json);
+  if (errors.length > 0) {
+    throw new TypeError(`Invalid logger config: ${errors.join('; ')}`);
+  }
+
+  const { transports = [], ...config }: LoggerConfigJson = typeof json === 'string' ? JSON.parse(json) : json;
+  const created: Transport[] = [];
+  try {
+    transports.forEach((spec, i) => created.push(createTransport(spec, context, `transports[${i}]`)));
+  } catch (error) {
+    // Transports created before the failing entry are never handed to a logger
+    created.forEach(closeQuietly);
+    throw error;
+  }
+  return new LoggerImpl({ ...config, transports: created });
+}
+
+/**
+ * Create one transport through its factory, naming the entry on failure
+ *
+ * @private
+ */
+function createTransport({ type, ...options }: TransportSpec, context: TransportFactoryContext, path: string): Transport {
+  try {
+    return getTransportFactory(type)!.create(options, context);
+  } catch (error) {
+    throw new TypeError(`${path} could not be created: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Close a transport, ignoring its failures
+ *
+ * @private
+ */
+function closeQuietly(transport: Transport): void {
+  try {
+    Promise.resolve(transport.close?.()).catch(() => {});
+  } catch {
+    // Ignore synchronous close errors
+  }
+}
+
+/**
+ * Check that every level name is a registered level or one of the config's `customLevels`
+ *
+ * @private
+ */
+function checkLevelNames(config: Record<string, unknown>): string[] {
+  const custom = Array.isArray(config.customLevels)
+    ? config.customLevels.map(level => (isRecord(level) ? level.name : undefined))
+    : [];
+  const names = [...getLevels().map(level => level.name), ...custom.filter((name): name is string => typeof name === 'string')];
+  const values: Array<[string, unknown]> = [['level', config.level]];
+
+  if (typeof config.levels === 'string') {
+    for (const entry of config.levels.split(/[\s,]+/)) {
+      const separator = entry.lastIndexOf('=');
+      if (separator !== -1) values.push(['levels', entry.slice(separator + 1).toLowerCase()]);
+    }
+  } else if (isRecord(config.levels)) {
+    Object.entries(config.levels).forEach(([pattern, level]) => values.push([`levels.${pattern}`, level]));
+  }
+  if (isRecord(config.flightRecorder)) values.push(['flightRecorder.triggerLevel', config.flightRecorder.triggerLevel]);
+  if (isRecord(config.queue)) values.push(['queue.dropBelow', config.queue.dropBelow]);
+  if (isRecord(config.routes)) {
+    Object.entries(config.routes).forEach(([name, route]) => {
+      if (isRecord(route)) values.push([`routes.${name}.minLevel`, route.minLevel]);
+    });
+  }
+
+  return values
+    .filter(([, level]) => typeof level === 'string' && level !== '' && !names.includes(level))
+    .map(([path]) => `${path} must be one of ${names.map(name => JSON.stringify(name)).join(', ')}`);
+}
+
+/**
+ * Check that every redaction pattern compiles with its flags
+ *
+ * Patterns that do not compile on their own are already reported by the schema.
+ *
+ * @private
+ */
+function checkRedactionPatterns(redaction: unknown): string[] {
+  if (!isRecord(redaction) || !Array.isArray(redaction.patterns)) return [];
+
+  const errors: string[] = [];
+  redaction.patterns.forEach((entry, i) => {
+    if (!isRecord(entry) || typeof entry.pattern !== 'string' || typeof entry.flags !== 'string') return;
+    try {
+      new RegExp(entry.pattern);
+    } catch {
+      return;
+    }
+    try {
+      new RegExp(entry.pattern, entry.flags);
+    } catch (error) {
+      errors.push(`redaction.patterns[${i}] must be a valid regular expression with flags "${entry.flags}": ${(error as Error).message}`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Check whether a value is a plain object
+ *
+ * @private
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Get a factory's options schema, accepting the `type` property
+ *
+ * @private
+ */
+function optionsSchema(type: string): JsonSchema {
+  const schema = getTransportFactory(type)?.schema;
+  if (!schema) return {};
+
+  return { ...schema, properties: { type: {}, ...schema.properties } };
+}
\ No newline at end of file
@@ -43,6 +43,7 @@
  */
 
 import type { LogLevel, LogEventData } from '../logger/types.js';
+import { getLevelDefinition, getLevelSeverity } from '../logger/level-registry.js';
 import { 
   BaseTransport, 
   Environment, 
@@ -58,7 +59,7 @@ import {
  */
 export class ConsoleTransport extends BaseTransport {
   private readonly transportConfig: Required<ConsoleTransportConfig>;
-  private readonly consoleMethods: Record<LogLevel, (..._args: unknown[]) => void>;
+  private readonly consoleMethods: Record<string, (..._args: unknown[]) => void>;
 
   constructor(config: ConsoleTransportConfig = {}) {
     const mergedConfig: Required<ConsoleTransportConfig> = {
@@ -94,7 +95,7 @@ export class ConsoleTransport extends BaseTransport {
 
     this.measurePerformance(() => {
       const formatted = this.formatEvent(event);
-      const consoleMethod = this.consoleMethods[event.level];
+      const consoleMethod = this.getConsoleMethod(event.level);
       
       if (this.transportConfig.colors && Environment.isBrowser) {
         this.writeWithBrowserStyles(formatted, consoleMethod);
@@ -122,7 +123,7 @@ export class ConsoleTransport extends BaseTransport {
   /**
    * Initialize console method mapping
    */
-  private initializeConsoleMethods(): Record<LogLevel, (..._args: unknown[]) => void> {
+  private initializeConsoleMethods(): Record<string, (..._args: unknown[]) => void> {
     // Handle case where console is undefined or missing methods
     if (typeof console === 'undefined') {
       const noop = () => {}; // No-op function
@@ -135,7 +136,7 @@ export class ConsoleTransport extends BaseTransport {
       };
     }
 
-    const defaultMethods = {
+    const defaultMethods: Record<string, (..._args: unknown[]) => void> = {
       trace: console.trace?.bind(console) || console.log?.bind(console) || (() => {}),
       debug: console.debug?.bind(console) || console.log?.bind(console) || (() => {}),
       info: console.info?.bind(console) || console.log?.bind(console) || (() => {}),
@@ -147,9 +148,9 @@ export class ConsoleTransport extends BaseTransport {
     const customMethods = this.transportConfig.consoleMethods;
     if (customMethods) {
       for (const [level, methodName] of Object.entries(customMethods)) {
-        const method = (console as unknown as Record<string, (..._args: unknown[]) => void>)[methodName];
+        const method = methodName && (console as unknown as Record<string, (..._args: unknown[]) => void>)[methodName];
         if (typeof method === 'function') {
-          defaultMethods[level as LogLevel] = method.bind(console);
+          defaultMethods[level] = method.bind(console);
         }
       }
     }
@@ -157,6 +158,24 @@ export class ConsoleTransport extends BaseTransport {
     return defaultMethods;
   }
 
+  /**
+   * Get the console method for a level
+   * 
+   * Custom levels without a configured mapping use their definition's
+   * `consoleMethod`, falling back to their severity's method.
+   */
+  private getConsoleMethod(level: LogLevel): (..._args: unknown[]) => void {
+    const method = this.consoleMethods[level];
+    if (method || typeof console === 'undefined') {
+      return method ?? (() => {});
+    }
+
+    const severity = getLevelSeverity(level);
+    const methodName = getLevelDefinition(level)?.consoleMethod ?? severity;
+    const consoleMethod = (console as unknown as Record<string, (..._args: unknown[]) => void>)[methodName];
+    return typeof consoleMethod === 'function' ? consoleMethod.bind(console) : this.consoleMethods[severity];
+  }
+
   /**
    * Format a log event according to the configured format
    */
@@ -180,6 +199,12 @@ export class ConsoleTransport extends BaseTransport {
       argsStr = event.args.map(arg => this.formatData(arg, this.transportConfig.format)).join(' ');
     }
 
+    // Show the stack for structured errors (exception() and global error capture)
+    if (event.error) {
+      const errorStr = event.error.stack || `${event.error.name}: ${event.error.message}`;
+      argsStr = argsStr ? `${argsStr} ${errorStr}` : errorStr;
+    }
+
     return {
       timestamp,
       level,
@@ -225,7 +250,7 @@ export class ConsoleTransport extends BaseTransport {
     }
 
     parts.push(`%c${formatted.level}`);
-    styles.push(BrowserStyles[formatted.raw.level] || '');
+    styles.push(getLevelDefinition(formatted.raw.level)?.browserStyle ?? BrowserStyles[getLevelSeverity(formatted.raw.level)]);
 
     if (formatted.component) {
       parts.push(`%c${formatted.component}`);
@@ -268,7 +293,7 @@ export class ConsoleTransport extends BaseTransport {
       parts.push(`${Colors.timestamp}${formatted.timestamp}${Colors.reset}`);
     }
 
-    const levelColor = Colors[formatted.raw.level] || '';
+    const levelColor = getLevelDefinition(formatted.raw.level)?.color ?? Colors[getLevelSeverity(formatted.raw.level)];
     parts.push(`${levelColor}${formatted.level}${Colors.reset}`);
 
     if (formatted.component) {
@@ -25,15 +25,19 @@
  * ```
  */
 
-import type { LogEventData } from '../logger/types.js';
+import type { LogEventData, ErrorData, MetricData } from '../logger/types.js';
 import { BaseTransport } from './transport-interface.js';
+import { getLevelSeverity } from '../logger/level-registry.js';
+import { isEqualValue } from '../logger/config-diff.js';
 import { 
   LogEvent, 
   MetricEvent, 
   ErrorEvent, 
   LoggerCreatedEvent, 
   LoggerDestroyedEvent, 
-  LoggerConfigChangedEvent 
+  LoggerConfigChangedEvent,
+  TransportEvent,
+  TransportErrorEvent
 } from '../logger/events.js';
 
 /**
@@ -134,6 +138,7 @@ export class EventBusTransport extends BaseTransport {
   private readonly eventTransformer?: EventBusTransportConfig['eventTransformer'];
   private readonly transformMetadata: Record<string, unknown>;
   private readonly eventBus: EventBusInterface;
+  private readonly knownConfigs = new Map<string, Record<string, unknown>>();
 
   /**
    * Create a new EventBus transport instance
@@ -259,7 +264,10 @@ export class EventBusTransport extends BaseTransport {
    * Publish logger lifecycle events to EventBus
    * 
    * Publishes lifecycle events (created, destroyed, config-changed) to the EventBus
-   * to allow other systems to track logger state changes.
+   * to allow other systems to track logger state changes. The transport
+   * remembers the last configuration published or reported for each logger,
+   * so config-changed events carry the previous values and the keys that
+   * differ from them.
    * 
    * @param eventType - Type of lifecycle event
    * @param config - Logger configuration (for created/config-changed events)
@@ -292,33 +300,40 @@ export class EventBusTransport extends BaseTransport {
       }
 
       let lifecycleEvent: LoggerCreatedEvent | LoggerDestroyedEvent | LoggerConfigChangedEvent;
+      const name = loggerName || this.transportConfig.name;
 
       switch (eventType) {
         case 'created':
+          this.knownConfigs.set(name, { ...config });
           lifecycleEvent = new LoggerCreatedEvent(
-            loggerName || this.transportConfig.name,
+            name,
             config || {},
             Date.now()
           );
           break;
 
         case 'destroyed':
+          this.knownConfigs.delete(name);
           lifecycleEvent = new LoggerDestroyedEvent(
-            loggerName || this.transportConfig.name,
+            name,
             'Logger destroyed via transport',
             Date.now()
           );
           break;
 
-        case 'config-changed':
+        case 'config-changed': {
+          const oldConfig = this.knownConfigs.get(name) ?? {};
+          const newConfig = config || {};
+          this.knownConfigs.set(name, { ...oldConfig, ...newConfig });
           lifecycleEvent = new LoggerConfigChangedEvent(
-            loggerName || this.transportConfig.name,
-            {}, // oldConfig - not available in this context
-            config || {},
-            ['transport-initiated'], // changes
+            name,
+            oldConfig,
+            newConfig,
+            Object.keys(newConfig).filter(key => !isEqualValue(oldConfig[key], newConfig[key])),
             Date.now()
           );
           break;
+        }
 
         default:
           return;
@@ -330,6 +345,57 @@ export class EventBusTransport extends BaseTransport {
     }
   }
 
+  /**
+   * Publish configuration changes reported by the logger
+   * 
+   * Called by the logger when its configuration changes at runtime, e.g. when
+   * a `?log=debug` level override is applied on creation or `configure()` is
+   * called. Published as-is, subject to `enableLifecycleEvents`.
+   * 
+   * @param event - Configuration change event
+   */
+  onConfigChanged(event: LoggerConfigChangedEvent): void {
+    if (!this.transportConfig.enableLifecycleEvents) {
+      return;
+    }
+
+    this.knownConfigs.set(event.loggerName, {
+      ...this.knownConfigs.get(event.loggerName),
+      ...event.newConfig
+    });
+
+    try {
+      if (this.isEventBusReady()) {
+        this.publishEvent(event);
+      }
+    } catch (error) {
+      this.handlePublishError(error, null);
+    }
+  }
+
+  /**
+   * Publish transport health changes reported by the logger
+   * 
+   * Called when another transport's circuit breaker opens (`TransportErrorEvent`)
+   * or closes again (`TransportEvent`). Published as-is, subject to
+   * `enableLifecycleEvents`.
+   * 
+   * @param event - Transport health event
+   */
+  onTransportEvent(event: TransportEvent | TransportErrorEvent): void {
+    if (!this.transportConfig.enableLifecycleEvents) {
+      return;
+    }
+
+    try {
+      if (this.isEventBusReady()) {
+        this.publishEvent(event);
+      }
+    } catch (error) {
+      this.handlePublishError(error, null);
+    }
+  }
+
   /**
    * Check if an event should be processed (infinite loop prevention)
    * 
@@ -421,6 +487,8 @@ export class EventBusTransport extends BaseTransport {
    * Create default EventBus events from log data
    * 
    * Applies intelligent event type detection based on log content:
+   * - Error events for events carrying structured error data (exception() or error capture)
+   * - Metric events for events carrying structured metric data (metric() or aggregated series)
    * - Error events for error level logs or Error objects in context
    * - Metric events for logs with numeric data or specific patterns
    * - Log events for everything else
@@ -436,6 +504,16 @@ export class EventBusTransport extends BaseTransport {
     metadata: EventTransformMetadata
   ): LogEvent | MetricEvent | ErrorEvent | null {
     
+    // Structured error data is authoritative - no detection needed
+    if (event.error) {
+      return this.createErrorEventFromData(event, event.error);
+    }
+
+    // So is structured metric data
+    if (event.metric) {
+      return this.createMetricEventFromData(event.metric);
+    }
+
     // Check for error events
     if (this.isErrorEvent(event)) {
       return this.createErrorEvent(event, metadata);
@@ -459,8 +537,8 @@ export class EventBusTransport extends BaseTransport {
    * @internal
    */
   private isErrorEvent(event: LogEventData): boolean {
-    // Error level logs
-    if (event.level === 'error') {
+    // Error level logs, including custom levels with error severity (e.g. fatal)
+    if (getLevelSeverity(event.level) === 'error') {
       return true;
     }
 
@@ -554,6 +632,61 @@ export class EventBusTransport extends BaseTransport {
     );
   }
 
+  /**
+   * Create ErrorEvent from structured error data
+   * 
+   * Rebuilds an Error carrying the original name, message and stack so
+   * subscribers see the same error that was passed to the logger.
+   * 
+   * @param event - Log event data
+   * @param errorData - Structured error data attached to the event
+   * @returns ErrorEvent instance
+   * 
+   * @internal
+   */
+  private createErrorEventFromData(event: LogEventData, errorData: ErrorData): ErrorEvent {
+    const error = new Error(errorData.message);
+    error.name = errorData.name;
+    error.stack = errorData.stack;
+
+    return new ErrorEvent(
+      error,
+      errorData.handled,
+      event.context,
+      errorData.component,
+      errorData.timestamp
+    );
+  }
+
+  /**
+   * Create MetricEvent from structured metric data
+   * 
+   * Fields are published unchanged. The series type, tags and histogram
+   * buckets of aggregated metrics are added to the context, since
+   * `MetricEvent` fields only hold primitive values.
+   * 
+   * @param metric - Structured metric data attached to the event
+   * @returns MetricEvent instance
+   * 
+   * @internal
+   */
+  private createMetricEventFromData(metric: MetricData): MetricEvent {
+    const { type, tags, buckets } = metric;
+
+    return new MetricEvent(
+      metric.name,
+      metric.fields,
+      {
+        ...metric.context,
+        ...(type && { metricType: type }),
+        ...(tags && { tags }),
+        ...(buckets && { buckets })
+      },
+      metric.component,
+      metric.timestamp
+    );
+  }
+
   /**
    * Create MetricEvent from log data
    * 
@@ -627,7 +760,7 @@ export class EventBusTransport extends BaseTransport {
    * 
    * @internal
    */
-  private publishEvent(event: LogEvent | MetricEvent | ErrorEvent | LoggerCreatedEvent | LoggerDestroyedEvent | LoggerConfigChangedEvent): void {
+  private publishEvent(event: LogEvent | MetricEvent | ErrorEvent | LoggerCreatedEvent | LoggerDestroyedEvent | LoggerConfigChangedEvent | TransportEvent | TransportErrorEvent): void {
     try {
       const result = this.eventBus.post(event);
       
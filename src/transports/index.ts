@@ -65,6 +65,10 @@ export * from './sendbeacon-transport.js';
 // EventBus transport implementation
 export * from './eventbus-transport.js';
 
+// Transport factories and declarative configuration
+export * from './transport-factories.js';
+export * from './config-loader.js';
+
 // Error sanitization utilities
 export * from './error-sanitizer.js';
 
@@ -25,6 +25,7 @@
  */
 
 import type { LogEventData } from '../logger/types.js';
+import { decodeEvent, encodeEvent, serializeEvent, type EncodedLogEvent } from '../logger/serialization.js';
 import { BaseTransport, Environment } from './transport-interface.js';
 import { SecureTokenHandler, type TokenProvider } from './secure-token-handler.js';
 
@@ -45,8 +46,8 @@ export interface TelemetryEnvelope {
   timezone: string;
   /** Timestamp of the envelope creation */
   timestamp: number;
-  /** Array of log events */
-  events: LogEventData[];
+  /** Log events encoded with the shared serialization codec */
+  events: EncodedLogEvent[];
   /** Number of events in this batch */
   eventCount: number;
   /** Total size in bytes (estimated) */
@@ -100,7 +101,7 @@ export interface SendBeaconTransportConfig {
   sessionIdGenerator?: () => string;
   /** User ID provider function */
   userIdProvider?: () => string | undefined;
-  /** Rate limit: max events per minute */
+  /** Rate limit: max events per minute, dropping events beyond it; prefer the logger's `adaptiveSampling` */
   rateLimitPerMinute?: number;
   /** Enable automatic page lifecycle handling */
   enableLifecycleHandling?: boolean;
@@ -525,8 +526,11 @@ export class SendBeaconTransport extends BaseTransport {
    * Create telemetry envelope with metadata and sanitized events
    * 
    * Wraps log events in a telemetry envelope containing session context,
-   * user information, and environment metadata. Automatically sanitizes
-   * events to handle circular references and serialization issues.
+   * user information, and environment metadata. Events are encoded with the
+   * shared serialization codec, which handles circular references and tags
+   * errors, maps, sets, bigints and dates so the collector can decode them
+   * with `decodeEvent()`. Events keep their `messageTemplate` so the server
+   * can aggregate by template.
    * 
    * @param events - Array of log events to include in envelope
    * @returns Promise resolving to complete telemetry envelope
@@ -534,20 +538,27 @@ export class SendBeaconTransport extends BaseTransport {
    * @internal
    */
   private async createEnvelope(events: LogEventData[]): Promise<TelemetryEnvelope> {
-    // Sanitize events to handle circular references
-    const sanitizedEvents = events.map(event => {
+    // Encode events with the shared codec; oversized events lose context and args
+    const encodedEvents = events.map((event): EncodedLogEvent => {
       try {
-        return JSON.parse(JSON.stringify(event, this.getCircularReplacer()));
+        return JSON.parse(serializeEvent(event, {
+          replacer: this.getCircularReplacer(),
+          maxSize: this.transportConfig.maxPayloadSize
+        }));
       } catch {
-        // If all else fails, create a safe event
-        return {
+        // A throwing toJSON() or getter; keep a safe subset of the event
+        return encodeEvent({
           level: event.level,
           message: event.message || '[Message could not be serialized]',
+          messageTemplate: event.messageTemplate,
           timestamp: event.timestamp,
           component: event.component,
-          context: '[Context could not be serialized]',
-          args: []
-        };
+          logger: event.logger,
+          context: { error: '[Context could not be serialized]' },
+          args: [],
+          traceId: event.traceId,
+          spanId: event.spanId
+        });
       }
     });
 
@@ -557,9 +568,9 @@ export class SendBeaconTransport extends BaseTransport {
       userAgent: Environment.isBrowser && typeof navigator !== 'undefined' ? navigator.userAgent : 'node',
       timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       timestamp: Date.now(),
-      events: sanitizedEvents,
-      eventCount: sanitizedEvents.length,
-      sizeBytes: this.estimateEventSize(sanitizedEvents)
+      events: encodedEvents,
+      eventCount: encodedEvents.length,
+      sizeBytes: new Blob([JSON.stringify(encodedEvents)]).size
     };
 
     return envelope;
@@ -660,7 +671,8 @@ export class SendBeaconTransport extends BaseTransport {
       // Limit offline storage to prevent unbounded growth
       const limited = combined.slice(-1000); // Keep last 1000 events
       
-      localStorage.setItem(key, JSON.stringify(limited));
+      const encoded = limited.map(queued => ({ ...queued, event: encodeEvent(queued.event) }));
+      localStorage.setItem(key, JSON.stringify(encoded));
     } catch (error) {
       console.error('SendBeacon transport: Failed to save offline events', error);
     }
@@ -691,7 +703,16 @@ export class SendBeaconTransport extends BaseTransport {
     try {
       const key = `${this.transportConfig.storageKeyPrefix}offline_events`;
       const stored = localStorage.getItem(key);
-      return stored ? JSON.parse(stored) : [];
+      const parsed: Array<Omit<QueuedEvent, 'event'> & { event: unknown }> = stored ? JSON.parse(stored) : [];
+
+      // Skip entries written by an incompatible schema version
+      return parsed.flatMap(queued => {
+        try {
+          return [{ ...queued, event: decodeEvent(queued.event) }];
+        } catch {
+          return [];
+        }
+      });
     } catch (error) {
       console.error('SendBeacon transport: Failed to load offline events', error);
       return [];
@@ -754,18 +775,12 @@ export class SendBeaconTransport extends BaseTransport {
   /**
    * Estimate size of event(s) in bytes
    */
-  private estimateEventSize(event: LogEventData | LogEventData[]): number {
+  private estimateEventSize(event: LogEventData): number {
     try {
-      const json = JSON.stringify(event);
-      return new Blob([json]).size;
+      return new Blob([serializeEvent(event)]).size;
     } catch {
-      // For circular references or other serialization issues,
-      // return a conservative estimate
-      try {
-        return JSON.stringify(event, this.getCircularReplacer()).length * 2;
-      } catch {
-        return 1000; // Conservative fallback
-      }
+      // A throwing toJSON() or getter; return a conservative estimate
+      return 1000;
     }
   }
 
@@ -785,7 +800,7 @@ export class SendBeaconTransport extends BaseTransport {
   private sanitizeEventForLogging(event: LogEventData): Record<string, unknown> {
     try {
       // Use the secure replacer to sanitize the entire event - this should handle all sensitive keys
-      const sanitized = JSON.parse(JSON.stringify(event, this.getCircularReplacer()));
+      const sanitized = encodeEvent(event, { replacer: this.getCircularReplacer() });
       
       return {
         level: sanitized.level,
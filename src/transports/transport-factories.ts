@@ -0,0 +1,180 @@
+/**
+ * Transport Factories
+ *
+ * Creates transports from JSON options, keyed by the `type` of a transport
+ * entry in declarative configuration. Factories for `console`, `sendbeacon`
+ * and `eventbus` are built in; custom transports register their own, with a
+ * JSON Schema of their options so invalid configuration is reported with the
+ * path of the offending option before anything is created.
+ *
+ * Services that cannot be written as JSON, such as the EventBus instance,
+ * are passed to factories in a context object.
+ *
+ * @example
+ * ```typescript
+ * import { registerTransportFactory, createLoggerFromConfig } from 'lever-ui-logger';
+ *
+ * registerTransportFactory('datadog', {
+ *   schema: {
+ *     type: 'object',
+ *     properties: { apiKey: { type: 'string', minLength: 1 }, site: { type: 'string' } },
+ *     required: ['apiKey'],
+ *     additionalProperties: false
+ *   },
+ *   create: options => new DatadogTransport(options)
+ * });
+ *
+ * const logger = createLoggerFromConfig({
+ *   transports: [{ type: 'console' }, { type: 'datadog', apiKey: 'dd-key' }]
+ * });
+ * ```
+ */
+
+import type { Transport } from '../logger/types.js';
+import type { JsonSchema } from '../logger/config-schema.js';
+import { ConsoleTransport } from './console-transport.js';
+import { SendBeaconTransport, type SendBeaconTransportConfig } from './sendbeacon-transport.js';
+import { EventBusTransport, type EventBusInterface } from './eventbus-transport.js';
+import type { ConsoleTransportConfig } from './transport-interface.js';
+
+/**
+ * Services available to transport factories
+ */
+export interface TransportFactoryContext {
+  /** EventBus that `eventbus` transports publish to */
+  eventBus?: EventBusInterface;
+
+  /** Services for custom factories, such as token providers */
+  [service: string]: unknown;
+}
+
+/**
+ * Creates transports of one type from JSON options
+ */
+export interface TransportFactory<O = Record<string, unknown>> {
+  /** JSON Schema of the options; `type` is accepted without being declared */
+  schema?: JsonSchema;
+
+  /** Create a transport from the entry's options, without its `type` */
+  create(_options: O, _context: TransportFactoryContext): Transport;
+}
+
+/** Transport types that cannot be replaced or removed */
+const BUILT_IN_TYPES: readonly string[] = ['console', 'sendbeacon', 'eventbus'];
+
+const factories = new Map<string, TransportFactory>([
+  ['console', {
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        format: { enum: ['json', 'pretty', 'compact'] },
+        colors: { type: 'boolean' },
+        timestamps: { type: 'boolean' },
+        timestampFormat: { type: 'string' },
+        enableInProduction: { type: 'boolean' },
+        performanceThreshold: { type: 'number', minimum: 0 },
+        consoleMethods: { type: 'object', additionalProperties: { type: 'string', minLength: 1 } }
+      },
+      additionalProperties: false
+    },
+    create: options => new ConsoleTransport(options as ConsoleTransportConfig)
+  }],
+  ['sendbeacon', {
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        endpoint: { type: 'string', minLength: 1 },
+        batchSize: { type: 'integer', exclusiveMinimum: 0 },
+        flushInterval: { type: 'number', exclusiveMinimum: 0 },
+        maxPayloadSize: { type: 'integer', exclusiveMinimum: 0 },
+        enableOfflineStorage: { type: 'boolean' },
+        storageKeyPrefix: { type: 'string' },
+        maxRetries: { type: 'integer', minimum: 0 },
+        retryDelay: { type: 'number', minimum: 0 },
+        authToken: { type: 'string' },
+        enableSecureTokenHandling: { type: 'boolean' },
+        headers: { type: 'object', additionalProperties: { type: 'string' } },
+        enableCompression: { type: 'boolean' },
+        rateLimitPerMinute: { type: 'number', exclusiveMinimum: 0 },
+        enableLifecycleHandling: { type: 'boolean' }
+      },
+      required: ['endpoint'],
+      additionalProperties: false
+    },
+    create: options => new SendBeaconTransport(options as unknown as SendBeaconTransportConfig)
+  }],
+  ['eventbus', {
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        enableSelfLogging: { type: 'boolean' },
+        filterComponents: { type: 'array', items: { type: 'string' } },
+        silentErrors: { type: 'boolean' },
+        transformMetadata: { type: 'object' },
+        enableLifecycleEvents: { type: 'boolean' }
+      },
+      additionalProperties: false
+    },
+    create: (options, { eventBus }) => {
+      if (!eventBus) {
+        throw new TypeError('An eventbus transport needs an eventBus in the factory context');
+      }
+      return new EventBusTransport(eventBus, options);
+    }
+  }]
+]);
+
+/**
+ * Register a factory for a transport type
+ *
+ * Re-registering a custom type replaces its factory.
+ *
+ * @param type - Value of `type` in transport entries
+ * @param factory - Options schema and create function
+ * @throws {TypeError} If the type is empty or names a built-in transport
+ */
+export function registerTransportFactory<O = Record<string, unknown>>(type: string, factory: TransportFactory<O>): void {
+  if (!type || typeof type !== 'string') {
+    throw new TypeError('Transport type must be a non-empty string');
+  }
+  if (BUILT_IN_TYPES.includes(type)) {
+    throw new TypeError(`Cannot redefine built-in transport type: ${type}`);
+  }
+  if (typeof factory?.create !== 'function') {
+    throw new TypeError(`Transport factory for ${type} must have a create function`);
+  }
+  factories.set(type, factory as unknown as TransportFactory);
+}
+
+/**
+ * Remove the factory of a custom transport type
+ *
+ * @param type - Transport type
+ * @returns True if the type was registered and removed
+ * @throws {TypeError} If the type is built in
+ */
+export function unregisterTransportFactory(type: string): boolean {
+  if (BUILT_IN_TYPES.includes(type)) {
+    throw new TypeError(`Cannot remove built-in transport type: ${type}`);
+  }
+  return factories.delete(type);
+}
+
+/**
+ * Get the factory registered for a transport type
+ *
+ * @param type - Transport type
+ */
+export function getTransportFactory(type: string): TransportFactory | undefined {
+  return factories.get(type);
+}
+
+/**
+ * Get every registered transport type, built-in types first
+ */
+export function getTransportTypes(): string[] {
+  return [...factories.keys()];
+}
\ No newline at end of file
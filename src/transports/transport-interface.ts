@@ -3,6 +3,8 @@
  */
 
 import type { LogLevel, LogEventData, Transport } from '../logger/types.js';
+import { LOG_LEVEL_PRIORITY } from '../logger/logger-config.js';
+import { stringifyValue } from '../logger/serialization.js';
 
 /**
  * Environment detection utilities
@@ -143,45 +145,40 @@ export const Formatters = {
   },
   
   /**
-   * Pretty-print objects with indentation
+   * Pretty-print objects with indentation for display
    */
   prettyObject(obj: unknown, indent: number = 2): string {
     try {
-      return JSON.stringify(obj, null, indent);
+      return stringifyValue(obj, indent);
     } catch {
-      // Handle circular references or non-serializable objects
+      // A throwing toJSON() or getter
       return String(obj);
     }
   },
   
   /**
-   * Compact object representation
+   * Compact object representation for display
    */
   compactObject(obj: unknown): string {
     try {
-      return JSON.stringify(obj);
+      return stringifyValue(obj);
     } catch {
       return String(obj);
     }
   },
   
   /**
-   * Get log level priority for comparison
+   * Get log level priority for comparison, including custom levels
    */
   getLogLevelPriority(level: LogLevel): number {
-    const priorities = {
-      trace: 0,
-      debug: 1, 
-      info: 2,
-      warn: 3,
-      error: 4
-    };
-    return priorities[level] ?? 2;
+    return LOG_LEVEL_PRIORITY[level] ?? 2;
   }
 } as const;
 
 /**
  * ANSI color codes for terminal output
+ * 
+ * Custom levels use their own `color`, falling back to their severity's color.
  */
 export const Colors = {
   // Log level colors
@@ -203,6 +200,8 @@ export const Colors = {
 
 /**
  * Browser console styling
+ * 
+ * Custom levels use their own `browserStyle`, falling back to their severity's style.
  */
 export const BrowserStyles = {
   trace: 'color: #00bcd4; font-weight: normal;',
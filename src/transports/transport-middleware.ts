@@ -3,7 +3,9 @@
  * @module @nuanced-labs/lever-ui-logger/transports
  */
 
-import type { LogLevel, LogEventData } from '../logger/types.js';
+import type { LogLevel, LogEventData, SamplingKey } from '../logger/types.js';
+import { sampleEvent } from '../logger/sampling.js';
+import { Formatters } from './transport-interface.js';
 
 /**
  * Middleware context containing log data and metadata
@@ -120,16 +122,8 @@ export class TransportMiddleware {
  * @returns {MiddlewareFunction} Middleware that filters logs below the specified level
  */
 export function filterByLevel(minLevel: LogLevel): MiddlewareFunction {
-  const levelOrder: Record<LogLevel, number> = {
-    trace: 0,
-    debug: 1,
-    info: 2,
-    warn: 3,
-    error: 4,
-  };
-
   return (context, next) => {
-    if (levelOrder[context.event.level] < levelOrder[minLevel]) {
+    if (Formatters.getLogLevelPriority(context.event.level) < Formatters.getLogLevelPriority(minLevel)) {
       context.skip = true;
     }
     next();
@@ -276,18 +270,34 @@ export function batchAggregator(
 /**
  * Built-in middleware: Sampling
  * 
+ * With a key, all events of a session, user or trace are kept or skipped
+ * together. Kept events record the decision, combined with any sampling
+ * already applied by the logger, so counts can be re-weighted.
+ * 
+ * Events reach transports redacted, so key on fields that redaction keeps,
+ * such as `sessionId` or the trace ID.
+ * 
  * @param {number} rate - Sample rate between 0 and 1 (e.g., 0.1 for 10%)
+ * @param {SamplingKey} [key] - Stable key to sample by instead of sampling each event randomly
  * @returns {MiddlewareFunction} Middleware that samples events
  * @throws {Error} If rate is not between 0 and 1
  */
-export function sample(rate: number): MiddlewareFunction {
+export function sample(rate: number, key?: SamplingKey): MiddlewareFunction {
   if (rate < 0 || rate > 1) {
     throw new Error('Sample rate must be between 0 and 1');
   }
 
   return (context, next) => {
-    if (Math.random() > rate) {
+    const decision = sampleEvent(rate, key, () => context.event);
+    if (!decision) {
       context.skip = true;
+    } else if (decision.rate < 1) {
+      const previous = context.event.sampling;
+      // Nested samples on the same named key keep the same entities, so only the lower rate applies
+      const combined = previous && previous.key === decision.key && decision.key !== 'random' && decision.key !== 'custom'
+        ? Math.min(previous.rate, decision.rate)
+        : (previous?.rate ?? 1) * decision.rate;
+      context.event.sampling = { rate: combined, key: decision.key };
     }
     next();
   };
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for adaptive, throughput-targeting sampling
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AdaptiveSampler } from '../../src/logger/adaptive-sampler.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import type { LogEventData } from '../../src/logger/types.js';
+
+class MockTransport {
+  public writeCalls: LogEventData[] = [];
+  public name = 'mock-transport';
+
+  write(eventData: LogEventData) {
+    this.writeCalls.push(eventData);
+  }
+
+  flush() {}
+  close() {}
+}
+
+describe('AdaptiveSampler', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps everything while under the target', () => {
+    const sampler = new AdaptiveSampler({ targetPerMinute: 600, windowMs: 10000 });
+
+    for (let i = 0; i < 100; i++) {
+      expect(sampler.adjust('info', 1, i)).toBe(1);
+    }
+    expect(sampler.getStats().info?.rate).toBe(1);
+  });
+
+  it('lowers the rate to the budget when throughput exceeds the target', () => {
+    const sampler = new AdaptiveSampler({ targetPerMinute: 600, windowMs: 10000 });
+
+    // 1000 events in the first window, budget is 100 per window
+    for (let i = 0; i < 1000; i++) sampler.adjust('info', 1, i);
+    expect(sampler.getStats().info?.rate).toBeCloseTo(0.1);
+
+    // Halfway through the next window, half of the previous window still counts
+    expect(sampler.adjust('info', 1, 15000)).toBeCloseTo(100 / 501);
+
+    // Traffic stopped: the rate recovers once the busy window slides out
+    expect(sampler.adjust('info', 1, 40000)).toBe(1);
+  });
+
+  it('measures volume after the configured rate', () => {
+    const sampler = new AdaptiveSampler({ targetPerMinute: 600, windowMs: 10000 });
+
+    for (let i = 0; i < 400; i++) sampler.adjust('debug', 0.5, i);
+    expect(sampler.adjust('debug', 0.5, 500)).toBeCloseTo(0.5 * 100 / 200.5);
+  });
+
+  it('never lowers a level below its floor', () => {
+    const sampler = new AdaptiveSampler({ targetPerMinute: 60 });
+
+    for (let i = 0; i < 1000; i++) sampler.adjust('error', 1, i);
+    expect(sampler.getStats().error?.rate).toBe(0.1);
+
+    const strict = new AdaptiveSampler({ targetPerMinute: 60, floors: { error: 1 } });
+    for (let i = 0; i < 1000; i++) strict.adjust('error', 1, i);
+    expect(strict.adjust('error', 1, 1000)).toBe(1);
+  });
+
+  it('keeps the default error floor when other floors are given', () => {
+    const sampler = new AdaptiveSampler({ targetPerMinute: 60, floors: { warn: 0.2 } });
+
+    for (let i = 0; i < 1000; i++) {
+      sampler.adjust('warn', 1, i);
+      sampler.adjust('error', 1, i);
+    }
+
+    expect(sampler.getStats().warn?.rate).toBe(0.2);
+    expect(sampler.getStats().error?.rate).toBe(0.1);
+  });
+
+  it('only adapts levels with a target', () => {
+    const sampler = new AdaptiveSampler({ targetPerMinute: { debug: 6 } });
+
+    for (let i = 0; i < 100; i++) {
+      sampler.adjust('debug', 1, i);
+      sampler.adjust('info', 1, i);
+    }
+
+    expect(sampler.getStats().debug?.rate).toBeLessThan(1);
+    expect(sampler.getStats().info).toEqual({ rate: 1, seen: 100, kept: 0 });
+  });
+
+  it('validates its configuration', () => {
+    expect(() => new AdaptiveSampler({ windowMs: 0 })).toThrow('Adaptive sampling window must be a positive number: 0');
+    expect(() => new AdaptiveSampler({ targetPerMinute: { info: -1 } })).toThrow('must not be negative');
+    expect(() => new AdaptiveSampler({ floors: { error: 2 } })).toThrow('Sampling rate must be between 0 and 1');
+  });
+
+  it('samples logger events and reports rates and totals', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({
+      adaptiveSampling: { targetPerMinute: 60, windowMs: 60000 },
+      transports: [transport]
+    });
+
+    for (let i = 0; i < 200; i++) logger.info(`event ${i}`);
+
+    const stats = logger.getSamplingStats();
+    expect(stats?.info?.seen).toBe(200);
+    expect(stats?.info?.kept).toBe(transport.writeCalls.length);
+    expect(transport.writeCalls.length).toBeGreaterThanOrEqual(60);
+    expect(transport.writeCalls.length).toBeLessThan(200);
+    expect(transport.writeCalls.at(-1)?.sampling?.rate).toBeGreaterThan(0.5);
+    expect(new LoggerImpl().getSamplingStats()).toBeUndefined();
+  });
+});
\ No newline at end of file
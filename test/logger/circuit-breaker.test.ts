@@ -0,0 +1,244 @@
+/**
+ * Unit tests for transport circuit breakers and health tracking
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker } from '../../src/logger/circuit-breaker.js';
+import { TransportRegistry } from '../../src/logger/transport-registry.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import { TransportErrorEvent, TransportEvent } from '../../src/logger/events.js';
+import type { LogEventData, Transport } from '../../src/logger/types.js';
+
+class FlakyTransport implements Transport {
+  public failing = true;
+  public attempts = 0;
+  public events: Array<TransportEvent | TransportErrorEvent> = [];
+
+  constructor(public name: string) {}
+
+  write(_event: LogEventData): void {
+    this.attempts++;
+    if (this.failing) {
+      throw new Error(`${this.name} unavailable`);
+    }
+  }
+
+  onTransportEvent(event: TransportEvent | TransportErrorEvent): void {
+    this.events.push(event);
+  }
+
+  flush() {}
+  close() {}
+}
+
+const event: LogEventData = {
+  level: 'info',
+  message: 'test',
+  timestamp: Date.now(),
+  context: {},
+  args: [],
+  component: 'test',
+  logger: 'test'
+};
+
+describe('CircuitBreaker', () => {
+  it('opens after the failure threshold and skips writes until a probe is due', () => {
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker({ failureThreshold: 2, probeIntervalMs: 1000 }, onStateChange);
+    const error = new Error('down');
+
+    breaker.recordFailure(error, 'write', 0);
+    expect(breaker.canWrite(0)).toBe(true);
+    breaker.recordFailure(error, 'write', 0);
+
+    expect(onStateChange).toHaveBeenCalledWith('open', expect.objectContaining({ state: 'open', nextProbeAt: 1000 }), error);
+    expect(breaker.canWrite(500)).toBe(false);
+    expect(breaker.canWrite(1000)).toBe(true);
+    expect(breaker.health.state).toBe('half-open');
+    expect(breaker.canWrite(1000)).toBe(false);
+    expect(breaker.health.skipped).toBe(2);
+  });
+
+  it('closes after a successful probe and reopens silently after a failed one', () => {
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, probeIntervalMs: 1000 }, onStateChange);
+
+    breaker.recordFailure(new Error('down'), 'write', 0);
+    breaker.canWrite(1000);
+    breaker.recordFailure(new Error('still down'), 'write', 1000);
+
+    expect(onStateChange).toHaveBeenCalledTimes(1);
+    expect(breaker.health).toMatchObject({ state: 'open', consecutiveFailures: 2, nextProbeAt: 2000 });
+
+    breaker.canWrite(2000);
+    breaker.recordSuccess(2000);
+
+    expect(onStateChange).toHaveBeenLastCalledWith('closed', expect.objectContaining({ state: 'closed' }));
+    expect(breaker.health).toEqual({
+      state: 'closed',
+      consecutiveFailures: 0,
+      totalFailures: 2,
+      skipped: 0,
+      lastError: { name: 'Error', message: 'still down', operation: 'write', timestamp: 1000 },
+      lastSuccessAt: 2000
+    });
+  });
+
+  it('counts a probe that never settles as failed', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, probeIntervalMs: 1000, probeTimeoutMs: 500 }, vi.fn());
+
+    breaker.recordFailure(new Error('down'), 'write', 0);
+    expect(breaker.canWrite(1000)).toBe(true);
+    expect(breaker.canWrite(1400)).toBe(false);
+    expect(breaker.canWrite(1500)).toBe(false);
+
+    expect(breaker.health).toMatchObject({
+      state: 'open',
+      nextProbeAt: 2500,
+      lastError: { message: 'Probe write did not settle within 500ms', operation: 'write' }
+    });
+    expect(breaker.canWrite(2500)).toBe(true);
+    expect(breaker.health.state).toBe('half-open');
+  });
+
+  it('ignores results of writes sent before the state changed', () => {
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, probeIntervalMs: 1000 }, onStateChange);
+    const slowWrite = breaker.epoch;
+
+    breaker.recordFailure(new Error('down'), 'write', 0);
+    breaker.recordSuccess(10, slowWrite);
+    expect(breaker.health).toMatchObject({ state: 'open', consecutiveFailures: 1 });
+
+    breaker.canWrite(1000);
+    const probe = breaker.epoch;
+    breaker.recordFailure(new Error('late'), 'write', 1010, slowWrite);
+    expect(breaker.health).toMatchObject({ state: 'half-open', totalFailures: 2, lastError: { message: 'late' } });
+
+    breaker.recordSuccess(1020, probe);
+    expect(breaker.health.state).toBe('closed');
+    expect(onStateChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('records flush and close failures without counting them towards the circuit', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 }, vi.fn());
+
+    breaker.recordFailure(new TypeError('flush failed'), 'flush', 10);
+
+    expect(breaker.health).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 0,
+      totalFailures: 1,
+      lastError: { name: 'TypeError', operation: 'flush' }
+    });
+  });
+
+  it('rejects invalid configuration', () => {
+    expect(() => new CircuitBreaker({ failureThreshold: 0 }, vi.fn())).toThrow(TypeError);
+    expect(() => new CircuitBreaker({ probeIntervalMs: -1 }, vi.fn())).toThrow(TypeError);
+    expect(() => new CircuitBreaker({ probeTimeoutMs: -1 }, vi.fn())).toThrow('Probe timeout must not be negative: -1');
+  });
+});
+
+describe('TransportRegistry circuit breaking', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('stops writing to a failing transport and tells the other transports', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const flaky = new FlakyTransport('flaky');
+    const healthy = new FlakyTransport('healthy');
+    healthy.failing = false;
+    const registry = new TransportRegistry({ circuitBreaker: { failureThreshold: 3 } });
+    registry.add(flaky);
+    registry.add(healthy);
+
+    for (let i = 0; i < 10; i++) {
+      registry.writeToAll(event);
+    }
+
+    expect(flaky.attempts).toBe(3);
+    expect(healthy.attempts).toBe(10);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(healthy.events).toHaveLength(1);
+    expect(healthy.events[0]).toBeInstanceOf(TransportErrorEvent);
+    expect(healthy.events[0]).toMatchObject({ transportName: 'flaky', operation: 'write' });
+    expect(flaky.events).toHaveLength(0);
+
+    const health = registry.getHealth();
+    expect(health.flaky).toMatchObject({ state: 'open', consecutiveFailures: 3, skipped: 7 });
+    expect(health.healthy).toMatchObject({ state: 'closed', totalFailures: 0 });
+  });
+
+  it('closes the circuit when a probe succeeds', () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const flaky = new FlakyTransport('flaky');
+    const observer = new FlakyTransport('observer');
+    observer.failing = false;
+    const registry = new TransportRegistry({ circuitBreaker: { failureThreshold: 1, probeIntervalMs: 5000 } });
+    registry.add(flaky);
+    registry.add(observer);
+
+    registry.writeToAll(event);
+    flaky.failing = false;
+    registry.writeToAll(event);
+    expect(flaky.attempts).toBe(1);
+
+    vi.advanceTimersByTime(5000);
+    registry.writeToAll(event);
+
+    expect(flaky.attempts).toBe(2);
+    expect(registry.getHealth().flaky.state).toBe('closed');
+    expect(observer.events[1]).toBeInstanceOf(TransportEvent);
+    expect(observer.events[1]).toMatchObject({ transportName: 'flaky', details: { state: 'closed' } });
+    vi.useRealTimers();
+  });
+
+  it('keeps the circuit open when a write sent before it opened succeeds late', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const pending: Array<{ resolve: () => void; reject: (_error: Error) => void }> = [];
+    const slow: Transport = {
+      name: 'slow',
+      write: () => new Promise<void>((resolve, reject) => { pending.push({ resolve, reject }); }),
+      flush() {},
+      close() {}
+    };
+    const registry = new TransportRegistry({ circuitBreaker: { failureThreshold: 2 } });
+    registry.add(slow);
+
+    registry.writeToAll(event);
+    registry.writeToAll(event);
+    registry.writeToAll(event);
+    pending[1].reject(new Error('timeout'));
+    pending[2].reject(new Error('timeout'));
+    await Promise.resolve();
+    expect(registry.getHealth().slow.state).toBe('open');
+
+    pending[0].resolve();
+    await Promise.resolve();
+    expect(registry.getHealth().slow).toMatchObject({ state: 'open', consecutiveFailures: 2 });
+  });
+
+  it('only tracks health when circuit breaking is disabled', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const flaky = new FlakyTransport('flaky');
+    const logger = new LoggerImpl({ transports: [flaky], circuitBreaker: false });
+
+    for (let i = 0; i < 10; i++) {
+      logger.info('still trying');
+    }
+
+    expect(flaky.attempts).toBe(10);
+    expect(logger.getTransportHealth().flaky).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 10,
+      lastError: { message: 'flaky unavailable' }
+    });
+    await logger.destroy();
+  });
+});
\ No newline at end of file
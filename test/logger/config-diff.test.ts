@@ -0,0 +1,35 @@
+/**
+ * Unit tests for configuration diffing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffConfig, isEqualValue } from '../../src/logger/config-diff.js';
+
+describe('diffConfig', () => {
+  it('lists keys whose values differ', () => {
+    expect(diffConfig(
+      { level: 'info', sampling: { debug: 1 }, component: 'app' },
+      { level: 'debug', sampling: { debug: 1 }, captureConsoleErrors: true }
+    )).toEqual(['level', 'component', 'captureConsoleErrors']);
+  });
+
+  it('treats missing keys and undefined values as equal', () => {
+    expect(diffConfig({ level: undefined }, {})).toEqual([]);
+  });
+});
+
+describe('isEqualValue', () => {
+  it('compares objects, arrays and regular expressions structurally', () => {
+    expect(isEqualValue({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(isEqualValue([1, 2], [2, 1])).toBe(false);
+    expect(isEqualValue(/ab+c/gi, /ab+c/gi)).toBe(true);
+    expect(isEqualValue(/ab+c/g, /ab+c/i)).toBe(false);
+  });
+
+  it('compares functions and class instances by identity', () => {
+    const predicate = () => true;
+    expect(isEqualValue(predicate, predicate)).toBe(true);
+    expect(isEqualValue(predicate, () => true)).toBe(false);
+    expect(isEqualValue(new Date(0), new Date(0))).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for the logger configuration schema and validator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LOGGER_CONFIG_SCHEMA, validateSchema, type JsonSchema } from '../../src/logger/config-schema.js';
+
+describe('validateSchema', () => {
+  it('accepts a valid configuration', () => {
+    expect(validateSchema({
+      level: 'debug',
+      sampling: { debug: 0.5 },
+      redaction: { mode: 'strict', patterns: [{ pattern: 'ORD-\\d+', flags: 'gi', replacement: '<order>' }] },
+      dedupe: true,
+      queue: { maxSize: 500, overflow: 'drop-below' },
+      routes: { sendbeacon: { minLevel: 'warn', excludeComponents: ['payments'] } },
+      transports: [{ type: 'console' }]
+    }, LOGGER_CONFIG_SCHEMA)).toEqual([]);
+  });
+
+  it('reports every problem with the path of the offending value', () => {
+    expect(validateSchema({
+      level: 3,
+      sampling: { debug: 2 },
+      queue: { maxSize: 0, overflow: 'drop-all' },
+      redaction: { patterns: [{ pattern: '(unclosed', flags: 'x' }] },
+      transports: [{}],
+      colour: 'red'
+    }, LOGGER_CONFIG_SCHEMA)).toEqual([
+      'level must be a string',
+      'sampling.debug must be <= 1',
+      'queue.maxSize must be >= 1',
+      'queue.overflow must be one of "drop-oldest", "drop-newest", "block", "drop-below"',
+      'redaction.patterns[0].replacement is required',
+      'redaction.patterns[0].pattern must be a valid regular expression',
+      'redaction.patterns[0].flags must match ^[dgimsuy]*$',
+      'transports[0].type is required',
+      'colour is not a known option'
+    ]);
+  });
+
+  it('applies keywords only to values of the type they describe', () => {
+    const schema: JsonSchema = { type: ['boolean', 'object'], properties: { windowMs: { type: 'number', exclusiveMinimum: 0 } } };
+
+    expect(validateSchema(true, schema)).toEqual([]);
+    expect(validateSchema({ windowMs: 0 }, schema, 'dedupe')).toEqual(['dedupe.windowMs must be > 0']);
+    expect(validateSchema('yes', schema, 'dedupe')).toEqual(['dedupe must be a boolean or an object']);
+  });
+
+  it('applies conditional schemas when their condition holds', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      allOf: [{
+        if: { properties: { type: { const: 'beacon' } }, required: ['type'] },
+        then: { required: ['endpoint'] }
+      }]
+    };
+
+    expect(validateSchema({ type: 'beacon' }, schema)).toEqual(['endpoint is required']);
+    expect(validateSchema({ type: 'console' }, schema)).toEqual([]);
+  });
+});
\ No newline at end of file
@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ContextManager } from '../../src/logger/context-manager.js';
+import type { SpanHandle } from '../../src/logger/types.js';
 
 describe('ContextManager', () => {
   let manager: ContextManager;
@@ -137,6 +138,26 @@ describe('ContextManager', () => {
     });
   });
 
+  describe('Active Spans', () => {
+    it('tracks the innermost active span and deactivates out of order', () => {
+      const outer = { traceId: 't', spanId: 'outer' } as SpanHandle;
+      const inner = { traceId: 't', spanId: 'inner' } as SpanHandle;
+
+      expect(manager.getActiveSpan()).toBeUndefined();
+
+      const deactivateOuter = manager.pushSpan(outer);
+      const deactivateInner = manager.pushSpan(inner);
+      expect(manager.getActiveSpan()).toBe(inner);
+
+      deactivateOuter();
+      expect(manager.getActiveSpan()).toBe(inner);
+
+      deactivateInner();
+      deactivateInner();
+      expect(manager.getActiveSpan()).toBeUndefined();
+    });
+  });
+
   describe('Temporary Context Execution', () => {
     it('executes function with temporary context', () => {
       manager.add({ userId: '123' });
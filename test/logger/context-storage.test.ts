@@ -0,0 +1,213 @@
+/**
+ * Unit tests for pluggable context storage strategies
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  SyncContextStorage,
+  AsyncLocalContextStorage,
+  ZoneContextStorage,
+  createContextStorage,
+  detectAsyncLocalStorage
+} from '../../src/logger/context-storage.js';
+import { ContextManager } from '../../src/logger/context-manager.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import type { ContextStorage, LogEventData } from '../../src/logger/types.js';
+
+class MockTransport {
+  public writeCalls: LogEventData[] = [];
+  public name = 'mock-transport';
+
+  write(eventData: LogEventData) {
+    this.writeCalls.push(eventData);
+  }
+
+  flush() {}
+  close() {}
+}
+
+/** Minimal Zone.js stand-in: zones inherit properties and run() switches Zone.current */
+class FakeZone {
+  static current = new FakeZone({});
+
+  constructor(private readonly properties: Record<string, unknown>) {}
+
+  get(key: string): unknown {
+    return this.properties[key];
+  }
+
+  fork(spec: { properties?: Record<string, unknown> }): FakeZone {
+    return new FakeZone({ ...this.properties, ...spec.properties });
+  }
+
+  run<T>(fn: () => T): T {
+    const previous = FakeZone.current;
+    FakeZone.current = this;
+    try {
+      return fn();
+    } finally {
+      FakeZone.current = previous;
+    }
+  }
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Run two overlapping async scopes and report the context each saw after awaiting
+ */
+async function runConcurrentScopes(manager: ContextManager): Promise<unknown[]> {
+  const seen: unknown[] = [];
+  await Promise.all(['a', 'b'].map((requestId, index) =>
+    manager.withContextAsync({ requestId }, async () => {
+      await tick();
+      if (index === 1) await tick();
+      seen[index] = manager.get('requestId');
+    })
+  ));
+  return seen;
+}
+
+describe('SyncContextStorage', () => {
+  it('keeps frames visible until a sync function returns or throws', () => {
+    const storage = new SyncContextStorage();
+    const frame = { context: { id: 1 } };
+
+    expect(storage.run(frame, () => storage.getFrames().length)).toBe(1);
+    expect(() => storage.run(frame, () => {
+      throw new Error('boom');
+    })).toThrow('boom');
+    expect(storage.getFrames()).toEqual([]);
+  });
+
+  it('keeps frames visible until a promise settles', async () => {
+    const storage = new SyncContextStorage();
+    const pending = storage.run({ context: { id: 1 } }, () => tick());
+
+    expect(storage.getFrames()).toHaveLength(1);
+    await pending;
+    expect(storage.getFrames()).toHaveLength(0);
+
+    await expect(storage.run({}, () => Promise.reject(new Error('rejected')))).rejects.toThrow('rejected');
+    expect(storage.getFrames()).toHaveLength(0);
+  });
+
+  it('shares context between concurrent async scopes', async () => {
+    const seen = await runConcurrentScopes(new ContextManager({}, undefined, new SyncContextStorage()));
+
+    // The shared stack leaks 'b' into the first scope
+    expect(seen).toEqual(['b', 'b']);
+  });
+});
+
+describe('AsyncLocalContextStorage', () => {
+  it('isolates concurrent withContextAsync scopes', async () => {
+    const seen = await runConcurrentScopes(new ContextManager({}, undefined, new AsyncLocalContextStorage()));
+
+    expect(seen).toEqual(['a', 'b']);
+  });
+
+  it('inherits outer frames and scopes pushes to the current chain', async () => {
+    const manager = new ContextManager({ service: 'api' }, undefined, new AsyncLocalContextStorage());
+    manager.push({ tenant: 't1' });
+
+    await manager.withContextAsync({ requestId: 'r1' }, async () => {
+      manager.push({ step: 'load' });
+      await tick();
+      expect(manager.getContext()).toEqual({ service: 'api', tenant: 't1', requestId: 'r1', step: 'load' });
+    });
+
+    expect(manager.getContext()).toEqual({ service: 'api', tenant: 't1' });
+  });
+
+  it('accepts an injected AsyncLocalStorage class', () => {
+    const AsyncLocalStorageClass = detectAsyncLocalStorage()!;
+    const storage = new AsyncLocalContextStorage(AsyncLocalStorageClass);
+
+    expect(storage.run({ context: { id: 1 } }, () => storage.getFrames())).toEqual([{ context: { id: 1 } }]);
+    expect(storage.fork()).toBeInstanceOf(AsyncLocalContextStorage);
+  });
+});
+
+describe('ZoneContextStorage', () => {
+  afterEach(() => {
+    delete (globalThis as { Zone?: unknown }).Zone;
+  });
+
+  it('throws when Zone.js is not loaded', () => {
+    expect(() => new ZoneContextStorage()).toThrow('Zone.js is not available');
+  });
+
+  it('stores frames in forked zones', () => {
+    (globalThis as { Zone?: unknown }).Zone = FakeZone;
+    const manager = new ContextManager({}, undefined, new ZoneContextStorage());
+
+    const inner = manager.withContext({ requestId: 'a' }, () =>
+      manager.withContext({ step: 1 }, () => manager.getContext())
+    );
+
+    expect(inner).toEqual({ requestId: 'a', step: 1 });
+    expect(manager.getContext()).toEqual({});
+  });
+});
+
+describe('createContextStorage()', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete (globalThis as { Zone?: unknown }).Zone;
+  });
+
+  it('creates built-in strategies by name', () => {
+    expect(createContextStorage('sync').name).toBe('sync');
+    expect(createContextStorage('async-local').name).toBe('async-local');
+    expect(createContextStorage('auto').name).toBe('async-local');
+  });
+
+  it('returns custom storage instances as-is', () => {
+    const custom: ContextStorage = new SyncContextStorage();
+    expect(createContextStorage(custom)).toBe(custom);
+  });
+
+  it('falls back to Zone.js and then the sync stack without AsyncLocalStorage', () => {
+    vi.spyOn(globalThis.process, 'getBuiltinModule').mockReturnValue(undefined as never);
+
+    expect(detectAsyncLocalStorage()).toBeUndefined();
+    expect(createContextStorage('auto').name).toBe('sync');
+    expect(() => createContextStorage('async-local')).toThrow('AsyncLocalStorage is not available');
+
+    (globalThis as { Zone?: unknown }).Zone = FakeZone;
+    expect(createContextStorage('auto').name).toBe('zone');
+  });
+
+  it('rejects unknown strategies', () => {
+    expect(() => createContextStorage('threads' as never)).toThrow(TypeError);
+  });
+});
+
+describe('LoggerImpl context storage', () => {
+  it('uses the configured strategy', () => {
+    const logger = new LoggerImpl({ contextStorage: 'sync' });
+    const manager = (logger as unknown as { contextManager: ContextManager }).contextManager;
+
+    expect(manager.storageName).toBe('sync');
+  });
+
+  it('isolates concurrent withSpan() scopes per async call chain', async () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({ contextStorage: 'async-local', transports: [transport] });
+
+    const spanIds = await Promise.all(['first', 'second'].map((name, index) =>
+      logger.withSpan(name, async span => {
+        await tick();
+        if (index === 0) await tick();
+        logger.info(name);
+        return span.spanId;
+      })
+    ));
+
+    const messages = transport.writeCalls.filter(call => !call.message.startsWith('Metric: '));
+    expect(messages.find(call => call.message === 'first')?.spanId).toBe(spanIds[0]);
+    expect(messages.find(call => call.message === 'second')?.spanId).toBe(spanIds[1]);
+    expect(logger.getActiveSpan()).toBeUndefined();
+  });
+});
\ No newline at end of file
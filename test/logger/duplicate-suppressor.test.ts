@@ -0,0 +1,156 @@
+/**
+ * Unit tests for duplicate-message suppression
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DuplicateSuppressor } from '../../src/logger/duplicate-suppressor.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import type { LogEventData } from '../../src/logger/types.js';
+
+class MockTransport {
+  public writeCalls: LogEventData[] = [];
+  public name = 'mock-transport';
+
+  write(eventData: LogEventData) {
+    this.writeCalls.push(eventData);
+  }
+
+  flush() {}
+  close() {}
+}
+
+const createEvent = (message: string, overrides: Partial<LogEventData> = {}): LogEventData => ({
+  level: 'warn',
+  message,
+  timestamp: Date.now(),
+  context: {},
+  args: [],
+  component: 'render',
+  logger: 'test',
+  ...overrides
+});
+
+describe('DuplicateSuppressor', () => {
+  let summaries: LogEventData[];
+  let suppressor: DuplicateSuppressor;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    summaries = [];
+    suppressor = new DuplicateSuppressor({ windowMs: 1000, maxEntries: 2 }, summary => summaries.push(summary));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('forwards the first occurrence and summarizes the rest when the window closes', () => {
+    expect(suppressor.isDuplicate(createEvent('Frame dropped'))).toBe(false);
+    const first = Date.now();
+    vi.advanceTimersByTime(100);
+    expect(suppressor.isDuplicate(createEvent('Frame dropped'))).toBe(true);
+    vi.advanceTimersByTime(100);
+    expect(suppressor.isDuplicate(createEvent('Frame dropped'))).toBe(true);
+    const last = Date.now();
+
+    expect(summaries).toHaveLength(0);
+    vi.advanceTimersByTime(800);
+
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0]).toMatchObject({
+      level: 'warn',
+      component: 'render',
+      message: 'Frame dropped (repeated 2 times)',
+      repeated: { count: 2, firstTimestamp: first, lastTimestamp: last }
+    });
+    expect(suppressor.size).toBe(0);
+    expect(suppressor.isDuplicate(createEvent('Frame dropped'))).toBe(false);
+  });
+
+  it('fingerprints by level, component, message and template', () => {
+    suppressor.isDuplicate(createEvent('Frame dropped'));
+
+    expect(suppressor.isDuplicate(createEvent('Frame dropped', { level: 'error' }))).toBe(false);
+    expect(suppressor.isDuplicate(createEvent('Frame dropped', { component: 'audio' }))).toBe(false);
+    suppressor.flush();
+    suppressor.isDuplicate(createEvent('Took 5ms', { messageTemplate: 'Took %dms' }));
+    expect(suppressor.isDuplicate(createEvent('Took 5ms', { context: { other: true }, messageTemplate: 'Took %dms' }))).toBe(true);
+  });
+
+  it('emits summaries on flush and only for suppressed events', () => {
+    suppressor.isDuplicate(createEvent('once'));
+    suppressor.isDuplicate(createEvent('twice'));
+    suppressor.isDuplicate(createEvent('twice'));
+
+    suppressor.flush();
+
+    expect(summaries.map(summary => summary.message)).toEqual(['twice (repeated 1 time)']);
+    vi.advanceTimersByTime(1000);
+    expect(summaries).toHaveLength(1);
+  });
+
+  it('closes the oldest window when tracking too many fingerprints', () => {
+    suppressor.isDuplicate(createEvent('a'));
+    suppressor.isDuplicate(createEvent('a'));
+    suppressor.isDuplicate(createEvent('b'));
+    suppressor.isDuplicate(createEvent('c'));
+
+    expect(summaries.map(summary => summary.message)).toEqual(['a (repeated 1 time)']);
+    expect(suppressor.size).toBe(2);
+  });
+
+  it('rejects invalid windows', () => {
+    expect(() => new DuplicateSuppressor({ windowMs: 0 }, () => {})).toThrow(TypeError);
+  });
+});
+
+describe('LoggerImpl dedupe', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('collapses repeated messages across child loggers and summarizes on flush()', async () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({ dedupe: { windowMs: 5000 }, transports: [transport] });
+    const child = logger.withContext({ frame: 1 });
+
+    for (let i = 0; i < 1000; i++) {
+      child.warn('Missing key prop');
+    }
+    logger.info('Unrelated event');
+    logger.exception(new Error('render failed'));
+    logger.exception(new Error('render failed'));
+    await logger.flush();
+
+    expect(transport.writeCalls.map(call => call.message)).toEqual([
+      'Missing key prop',
+      'Unrelated event',
+      'render failed',
+      'Missing key prop (repeated 999 times)',
+      'render failed (repeated 1 time)'
+    ]);
+    expect(transport.writeCalls[3].context).toEqual({ frame: 1 });
+  });
+
+  it('summarizes when the window closes', () => {
+    vi.useFakeTimers();
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({ dedupe: true, transports: [transport] });
+
+    logger.warn('Slow frame');
+    logger.warn('Slow frame');
+    vi.advanceTimersByTime(1000);
+
+    expect(transport.writeCalls[1]).toMatchObject({ message: 'Slow frame (repeated 1 time)', repeated: { count: 1 } });
+  });
+
+  it('is disabled by default', () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({ transports: [transport] });
+
+    logger.warn('Slow frame');
+    logger.warn('Slow frame');
+
+    expect(transport.writeCalls).toHaveLength(2);
+  });
+});
\ No newline at end of file
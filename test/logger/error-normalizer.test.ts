@@ -0,0 +1,76 @@
+/**
+ * Unit tests for error normalization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeError, isErrorLike } from '../../src/logger/error-normalizer.js';
+
+describe('normalizeError', () => {
+  it('normalizes Error instances', () => {
+    const error = new TypeError('x is not a function');
+    const normalized = normalizeError(error);
+
+    expect(normalized.name).toBe('TypeError');
+    expect(normalized.message).toBe('x is not a function');
+    expect(normalized.stack).toBe(error.stack);
+  });
+
+  it('uses the constructor name for custom errors without a name', () => {
+    class PaymentError extends Error {}
+    const error = new PaymentError('declined');
+    error.name = '';
+
+    expect(normalizeError(error).name).toBe('PaymentError');
+  });
+
+  it('falls back to a default message for empty errors', () => {
+    expect(normalizeError(new Error('')).message).toBe('Unknown error');
+  });
+
+  it('normalizes DOMException', () => {
+    const exception = new globalThis.DOMException('The operation was aborted.', 'AbortError');
+    const normalized = normalizeError(exception);
+
+    expect(normalized.name).toBe('AbortError');
+    expect(normalized.message).toBe('The operation was aborted.');
+  });
+
+  it('normalizes error-like objects from other realms', () => {
+    const normalized = normalizeError({ name: 'NetworkError', message: 'offline', stack: 'NetworkError: offline' });
+
+    expect(normalized).toEqual({ name: 'NetworkError', message: 'offline', stack: 'NetworkError: offline' });
+  });
+
+  it('normalizes strings', () => {
+    expect(normalizeError('timeout')).toEqual({ name: 'Error', message: 'timeout' });
+    expect(normalizeError('')).toEqual({ name: 'Error', message: 'Unknown error' });
+  });
+
+  it('normalizes plain objects', () => {
+    expect(normalizeError({ code: 500 })).toEqual({ name: 'Error', message: '{"code":500}' });
+    expect(normalizeError({})).toEqual({ name: 'Error', message: 'Unknown error' });
+  });
+
+  it('handles circular objects without throwing', () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    expect(normalizeError(circular)).toEqual({ name: 'Error', message: 'Unknown error' });
+  });
+
+  it('normalizes primitives', () => {
+    expect(normalizeError(42).message).toBe('42');
+    expect(normalizeError(null).message).toBe('null');
+    expect(normalizeError(undefined).message).toBe('undefined');
+  });
+});
+
+describe('isErrorLike', () => {
+  it('detects objects with a string message', () => {
+    expect(isErrorLike(new Error('x'))).toBe(true);
+    expect(isErrorLike({ message: 'x' })).toBe(true);
+    expect(isErrorLike({ message: 1 })).toBe(false);
+    expect(isErrorLike('x')).toBe(false);
+    expect(isErrorLike(null)).toBe(false);
+  });
+});
\ No newline at end of file
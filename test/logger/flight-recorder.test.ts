@@ -0,0 +1,146 @@
+/**
+ * Unit tests for the flight recorder ring buffer
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { FlightRecorder } from '../../src/logger/flight-recorder.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import type { LogEventData } from '../../src/logger/types.js';
+
+class MockTransport {
+  public writeCalls: LogEventData[] = [];
+  public name = 'mock-transport';
+
+  write(eventData: LogEventData) {
+    this.writeCalls.push(eventData);
+  }
+
+  flush() {}
+  close() {}
+}
+
+const createEvent = (message: string, level: LogEventData['level'] = 'debug'): LogEventData => ({
+  level,
+  message,
+  timestamp: Date.now(),
+  context: {},
+  args: [],
+  component: 'test',
+  logger: 'test'
+});
+
+describe('FlightRecorder', () => {
+  it('keeps the most recent events within the event limit', () => {
+    const recorder = new FlightRecorder({ maxEvents: 2 });
+
+    recorder.record(createEvent('one'), false);
+    recorder.record(createEvent('two'), false);
+    recorder.record(createEvent('three'), true);
+    recorder.record(createEvent('four'), false);
+
+    expect(recorder.size).toBe(2);
+    expect(recorder.drain().map(event => event.message)).toEqual(['four']);
+    expect(recorder.size).toBe(0);
+    expect(recorder.bytes).toBe(0);
+  });
+
+  it('evicts the oldest events beyond the byte limit', () => {
+    const recorder = new FlightRecorder({ maxBytes: 600 });
+
+    recorder.record(createEvent('a'.repeat(200)), false);
+    recorder.record(createEvent('b'.repeat(200)), false);
+    recorder.record(createEvent('c'.repeat(2000)), false);
+
+    expect(recorder.drain().map(event => event.message[0])).toEqual(['b']);
+  });
+
+  it('triggers at the configured level or with a custom trigger', () => {
+    expect(new FlightRecorder().isTrigger(createEvent('x', 'error'))).toBe(true);
+    expect(new FlightRecorder().isTrigger(createEvent('x', 'warn'))).toBe(false);
+    expect(new FlightRecorder({ triggerLevel: 'warn' }).isTrigger(createEvent('x', 'warn'))).toBe(true);
+    expect(new FlightRecorder({ trigger: event => event.message === 'crash' }).isTrigger(createEvent('crash'))).toBe(true);
+    expect(() => new FlightRecorder({ maxEvents: 0 })).toThrow(TypeError);
+    expect(() => new FlightRecorder({ triggerLevel: 'loud' })).toThrow('Invalid log level: loud');
+  });
+
+  it('does not trigger when the custom trigger throws', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const recorder = new FlightRecorder({ trigger: () => { throw new Error('bad trigger'); } });
+
+    expect(recorder.isTrigger(createEvent('x', 'error'))).toBe(false);
+    expect(warn).toHaveBeenCalledWith('Lever UI Logger: flight recorder trigger threw:', expect.any(Error));
+    warn.mockRestore();
+  });
+});
+
+describe('LoggerImpl flight recorder', () => {
+  it('writes filtered events tagged with the triggering event ID when an error is logged', () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({ level: 'warn', flightRecorder: true, transports: [transport] });
+    const child = logger.withContext({ requestId: 'r1' });
+
+    child.debug('Loading cart');
+    logger.info('Cart loaded', { items: 3 });
+    logger.warn('Slow response');
+    child.error('Checkout failed');
+
+    const messages = transport.writeCalls.map(call => call.message);
+    expect(messages).toEqual(['Slow response', 'Loading cart', 'Cart loaded', 'Checkout failed']);
+
+    const trigger = transport.writeCalls[3];
+    expect(trigger.id).toMatch(/^[0-9a-f]{16}$/);
+    expect(transport.writeCalls[1]).toMatchObject({ level: 'debug', context: { requestId: 'r1' }, triggeredBy: trigger.id });
+    expect(transport.writeCalls[2]).toMatchObject({ level: 'info', context: { items: 3 }, triggeredBy: trigger.id });
+    expect(transport.writeCalls[0].triggeredBy).toBeUndefined();
+  });
+
+  it('dumps each buffered event only once and on exception()', () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({ level: 'error', flightRecorder: { maxEvents: 10 }, transports: [transport] });
+
+    logger.debug('step 1');
+    logger.exception(new Error('first'));
+    logger.exception(new Error('second'));
+
+    expect(transport.writeCalls.map(call => call.message)).toEqual(['step 1', 'first', 'second']);
+    expect(transport.writeCalls[0].triggeredBy).toBe(transport.writeCalls[1].id);
+  });
+
+  it('counts dumped events in the pipeline stats', () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({ level: 'warn', flightRecorder: true, transports: [transport] });
+
+    logger.debug('step 1');
+    logger.info('step 2');
+    logger.error('failure');
+
+    expect(logger.getStats().events).toEqual({ debug: 1, info: 1, error: 1 });
+  });
+
+  it('keeps logging when the custom trigger throws', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({
+      level: 'warn',
+      flightRecorder: { trigger: () => { throw new Error('bad trigger'); } },
+      transports: [transport]
+    });
+
+    logger.debug('step 1');
+    logger.error('failure');
+
+    expect(transport.writeCalls.map(call => call.message)).toEqual(['failure']);
+    warn.mockRestore();
+  });
+
+  it('does not record when disabled', () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({ level: 'warn', transports: [transport] });
+
+    logger.debug('hidden');
+    logger.error('failure');
+
+    expect(transport.writeCalls.map(call => call.message)).toEqual(['failure']);
+    expect(transport.writeCalls[0].id).toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,420 @@
+/**
+ * Unit tests for GlobalErrorCapture and its LoggerImpl integration
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  GlobalErrorCapture,
+  suppressErrorCapture,
+  isErrorCaptureSuppressed
+} from '../../src/logger/global-error-capture.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import { ConsoleTransport } from '../../src/transports/console-transport.js';
+import type { LogEventData, ErrorData } from '../../src/logger/types.js';
+
+class MockTransport {
+  public writeCalls: LogEventData[] = [];
+
+  constructor(public name: string = 'mock-transport') {}
+
+  write(eventData: LogEventData) {
+    this.writeCalls.push(eventData);
+  }
+
+  flush() {}
+  close() {}
+}
+
+const ALL_SOURCES = {
+  unhandledErrors: true,
+  unhandledRejections: true,
+  consoleErrors: true
+};
+
+describe('GlobalErrorCapture', () => {
+  let originalConsoleError: typeof console.error;
+
+  beforeEach(() => {
+    originalConsoleError = console.error;
+    console.error = vi.fn();
+  });
+
+  afterEach(() => {
+    console.error = originalConsoleError;
+  });
+
+  describe('Installation', () => {
+    it('reports whether any source is enabled', () => {
+      const none = new GlobalErrorCapture(
+        { unhandledErrors: false, unhandledRejections: false, consoleErrors: false },
+        vi.fn()
+      );
+      const some = new GlobalErrorCapture(
+        { unhandledErrors: false, unhandledRejections: true, consoleErrors: false },
+        vi.fn()
+      );
+
+      expect(none.isEnabled).toBe(false);
+      expect(some.isEnabled).toBe(true);
+    });
+
+    it('installs and uninstalls idempotently', () => {
+      const capture = new GlobalErrorCapture(ALL_SOURCES, vi.fn());
+
+      capture.install();
+      capture.install();
+      expect(capture.isInstalled).toBe(true);
+
+      capture.uninstall();
+      capture.uninstall();
+      expect(capture.isInstalled).toBe(false);
+    });
+
+    it('restores console.error on uninstall', () => {
+      const before = console.error;
+      const capture = new GlobalErrorCapture(ALL_SOURCES, vi.fn());
+
+      capture.install();
+      expect(console.error).not.toBe(before);
+
+      capture.uninstall();
+      expect(console.error).toBe(before);
+    });
+  });
+
+  describe('Browser events', () => {
+    it('captures window error events', () => {
+      const handler = vi.fn();
+      const capture = new GlobalErrorCapture(ALL_SOURCES, handler);
+      capture.install();
+
+      const error = new Error('Boom');
+      const event = new window.ErrorEvent('error', {
+        error,
+        message: 'Boom',
+        filename: 'app.js',
+        lineno: 10,
+        colno: 5
+      });
+      window.dispatchEvent(event);
+
+      expect(handler).toHaveBeenCalledWith(error, expect.objectContaining({
+        source: 'window.onerror',
+        filename: 'app.js',
+        lineno: 10,
+        colno: 5
+      }));
+
+      capture.uninstall();
+    });
+
+    it('captures unhandledrejection events', () => {
+      const handler = vi.fn();
+      const capture = new GlobalErrorCapture(ALL_SOURCES, handler);
+      capture.install();
+
+      const event = new window.Event('unhandledrejection');
+      Object.assign(event, { reason: 'rejected' });
+      window.dispatchEvent(event);
+
+      expect(handler).toHaveBeenCalledWith('rejected', { source: 'window.unhandledrejection' });
+
+      capture.uninstall();
+    });
+
+    it('stops capturing after uninstall', () => {
+      const handler = vi.fn();
+      const capture = new GlobalErrorCapture(ALL_SOURCES, handler);
+      capture.install();
+      capture.uninstall();
+
+      window.dispatchEvent(new window.ErrorEvent('error', { message: 'late' }));
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Node.js process events', () => {
+    it('captures uncaught exceptions and unhandled rejections', () => {
+      const handler = vi.fn();
+      const capture = new GlobalErrorCapture(ALL_SOURCES, handler);
+      capture.install();
+
+      const error = new Error('uncaught');
+      globalThis.process.emit('uncaughtExceptionMonitor' as any, error);
+      globalThis.process.emit('unhandledRejection' as any, 'reason', Promise.resolve());
+
+      expect(handler).toHaveBeenCalledWith(error, { source: 'process.uncaughtException' });
+      expect(handler).toHaveBeenCalledWith('reason', { source: 'process.unhandledRejection' });
+
+      capture.uninstall();
+    });
+
+    it('removes process listeners on uninstall', () => {
+      const before = globalThis.process.listenerCount('unhandledRejection');
+      const capture = new GlobalErrorCapture(ALL_SOURCES, vi.fn());
+
+      capture.install();
+      expect(globalThis.process.listenerCount('unhandledRejection')).toBe(before + 1);
+
+      capture.uninstall();
+      expect(globalThis.process.listenerCount('unhandledRejection')).toBe(before);
+    });
+
+    it('keeps Node\'s crash on unhandled rejections when nothing else listens', () => {
+      const handler = vi.fn();
+      const capture = new GlobalErrorCapture(ALL_SOURCES, handler);
+      const other = new GlobalErrorCapture(ALL_SOURCES, handler);
+      capture.install();
+      other.install();
+      const ours = globalThis.process.listeners('unhandledRejection').slice(-2);
+      const monitor = globalThis.process.listeners('uncaughtExceptionMonitor').slice(-2);
+      vi.spyOn(globalThis.process, 'listeners').mockReturnValue(ours);
+
+      // Like Node, every listener runs first and only the last one rethrows
+      expect(() => ours[0]('timeout', Promise.resolve())).not.toThrow();
+      let thrown: unknown;
+      try {
+        ours[1]('timeout', Promise.resolve());
+      } catch (error) {
+        thrown = error;
+      }
+      expect(thrown).toMatchObject({ code: 'ERR_UNHANDLED_REJECTION' });
+      expect(String((thrown as Error).message)).toContain('reason "timeout"');
+
+      const error = new Error('rejected');
+      expect(() => ours[1](error, Promise.resolve())).toThrow(error);
+      // The rethrown rejection reaches the exception monitor without being captured again
+      monitor.forEach(listener => listener(error, 'uncaughtException'));
+      expect(handler).toHaveBeenCalledTimes(3);
+
+      vi.restoreAllMocks();
+      capture.uninstall();
+      other.uninstall();
+    });
+
+    it('leaves unhandled rejections alone when the app listens or another mode is set', () => {
+      const capture = new GlobalErrorCapture(ALL_SOURCES, vi.fn());
+      capture.install();
+      const ours = globalThis.process.listeners('unhandledRejection').at(-1)!;
+      const appListener = vi.fn();
+
+      vi.spyOn(globalThis.process, 'listeners').mockReturnValue([appListener, ours]);
+      expect(() => ours('reason', Promise.resolve())).not.toThrow();
+
+      const { execArgv } = globalThis.process;
+      vi.spyOn(globalThis.process, 'listeners').mockReturnValue([ours]);
+      globalThis.process.execArgv = ['--unhandled-rejections=warn'];
+      try {
+        expect(() => ours('reason', Promise.resolve())).not.toThrow();
+      } finally {
+        globalThis.process.execArgv = execArgv;
+        vi.restoreAllMocks();
+        capture.uninstall();
+      }
+    });
+  });
+
+  describe('console.error interception', () => {
+    it('forwards to the original method and captures the call', () => {
+      const original = console.error;
+      const handler = vi.fn();
+      const capture = new GlobalErrorCapture(ALL_SOURCES, handler);
+      capture.install();
+
+      const error = new Error('console failure');
+      console.error('Request failed', error);
+
+      expect(original).toHaveBeenCalledWith('Request failed', error);
+      expect(handler).toHaveBeenCalledWith(error, {
+        source: 'console.error',
+        consoleMessage: 'Request failed'
+      });
+
+      capture.uninstall();
+    });
+
+    it('captures plain string messages', () => {
+      const handler = vi.fn();
+      const capture = new GlobalErrorCapture(ALL_SOURCES, handler);
+      capture.install();
+
+      console.error('Something broke', { code: 42 });
+
+      expect(handler).toHaveBeenCalledWith('Something broke {"code":42}', { source: 'console.error' });
+
+      capture.uninstall();
+    });
+
+    it('does not capture while suppressed', () => {
+      const handler = vi.fn();
+      const capture = new GlobalErrorCapture(ALL_SOURCES, handler);
+      capture.install();
+
+      suppressErrorCapture(() => {
+        expect(isErrorCaptureSuppressed()).toBe(true);
+        console.error('internal');
+      });
+
+      expect(isErrorCaptureSuppressed()).toBe(false);
+      expect(handler).not.toHaveBeenCalled();
+
+      capture.uninstall();
+    });
+
+    it('does not recurse when the handler writes through console.error', () => {
+      const handler = vi.fn(() => console.error('from handler'));
+      const capture = new GlobalErrorCapture(ALL_SOURCES, handler);
+      capture.install();
+
+      console.error('outer');
+
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      capture.uninstall();
+    });
+
+    it('swallows handler exceptions', () => {
+      const capture = new GlobalErrorCapture(ALL_SOURCES, () => {
+        throw new Error('handler failed');
+      });
+      capture.install();
+
+      expect(() => console.error('oops')).not.toThrow();
+
+      capture.uninstall();
+    });
+  });
+});
+
+describe('LoggerImpl global error capture', () => {
+  let originalConsoleError: typeof console.error;
+  let transport: MockTransport;
+
+  beforeEach(() => {
+    originalConsoleError = console.error;
+    console.error = vi.fn();
+    transport = new MockTransport();
+  });
+
+  afterEach(() => {
+    console.error = originalConsoleError;
+  });
+
+  it('does not install hooks by default', async () => {
+    const before = console.error;
+    const logger = new LoggerImpl({ transports: [transport] });
+
+    expect(console.error).toBe(before);
+    await logger.destroy();
+  });
+
+  it('logs captured errors as unhandled ErrorData', async () => {
+    const logger = new LoggerImpl({
+      component: 'app',
+      defaultContext: { release: '1.2.3' },
+      captureUnhandledErrors: true,
+      transports: [transport]
+    });
+
+    const error = new TypeError('Cannot read properties of undefined');
+    window.dispatchEvent(new window.ErrorEvent('error', { error, filename: 'main.js' }));
+
+    expect(transport.writeCalls).toHaveLength(1);
+    const event = transport.writeCalls[0];
+    expect(event).toMatchObject({
+      level: 'error',
+      message: 'Cannot read properties of undefined',
+      component: 'app',
+      context: { release: '1.2.3', source: 'window.onerror', filename: 'main.js' }
+    });
+
+    const errorData = event.error as ErrorData;
+    expect(errorData).toMatchObject({
+      name: 'TypeError',
+      message: 'Cannot read properties of undefined',
+      handled: false,
+      component: 'app'
+    });
+    expect(errorData.stack).toContain('TypeError');
+
+    await logger.destroy();
+  });
+
+  it('captures unhandled rejections with non-Error reasons', async () => {
+    const logger = new LoggerImpl({
+      captureUnhandledRejections: true,
+      transports: [transport]
+    });
+
+    globalThis.process.emit('unhandledRejection' as any, 'timeout', Promise.resolve());
+
+    expect(transport.writeCalls).toHaveLength(1);
+    expect(transport.writeCalls[0].error).toMatchObject({
+      name: 'Error',
+      message: 'timeout',
+      handled: false
+    });
+
+    await logger.destroy();
+  });
+
+  it('redacts PII in captured errors', async () => {
+    const logger = new LoggerImpl({
+      captureConsoleErrors: true,
+      transports: [transport]
+    });
+
+    console.error(new Error('Lookup failed for user@example.com'));
+
+    expect(transport.writeCalls[0].message).toBe('Lookup failed for <email>');
+    expect(transport.writeCalls[0].error?.message).toBe('Lookup failed for <email>');
+
+    await logger.destroy();
+  });
+
+  it('does not re-capture output written by ConsoleTransport', async () => {
+    const logger = new LoggerImpl({
+      captureConsoleErrors: true,
+      transports: [transport]
+    });
+    // Created after interception, so it binds the interceptor itself
+    logger.addTransport(new ConsoleTransport({ colors: false, performanceThreshold: 1000 }));
+
+    logger.error('Explicit error');
+    console.error('Captured once');
+
+    expect(transport.writeCalls.map(e => e.message)).toEqual(['Explicit error', 'Captured once']);
+
+    await logger.destroy();
+  });
+
+  it('does not install hooks for child loggers', async () => {
+    const logger = new LoggerImpl({
+      captureConsoleErrors: true,
+      transports: [transport]
+    });
+    logger.withContext({ requestId: 'abc' });
+
+    console.error('once');
+
+    expect(transport.writeCalls).toHaveLength(1);
+
+    await logger.destroy();
+  });
+
+  it('uninstalls hooks on destroy', async () => {
+    const before = console.error;
+    const logger = new LoggerImpl({
+      captureUnhandledErrors: true,
+      captureConsoleErrors: true,
+      transports: [transport]
+    });
+
+    await logger.destroy();
+
+    expect(console.error).toBe(before);
+    window.dispatchEvent(new window.ErrorEvent('error', { message: 'after destroy' }));
+    expect(transport.writeCalls).toHaveLength(0);
+  });
+});
\ No newline at end of file
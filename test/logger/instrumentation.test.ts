@@ -0,0 +1,205 @@
+/**
+ * Unit tests for logger instrumentation helpers (time, timeAsync, wrap)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import { Timer } from '../../src/logger/instrumentation.js';
+import type { LogEventData, MetricData } from '../../src/logger/types.js';
+
+class MockTransport {
+  public writeCalls: LogEventData[] = [];
+  public name = 'mock-transport';
+
+  write(eventData: LogEventData) {
+    this.writeCalls.push(eventData);
+  }
+
+  flush() {}
+  close() {}
+
+  get metrics(): MetricData[] {
+    return this.writeCalls
+      .filter(call => call.message.startsWith('Metric: '))
+      .map(call => call.args[0] as MetricData);
+  }
+}
+
+describe('Timer', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1000;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports the elapsed duration once', () => {
+    const onEnd = vi.fn();
+    const timer = new Timer('op', onEnd);
+
+    now = 1250;
+    expect(timer.ended).toBe(false);
+    expect(timer.end({ items: 3 })).toBe(250);
+    expect(timer.ended).toBe(true);
+
+    now = 2000;
+    expect(timer.end()).toBe(250);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(onEnd).toHaveBeenCalledWith({ items: 3, duration: 250 });
+  });
+});
+
+describe('LoggerImpl instrumentation', () => {
+  let transport: MockTransport;
+  let logger: LoggerImpl;
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    transport = new MockTransport();
+    logger = new LoggerImpl({
+      level: 'debug',
+      component: 'orders',
+      defaultContext: { release: '2.0.0' },
+      transports: [transport]
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('time()', () => {
+    it('records a duration metric with context', () => {
+      const timer = logger.time('render');
+      now = 42;
+      timer.end({ widgets: 5 });
+
+      expect(transport.metrics).toHaveLength(1);
+      expect(transport.metrics[0]).toMatchObject({
+        name: 'render',
+        fields: { widgets: 5, duration: 42 },
+        context: { release: '2.0.0' },
+        component: 'orders'
+      });
+    });
+  });
+
+  describe('timeAsync()', () => {
+    it('records duration and success for resolved functions', async () => {
+      const result = await logger.timeAsync('fetch', async () => {
+        now = 15;
+        return 'data';
+      }, { endpoint: '/users' });
+
+      expect(result).toBe('data');
+      expect(transport.metrics[0].fields).toEqual({ endpoint: '/users', success: true, duration: 15 });
+    });
+
+    it('records failure and re-throws', async () => {
+      await expect(logger.timeAsync('fetch', async () => {
+        now = 7;
+        throw new TypeError('bad response');
+      })).rejects.toThrow('bad response');
+
+      expect(transport.metrics[0].fields).toEqual({ success: false, error: 'TypeError', duration: 7 });
+    });
+
+    it('accepts synchronous functions', async () => {
+      await expect(logger.timeAsync('compute', () => 3)).resolves.toBe(3);
+      expect(transport.metrics).toHaveLength(1);
+    });
+  });
+
+  describe('wrap()', () => {
+    it('logs entry, exit and duration for sync functions', () => {
+      const add = logger.wrap((a: number, b: number) => {
+        now = 3;
+        return a + b;
+      }, { name: 'add' });
+
+      expect(add(1, 2)).toBe(3);
+
+      const messages = transport.writeCalls.map(call => call.message);
+      expect(messages).toEqual(['Entering add', 'Metric: add', 'Exiting add']);
+      expect(transport.writeCalls[0].level).toBe('debug');
+      expect(transport.metrics[0].fields).toEqual({ success: true, duration: 3 });
+      expect(transport.writeCalls[2].context).toMatchObject({ function: 'add', duration: 3, success: true });
+    });
+
+    it('preserves this binding', () => {
+      const counter = {
+        count: 1,
+        increment: logger.wrap(function (this: { count: number }) {
+          return ++this.count;
+        }, { name: 'increment' })
+      };
+
+      expect(counter.increment()).toBe(2);
+    });
+
+    it('logs thrown errors and re-throws', () => {
+      const fail = logger.wrap(() => {
+        throw new Error('sync failure');
+      }, { name: 'fail', logEntryExit: false });
+
+      expect(() => fail()).toThrow('sync failure');
+
+      const errorEvent = transport.writeCalls.find(call => call.error);
+      expect(errorEvent?.error).toMatchObject({ message: 'sync failure', handled: true });
+      expect(errorEvent?.context).toMatchObject({ function: 'fail' });
+      expect(transport.metrics[0].fields).toMatchObject({ success: false });
+    });
+
+    it('instruments async functions', async () => {
+      const load = logger.wrap(async (id: string) => {
+        now = 20;
+        return { id };
+      }, { name: 'load', level: 'info' });
+
+      await expect(load('42')).resolves.toEqual({ id: '42' });
+
+      expect(transport.writeCalls.map(call => call.level)).toEqual(['info', 'info', 'info']);
+      expect(transport.metrics[0].fields).toEqual({ success: true, duration: 20 });
+    });
+
+    it('logs rejected promises', async () => {
+      const load = logger.wrap(async () => {
+        throw new Error('async failure');
+      }, { name: 'load' });
+
+      await expect(load()).rejects.toThrow('async failure');
+
+      expect(transport.writeCalls.some(call => call.error?.message === 'async failure')).toBe(true);
+      expect(transport.writeCalls.at(-1)?.message).toBe('Exiting load');
+    });
+
+    it('includes arguments only when requested', () => {
+      const withArgs = logger.wrap((value: number) => value, { name: 'withArgs', logArgs: true });
+      const withoutArgs = logger.wrap((value: number) => value, { name: 'withoutArgs' });
+
+      withArgs(5);
+      withoutArgs(6);
+
+      const entries = transport.writeCalls.filter(call => call.message.startsWith('Entering'));
+      expect(entries[0].context).toMatchObject({ args: [5] });
+      expect(entries[1].context).not.toHaveProperty('args');
+    });
+
+    it('uses the function name by default', () => {
+      function computeTotal() {
+        return 1;
+      }
+      logger.wrap(computeTotal)();
+      logger.wrap((() => () => 1)())();
+
+      expect(transport.metrics[0].name).toBe(computeTotal.name);
+      expect(transport.metrics[1].name).toBe('anonymous');
+    });
+  });
+});
\ No newline at end of file
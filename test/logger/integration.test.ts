@@ -5,7 +5,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { 
   createLogger,
-  LoggerImpl
+  LoggerImpl,
+  serializeEvent,
+  deserializeEvent
 } from '../../src/logger/index.js';
 import { ConsoleTransport } from '../../src/transports/index.js';
 import { TEST_CONSTANTS } from '../test-constants.js';
@@ -156,6 +158,30 @@ describe('Logger Integration Tests', () => {
         expect(event.context.normalData).toBe('this should not be redacted');
       }
     });
+
+    it('keeps Error, Map, Set, Date and BigInt values from logger to transport', () => {
+      const logger = createLogger({ transports: [transport1] });
+      const when = new Date('2025-01-02T03:04:05Z');
+      const failure = Object.assign(new TypeError('Card declined for user@example.com'), { orderId: 'o_42' });
+      const child = logger.withContext({ when, tags: new Set(['beta']), err: failure });
+
+      child.info('Checkout failed', { m: new Map<string, unknown>([['email', 'user@example.com'], ['total', 5n]]) }, new Map([['orderId', 'o_42']]), 5n);
+
+      const [event] = transport1.events;
+      expect(event.context.when).toEqual(when);
+      expect(event.context.tags).toEqual(new Set(['beta']));
+      expect(event.context.m).toEqual(new Map<string, unknown>([['email', '<redacted>'], ['total', 5n]]));
+      expect(event.context.err).toBeInstanceOf(TypeError);
+      expect(event.context.err.message).toBe('Card declined for <email>');
+      expect(event.context.err.orderId).toBe('o_42');
+      expect(event.args.slice(1)).toEqual([new Map([['orderId', 'o_42']]), 5n]);
+
+      const decoded = deserializeEvent(serializeEvent(event));
+      expect(decoded.context.when).toEqual(when);
+      expect(decoded.context.m).toBeInstanceOf(Map);
+      expect(decoded.context.err).toBeInstanceOf(Error);
+      expect(decoded.args[2]).toBe(5n);
+    });
   });
 
   describe('Contextual Logging Integration', () => {
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for lazy log messages and arguments
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { lazy, LazyValue, isLogMessage, resolveMessage, resolveArgs } from '../../src/logger/lazy.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import type { LogEventData } from '../../src/logger/types.js';
+
+class MockTransport {
+  public writeCalls: LogEventData[] = [];
+  public name = 'mock-transport';
+
+  write(eventData: LogEventData) {
+    this.writeCalls.push(eventData);
+  }
+
+  flush() {}
+  close() {}
+}
+
+describe('lazy helpers', () => {
+  it('resolves message functions and lazy arguments', () => {
+    const args = ['plain', lazy(() => ({ items: 3 }))];
+
+    expect(resolveMessage('text')).toBe('text');
+    expect(resolveMessage(() => 'computed')).toBe('computed');
+    expect(resolveArgs(args)).toEqual(['plain', { items: 3 }]);
+    expect(args[1]).toBeInstanceOf(LazyValue);
+  });
+
+  it('returns the same array when nothing is lazy', () => {
+    const args = [1, { a: 1 }];
+    expect(resolveArgs(args)).toBe(args);
+  });
+
+  it('describes failures instead of throwing', () => {
+    expect(resolveMessage(() => {
+      throw new Error('boom');
+    })).toBe('[Lazy message failed: Error: boom]');
+    expect(resolveArgs([lazy(() => {
+      throw new TypeError('bad');
+    })])).toEqual(['[Lazy argument failed: TypeError: bad]']);
+  });
+
+  it('validates inputs', () => {
+    expect(isLogMessage(() => 'x')).toBe(true);
+    expect(isLogMessage(42)).toBe(false);
+    expect(() => lazy('value' as any)).toThrow('lazy() requires a function');
+  });
+});
+
+describe('LoggerImpl lazy evaluation', () => {
+  it('skips message functions and lazy arguments for disabled levels', () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({ level: 'info', transports: [transport] });
+    const message = vi.fn(() => 'expensive');
+    const arg = vi.fn(() => ({ expensive: true }));
+
+    logger.debug(message, lazy(arg));
+
+    expect(message).not.toHaveBeenCalled();
+    expect(arg).not.toHaveBeenCalled();
+    expect(transport.writeCalls).toHaveLength(0);
+  });
+
+  it('skips evaluation for sampled-out logs', () => {
+    const logger = new LoggerImpl({ sampling: { info: 0 } });
+    const message = vi.fn(() => 'expensive');
+
+    logger.info(message);
+
+    expect(message).not.toHaveBeenCalled();
+  });
+
+  it('evaluates, merges and redacts lazy values for enabled levels', () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({ level: 'debug', transports: [transport] });
+
+    logger.debug(() => 'Contact user@example.com', lazy(() => ({ cartSize: 2 })), lazy(() => 'note'));
+
+    expect(transport.writeCalls[0]).toMatchObject({
+      level: 'debug',
+      message: 'Contact <email>',
+      context: { cartSize: 2 },
+      args: [{ cartSize: 2 }, 'note']
+    });
+  });
+
+  it('still rejects invalid messages', () => {
+    const logger = new LoggerImpl();
+
+    expect(() => logger.info(42 as any)).toThrow('Message must be a string or function');
+    expect(() => logger.log('info', {} as any)).toThrow(TypeError);
+  });
+});
\ No newline at end of file
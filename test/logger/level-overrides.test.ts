@@ -0,0 +1,168 @@
+/**
+ * Unit tests for runtime level overrides
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseLevelOverride, readLevelOverride } from '../../src/logger/level-overrides.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import { LoggerConfigChangedEvent } from '../../src/logger/events.js';
+import { EventBusTransport } from '../../src/transports/eventbus-transport.js';
+import type { LogEventData } from '../../src/logger/types.js';
+
+class MockTransport {
+  public writeCalls: LogEventData[] = [];
+  public configEvents: LoggerConfigChangedEvent[] = [];
+  public name = 'mock-transport';
+
+  write(eventData: LogEventData) {
+    this.writeCalls.push(eventData);
+  }
+
+  flush() {}
+  close() {}
+
+  onConfigChanged(event: LoggerConfigChangedEvent) {
+    this.configEvents.push(event);
+  }
+}
+
+const env = globalThis.process.env;
+
+function setQuery(search: string) {
+  window.history.replaceState({}, '', `/${search}`);
+}
+
+afterEach(() => {
+  setQuery('');
+  localStorage.clear();
+  delete env.LEVER_LOG;
+  delete env.LOG_LEVEL;
+  vi.restoreAllMocks();
+});
+
+describe('parseLevelOverride()', () => {
+  it('separates the global level from component rules', () => {
+    expect(parseLevelOverride('DEBUG,auth=trace app:*:db=warn')).toEqual({
+      level: 'debug',
+      levels: [['auth', 'trace'], ['app:*:db', 'warn']]
+    });
+    expect(parseLevelOverride('payments')).toEqual({ level: undefined, levels: [['payments', 'debug']] });
+  });
+
+  it('rejects invalid levels', () => {
+    expect(() => parseLevelOverride('auth=loud')).toThrow('Invalid log level: loud');
+  });
+});
+
+describe('readLevelOverride()', () => {
+  it('reads the query parameter, localStorage and environment variables', () => {
+    env.LOG_LEVEL = 'warn';
+    expect(readLevelOverride()).toMatchObject({ source: 'env', value: 'warn', level: 'warn' });
+
+    env.LEVER_LOG = 'error';
+    expect(readLevelOverride()).toMatchObject({ source: 'env', level: 'error' });
+
+    localStorage.setItem('lever-log', 'info');
+    expect(readLevelOverride()).toMatchObject({ source: 'storage', level: 'info' });
+
+    setQuery('?log=debug,auth=trace');
+    expect(readLevelOverride()).toEqual({
+      source: 'url',
+      value: 'debug,auth=trace',
+      level: 'debug',
+      levels: [['auth', 'trace']]
+    });
+  });
+
+  it('honours custom sources and names', () => {
+    setQuery('?log=debug&verbosity=trace');
+    localStorage.setItem('my-app-log', 'warn');
+
+    expect(readLevelOverride({ queryParam: 'verbosity' })).toMatchObject({ level: 'trace' });
+    expect(readLevelOverride({ sources: ['storage', 'url'], storageKey: 'my-app-log' })).toMatchObject({
+      source: 'storage',
+      level: 'warn'
+    });
+    expect(readLevelOverride({ sources: ['env'] })).toBeUndefined();
+  });
+
+  it('skips invalid specifications and falls back to the next source', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    setQuery('?log=auth=loud');
+    localStorage.setItem('lever-log', 'debug');
+
+    expect(readLevelOverride()).toMatchObject({ source: 'storage', level: 'debug' });
+    expect(warn).toHaveBeenCalledWith('Ignoring url log level override "auth=loud":', 'Invalid log level: loud');
+  });
+
+  it('treats inaccessible localStorage as empty', () => {
+    vi.spyOn(window.Storage.prototype, 'getItem').mockImplementation(() => {
+      throw new Error('SecurityError');
+    });
+
+    expect(readLevelOverride({ sources: ['storage'] })).toBeUndefined();
+  });
+});
+
+describe('LoggerImpl level overrides', () => {
+  it('ignores overrides unless enabled', () => {
+    setQuery('?log=debug');
+
+    expect(new LoggerImpl({ level: 'warn' }).level).toBe('warn');
+  });
+
+  it('applies overrides over configured levels', () => {
+    setQuery('?log=debug,checkout:*=trace');
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({
+      level: 'warn',
+      levels: 'checkout:*=error',
+      levelOverrides: true,
+      transports: [transport]
+    });
+
+    logger.debug('visible');
+
+    expect(logger.level).toBe('debug');
+    expect(new LoggerImpl({ component: 'checkout:cart' }, 'checkout:cart', logger).level).toBe('trace');
+    expect(transport.writeCalls.map(call => call.message)).toEqual(['visible']);
+    expect(logger.withContext({}).level).toBe('debug');
+
+    logger.setLevel('warn');
+    expect(logger.level).toBe('warn');
+  });
+
+  it('announces the override to transports as a LoggerConfigChangedEvent', () => {
+    setQuery('?log=debug,auth=trace');
+    const transport = new MockTransport();
+    new LoggerImpl({ level: 'warn', levelOverrides: true, transports: [transport] }, 'app');
+
+    expect(transport.configEvents).toHaveLength(1);
+    expect(transport.configEvents[0]).toMatchObject({
+      loggerName: 'app',
+      oldConfig: { level: 'warn', levels: {} },
+      newConfig: { level: 'debug', levels: { auth: 'trace' }, overrideSource: 'url', override: 'debug,auth=trace' },
+      changes: ['level', 'levels']
+    });
+  });
+
+  it('publishes the event through EventBusTransport', () => {
+    localStorage.setItem('lever-log', 'trace');
+    const post = vi.fn();
+    new LoggerImpl({ levelOverrides: { sources: ['storage'] }, transports: [new EventBusTransport({ post })] });
+
+    expect(post).toHaveBeenCalledWith(expect.any(LoggerConfigChangedEvent));
+    expect(post.mock.calls[0][0].changes).toEqual(['level']);
+  });
+
+  it('re-applies the override on reset', () => {
+    env.LEVER_LOG = 'trace';
+    const logger = new LoggerImpl({ levelOverrides: true });
+    const configuration = (logger as unknown as { configuration: { reset(): void } }).configuration;
+
+    logger.setLevel('error');
+    configuration.reset();
+
+    expect(logger.level).toBe('trace');
+  });
+});
\ No newline at end of file
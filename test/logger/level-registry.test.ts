@@ -0,0 +1,159 @@
+/**
+ * Unit tests for the log level registry and custom level methods
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  registerLevel,
+  unregisterLevel,
+  isLogLevel,
+  getLevels,
+  getLevelDefinition,
+  getLevelSeverity,
+  EXTENDED_LEVELS
+} from '../../src/logger/level-registry.js';
+import { LoggerImpl, createLogger } from '../../src/logger/logger-impl.js';
+import { LoggerRegistry } from '../../src/logger/logger-registry.js';
+import { LOG_LEVEL_PRIORITY } from '../../src/logger/logger-config.js';
+import type { LogEventData } from '../../src/logger/types.js';
+
+// Custom levels these tests register, declared like an application would
+declare module '../../src/logger/types.js' {
+  interface CustomLogLevels {
+    fatal: true;
+    verbose: true;
+  }
+}
+
+class MockTransport {
+  public writeCalls: LogEventData[] = [];
+  public name = 'mock-transport';
+
+  write(eventData: LogEventData) {
+    this.writeCalls.push(eventData);
+  }
+
+  flush() {}
+  close() {}
+}
+
+afterEach(() => {
+  ['fatal', 'notice', 'audit', 'verbose'].forEach(unregisterLevel);
+});
+
+describe('registerLevel()', () => {
+  it('adds levels with priorities and severities', () => {
+    const verbose = registerLevel({ name: 'verbose', priority: 0.5 });
+    registerLevel(EXTENDED_LEVELS.fatal);
+
+    expect(verbose.severity).toBe('trace');
+    expect(isLogLevel('verbose')).toBe(true);
+    expect(LOG_LEVEL_PRIORITY.fatal).toBe(5);
+    expect(getLevelSeverity('fatal')).toBe('error');
+    expect(getLevelDefinition('fatal')?.consoleMethod).toBe('error');
+    expect(getLevels().map(level => level.name)).toEqual(['trace', 'verbose', 'debug', 'info', 'warn', 'error', 'fatal']);
+  });
+
+  it('replaces custom definitions on re-registration', () => {
+    registerLevel({ name: 'verbose', priority: 0.5 });
+    registerLevel({ name: 'verbose', priority: 1.5, severity: 'info' });
+
+    expect(getLevelDefinition('verbose')).toMatchObject({ priority: 1.5, severity: 'info' });
+  });
+
+  it('rejects invalid definitions', () => {
+    expect(() => registerLevel({ name: 'Loud', priority: 1 })).toThrow('Invalid level name: Loud');
+    expect(() => registerLevel({ name: 'error', priority: 9 })).toThrow('Cannot redefine built-in level: error');
+    expect(() => registerLevel({ name: 'loud', priority: NaN })).toThrow(TypeError);
+    expect(() => registerLevel({ name: 'flush', priority: 1 })).toThrow('Level name clashes with a logger member: flush');
+    expect(() => registerLevel({ name: 'parent', priority: 1 })).toThrow(TypeError);
+    expect(isLogLevel('flush')).toBe(false);
+    expect(() => unregisterLevel('info')).toThrow('Cannot remove built-in level: info');
+  });
+
+  it('rejects names of every logger instance field', () => {
+    const logger = new LoggerImpl({ transports: [], dedupe: true, flightRecorder: true });
+    const child = logger.withContext({ page: 'cart' });
+    const fields = new Set([...Object.keys(logger), ...Object.keys(child), 'duplicates', 'recorder', 'stats', 'metrics']);
+
+    fields.forEach(name => {
+      expect(() => registerLevel({ name, priority: 1 })).toThrow(TypeError);
+      expect(isLogLevel(name)).toBe(false);
+    });
+    void logger.destroy();
+  });
+});
+
+describe('custom level methods', () => {
+  it('generates typed methods for customLevels', () => {
+    const transport = new MockTransport();
+    const logger = createLogger({
+      level: 'notice',
+      customLevels: [EXTENDED_LEVELS.fatal, EXTENDED_LEVELS.notice],
+      transports: [transport]
+    });
+
+    logger.info('filtered');
+    logger.notice('Deploy finished');
+    logger.fatal('Database unreachable');
+    logger.log('warn', 'Disk almost full');
+
+    expect(transport.writeCalls.map(call => [call.level, call.message])).toEqual([
+      ['notice', 'Deploy finished'],
+      ['fatal', 'Database unreachable'],
+      ['warn', 'Disk almost full']
+    ]);
+    expect(logger.level).toBe('notice');
+  });
+
+  it('accepts custom level names only where they are typed', () => {
+    const logger = createLogger({ customLevels: [EXTENDED_LEVELS.notice], transports: [] });
+
+    logger.setLevel('notice');
+    logger.withContext({ requestId: 'r1' }).notice('Deploy started');
+    // @ts-expect-error -- misspelled levels don't compile
+    expect(() => logger.setLevel('debgu')).toThrow('Invalid log level: debgu');
+    expect(logger.level).toBe('notice');
+  });
+
+  it('adds methods to existing loggers and their children', () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({ transports: [transport] });
+    const child = logger.withContext({ requestId: 'r1' });
+
+    registerLevel(EXTENDED_LEVELS.audit);
+    (child as unknown as Record<string, (message: string) => void>).audit('Role changed');
+
+    expect(transport.writeCalls[0]).toMatchObject({ level: 'audit', message: 'Role changed', context: { requestId: 'r1' } });
+  });
+
+  it('applies namespace rules to custom levels', () => {
+    const transport = new MockTransport();
+    const registry = new LoggerRegistry({
+      customLevels: [EXTENDED_LEVELS.notice],
+      levels: 'app:deploy=notice',
+      transports: [transport]
+    });
+
+    const deployLog = registry.getLogger<'notice'>('app:deploy');
+    deployLog.info('filtered');
+    deployLog.notice('Deployed');
+
+    expect(transport.writeCalls.map(call => call.message)).toEqual(['Deployed']);
+  });
+
+  it('rejects unknown levels', () => {
+    const logger = new LoggerImpl();
+
+    // @ts-expect-error -- unknown levels are compile errors too
+    expect(() => logger.log('loud', 'message')).toThrow('Invalid log level: loud');
+    // @ts-expect-error -- unknown levels are compile errors too
+    expect(() => logger.setLevel('loud')).toThrow('Invalid log level: loud');
+
+    registerLevel({ name: 'verbose', priority: 0.5 });
+    unregisterLevel('verbose');
+    expect(() => (logger as unknown as Record<string, (message: string) => void>).verbose('gone')).toThrow(
+      'Invalid log level: verbose'
+    );
+  });
+});
\ No newline at end of file
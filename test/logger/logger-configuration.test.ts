@@ -108,6 +108,35 @@ describe('LoggerConfiguration', () => {
       const levels = config.getComponentLevels();
       expect(levels.size).toBe(0);
     });
+
+    it('applies namespace levels to descendants and wildcard patterns', () => {
+      config.setComponentLevel('app', 'error');
+      config.setComponentLevel('app:auth:*', 'debug');
+
+      expect(config.getEffectiveLevel('app:billing:invoices')).toBe('error');
+      expect(config.getEffectiveLevel('app:auth:oauth')).toBe('debug');
+      expect(config.getEffectiveLevel('application')).toBe('info');
+
+      config.setComponentLevel('app:auth:oauth', 'warn');
+      expect(config.getEffectiveLevel('app:auth:oauth')).toBe('warn');
+
+      config.removeComponentLevel('app');
+      expect(config.getEffectiveLevel('app:billing:invoices')).toBe('info');
+    });
+
+    it('applies level patterns from configuration and reset', () => {
+      const configured = new LoggerConfiguration({ level: 'info', levels: 'app:auth:*=debug,*=warn' });
+
+      expect(configured.getEffectiveLevel('app:auth:oauth')).toBe('debug');
+      expect(configured.getEffectiveLevel('app:billing')).toBe('warn');
+      expect(configured.shouldProcess('info', 'app:billing')).toBe(false);
+
+      configured.clearComponentLevels();
+      configured.reset();
+      expect(configured.getEffectiveLevel('app:billing')).toBe('warn');
+
+      expect(() => new LoggerConfiguration({ levels: 'app=loud' })).toThrow('Invalid log level: loud');
+    });
   });
 
   describe('Should Process Logic', () => {
@@ -267,6 +296,55 @@ describe('LoggerConfiguration', () => {
     });
   });
 
+  describe('Runtime Updates', () => {
+    it('replaces the given settings and returns the keys that changed', () => {
+      config = new LoggerConfiguration({ level: 'info', sampling: { debug: 0.5 } });
+
+      const changes = config.update({ level: 'debug', sampling: { trace: 0.1 }, captureConsoleErrors: false });
+
+      expect(changes).toEqual(['level', 'sampling']);
+      expect(config.level).toBe('debug');
+      expect(config.sampling).toEqual({ trace: 0.1, debug: 1, info: 1, warn: 1, error: 1 });
+    });
+
+    it('replaces component levels, including ones set at runtime', () => {
+      config.setComponentLevel('db', 'trace');
+
+      expect(config.update({ levels: 'app:auth:*=debug' })).toEqual(['levels']);
+      expect(config.getComponentLevels()).toEqual(new Map([['app:auth:*', 'debug']]));
+      expect(config.getEffectiveLevel('db')).toBe('info');
+      expect(config.getEffectiveLevel('app:auth:oauth')).toBe('debug');
+    });
+
+    it('validates every change before applying any', () => {
+      config = new LoggerConfiguration({ level: 'warn' });
+
+      expect(() => config.update({ level: 'debug', sampling: { info: 2 } })).toThrow(RangeError);
+      expect(() => config.update({ level: 'debug', levels: { db: 'loud' } })).toThrow('Invalid log level: loud');
+      expect(() => config.update({ routes: { beacon: { minLevel: 'loud' } } })).toThrow(TypeError);
+      expect(config.level).toBe('warn');
+      expect(config.sampling.info).toBe(1);
+    });
+
+    it('rejects settings that cannot change after creation', () => {
+      expect(() => config.update({ queue: true } as LoggerConfig)).toThrow(
+        'Logger config queue cannot be changed after the logger is created'
+      );
+    });
+
+    it('exposes the runtime settings with effective component levels', () => {
+      config = new LoggerConfiguration({ levels: 'db=trace', defaultContext: { app: 'web' } });
+
+      expect(config.runtimeConfig).toMatchObject({
+        level: 'info',
+        levels: { db: 'trace' },
+        defaultContext: { app: 'web' },
+        captureUnhandledErrors: false,
+        routes: {}
+      });
+    });
+  });
+
   describe('Reset and Clone', () => {
     it('resets configuration to original values', () => {
       config = new LoggerConfiguration({ level: 'debug' });
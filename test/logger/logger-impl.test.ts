@@ -218,6 +218,62 @@ describe('LoggerImpl (Standalone)', () => {
     });
   });
 
+  describe('Exceptions', () => {
+    it('logs Error instances as structured error data', () => {
+      const logger = new LoggerImpl({
+        component: 'checkout',
+        transports: [mockTransport]
+      });
+      const error = new RangeError('Quantity out of range');
+
+      logger.exception(error, { orderId: 'A-1' });
+
+      expect(mockTransport.writeCalls).toHaveLength(1);
+      const event = mockTransport.writeCalls[0];
+      expect(event).toMatchObject({
+        level: 'error',
+        message: 'Quantity out of range',
+        context: { orderId: 'A-1' },
+        component: 'checkout'
+      });
+      expect(event.error).toMatchObject({
+        name: 'RangeError',
+        message: 'Quantity out of range',
+        handled: true,
+        component: 'checkout',
+        context: { orderId: 'A-1' }
+      });
+      expect(event.error.stack).toContain('RangeError');
+    });
+
+    it('normalizes non-Error values', () => {
+      const logger = new LoggerImpl({ transports: [mockTransport] });
+
+      logger.exception('plain string');
+      logger.exception({ code: 'E_TIMEOUT' });
+
+      expect(mockTransport.writeCalls[0].error).toMatchObject({ name: 'Error', message: 'plain string' });
+      expect(mockTransport.writeCalls[1].error).toMatchObject({ name: 'Error', message: '{"code":"E_TIMEOUT"}' });
+    });
+
+    it('marks errors as unhandled when requested', () => {
+      const logger = new LoggerImpl({ transports: [mockTransport] });
+
+      logger.exception(new Error('boom'), {}, { handled: false });
+
+      expect(mockTransport.writeCalls[0].error.handled).toBe(false);
+    });
+
+    it('ignores exceptions after destroy', async () => {
+      const logger = new LoggerImpl({ transports: [mockTransport] });
+      await logger.destroy();
+
+      logger.exception(new Error('too late'));
+
+      expect(mockTransport.writeCalls).toHaveLength(0);
+    });
+  });
+
   describe('Metrics', () => {
     it('records structured metrics', () => {
       const logger = new LoggerImpl({
@@ -271,6 +327,73 @@ describe('LoggerImpl (Standalone)', () => {
       expect(parentLogger.name).toBe('default');
       expect(childLogger.level).toBe('info');
     });
+
+    it('child destroy detaches without closing shared transports', async () => {
+      const parentLogger = new LoggerImpl({ transports: [mockTransport] });
+      const childLogger = parentLogger.withContext({ requestId: 'r1' });
+
+      await childLogger.destroy();
+      childLogger.info('ignored');
+      parentLogger.info('parent still logging');
+
+      expect(mockTransport.closeCalls).toBe(0);
+      expect(mockTransport.flushCalls).toBe(0);
+      expect(mockTransport.writeCalls.map(call => call.message)).toEqual(['parent still logging']);
+    });
+
+    it('destroying the parent stops its children', async () => {
+      const parentLogger = new LoggerImpl({ transports: [mockTransport] });
+      const grandchild = parentLogger.withContext({ a: 1 }).withContext({ b: 2 });
+
+      await parentLogger.destroy();
+      grandchild.info('ignored');
+
+      expect(mockTransport.closeCalls).toBe(1);
+      expect(mockTransport.writeCalls).toHaveLength(0);
+    });
+
+    it('transports added to the parent reach existing children', () => {
+      const parentLogger = new LoggerImpl();
+      const childLogger = parentLogger.withContext({ requestId: 'r1' });
+
+      parentLogger.addTransport(mockTransport);
+      childLogger.info('after add');
+
+      expect(mockTransport.writeCalls[0]).toMatchObject({
+        message: 'after add',
+        logger: 'default:child',
+        context: { requestId: 'r1' }
+      });
+    });
+
+    it('children follow parent level and component level changes', () => {
+      const parentLogger = new LoggerImpl({ level: 'info', component: 'checkout', transports: [mockTransport] });
+      const childLogger = parentLogger.withContext({ step: 'payment' });
+
+      parentLogger.setLevel('debug');
+      expect(childLogger.level).toBe('debug');
+
+      parentLogger.setComponentLevel('checkout', 'error');
+      childLogger.warn('filtered');
+      childLogger.error('kept');
+
+      expect(childLogger.level).toBe('error');
+      expect(mockTransport.writeCalls.map(call => call.message)).toEqual(['kept']);
+      expect(mockTransport.writeCalls[0].component).toBe('checkout');
+    });
+
+    it('child level overrides do not affect the parent', () => {
+      const parentLogger = new LoggerImpl({ level: 'info' });
+      const childLogger = parentLogger.withContext({ step: 'payment' });
+      const grandchild = childLogger.withContext({ attempt: 2 });
+
+      childLogger.setLevel('trace');
+
+      expect(childLogger.level).toBe('trace');
+      expect(grandchild.level).toBe('trace');
+      expect(parentLogger.level).toBe('info');
+      expect(() => childLogger.setLevel('loud' as any)).toThrow('Invalid log level: loud');
+    });
   });
 
   describe('Transport Management', () => {
@@ -293,6 +416,22 @@ describe('LoggerImpl (Standalone)', () => {
       expect(mockTransport.writeCalls).toHaveLength(0);
     });
 
+    it('routes events with the configured routing table', () => {
+      const beacon = new MockTransport('beacon');
+      const logger = new LoggerImpl({
+        transports: [mockTransport, beacon],
+        routes: { beacon: { minLevel: 'error', excludeComponents: ['payments'] } }
+      });
+
+      logger.info('everywhere but the beacon');
+      logger.error('beacon too');
+      logger.withContext({}).setTransportRoute('beacon', undefined);
+      logger.info('now everywhere');
+
+      expect(mockTransport.writeCalls).toHaveLength(3);
+      expect(beacon.writeCalls.map(event => event.message)).toEqual(['beacon too', 'now everywhere']);
+    });
+
     it('flushes all transports', async () => {
       const logger = new LoggerImpl({ transports: [mockTransport] });
       
@@ -358,6 +497,80 @@ describe('LoggerImpl (Standalone)', () => {
       expect(redacted).toBe('Contact me at <email>');
     });
   });
+
+  describe('Reconfiguration', () => {
+    it('applies new settings without recreating the logger', () => {
+      const logger = new LoggerImpl({ level: 'warn', transports: [mockTransport] });
+
+      expect(logger.configure({ level: 'debug', defaultContext: { release: '1.2.0' } })).toEqual([
+        'level',
+        'defaultContext'
+      ]);
+      logger.debug('visible now');
+
+      expect(mockTransport.writeCalls).toHaveLength(1);
+      expect(mockTransport.writeCalls[0].context).toEqual({ release: '1.2.0' });
+    });
+
+    it('rebuilds redaction for the whole logger tree', () => {
+      const logger = new LoggerImpl({ transports: [mockTransport] });
+      const child = logger.withContext({ page: 'checkout' });
+
+      child.configure({ redaction: { enabled: false } });
+      child.info('Contact user@example.com');
+
+      expect(mockTransport.writeCalls[0].message).toBe('Contact user@example.com');
+    });
+
+    it('updates the routes of registered transports', () => {
+      const logger = new LoggerImpl({ transports: [mockTransport] });
+
+      logger.configure({ routes: { [mockTransport.name]: { minLevel: 'error' } } });
+      logger.warn('filtered');
+      logger.error('routed');
+
+      expect(mockTransport.writeCalls.map(call => call.message)).toEqual(['routed']);
+    });
+
+    it('notifies transports with the old and new settings', () => {
+      const onConfigChanged = vi.fn();
+      const logger = new LoggerImpl({ transports: [{ ...mockTransport, write: () => {}, onConfigChanged }] }, 'app');
+
+      logger.configure({ level: 'error', sampling: { debug: 1 } });
+
+      expect(onConfigChanged).toHaveBeenCalledTimes(1);
+      const event = onConfigChanged.mock.calls[0][0];
+      expect(event.loggerName).toBe('app');
+      expect(event.oldConfig.level).toBe('info');
+      expect(event.newConfig.level).toBe('error');
+      expect(event.changes).toEqual(['level']);
+    });
+
+    it('leaves every setting unchanged when configure() throws', () => {
+      const onConfigChanged = vi.fn();
+      const logger = new LoggerImpl({ level: 'info', transports: [{ ...mockTransport, write: () => {}, onConfigChanged }] });
+      const before = logger.getRuntimeConfig();
+
+      expect(() => logger.configure({ level: 'warn', redaction: { patterns: [{ pattern: '(', replacement: 'x' }] } })).toThrow(
+        'Invalid regular expression'
+      );
+      expect(() => logger.configure({ level: 'warn', defaultContext: null as unknown as Record<string, unknown> })).toThrow(
+        'Logger config defaultContext must be an object'
+      );
+
+      expect(logger.getRuntimeConfig()).toEqual(before);
+      expect(logger.level).toBe('info');
+      expect(onConfigChanged).not.toHaveBeenCalled();
+    });
+
+    it('does not notify transports when nothing changed', () => {
+      const onConfigChanged = vi.fn();
+      const logger = new LoggerImpl({ level: 'warn', transports: [{ ...mockTransport, write: () => {}, onConfigChanged }] });
+
+      expect(logger.configure({ level: 'warn' })).toEqual([]);
+      expect(onConfigChanged).not.toHaveBeenCalled();
+    });
+  });
 });
 
 describe('createLogger Factory', () => {
@@ -0,0 +1,190 @@
+/**
+ * Unit tests for the hierarchical logger registry
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  LoggerRegistry,
+  getLogger,
+  getLoggerRegistry,
+  configureLoggers
+} from '../../src/logger/logger-registry.js';
+import type { LogEventData } from '../../src/logger/types.js';
+
+class MockTransport {
+  public writeCalls: LogEventData[] = [];
+  public name = 'mock-transport';
+  public flush = vi.fn();
+  public close = vi.fn();
+
+  write(eventData: LogEventData) {
+    this.writeCalls.push(eventData);
+  }
+}
+
+describe('LoggerRegistry', () => {
+  it('returns cached loggers per namespace', () => {
+    const registry = new LoggerRegistry();
+    const oauth = registry.getLogger('app:auth:oauth');
+
+    expect(registry.getLogger('app:auth:oauth')).toBe(oauth);
+    expect(oauth.name).toBe('app:auth:oauth');
+    expect(registry.getLogger()).toBe(registry.root);
+    expect(registry.has('app:auth:oauth')).toBe(true);
+    expect(registry.getNames()).toEqual(['app:auth:oauth']);
+    expect(() => registry.getLogger(42 as unknown as string)).toThrow(TypeError);
+  });
+
+  it('shares root transports and configuration', () => {
+    const transport = new MockTransport();
+    const registry = new LoggerRegistry({ level: 'debug', defaultContext: { app: 'shop' }, transports: [transport] });
+    const late = new MockTransport();
+    late.name = 'late-transport';
+    registry.root.addTransport(late);
+
+    registry.getLogger('cart').debug('Added item', { sku: 'A1' });
+
+    expect(transport.writeCalls[0]).toMatchObject({
+      component: 'cart',
+      logger: 'cart',
+      context: { app: 'shop', sku: 'A1' }
+    });
+    expect(late.writeCalls).toHaveLength(1);
+  });
+
+  it('applies namespace level patterns', () => {
+    const transport = new MockTransport();
+    const registry = new LoggerRegistry({ level: 'info', levels: 'app:auth:*=debug,*=warn', transports: [transport] });
+
+    registry.getLogger('app:auth:oauth').debug('token refreshed');
+    registry.getLogger('app:billing').info('invoice sent');
+    registry.getLogger('app:billing').warn('card declined');
+
+    expect(transport.writeCalls.map(call => call.message)).toEqual(['token refreshed', 'card declined']);
+    expect(registry.getLogger('app:auth:oauth').level).toBe('debug');
+  });
+
+  it('propagates parent levels to children without their own level', () => {
+    const registry = new LoggerRegistry({ level: 'info' });
+    const app = registry.getLogger('app');
+    const billing = registry.getLogger('app:billing');
+    const auth = registry.getLogger('app:auth');
+
+    auth.setLevel('trace');
+    app.setLevel('error');
+
+    expect(billing.level).toBe('error');
+    expect(auth.level).toBe('trace');
+    expect(registry.getLogger('web').level).toBe('info');
+
+    registry.root.setLevel('debug');
+    expect(registry.getLogger('web').level).toBe('debug');
+  });
+
+  it('accepts wildcards in setComponentLevel and setLevels', () => {
+    const registry = new LoggerRegistry({ level: 'info' });
+
+    registry.getLogger('app').setComponentLevel('app:*:db', 'trace');
+    registry.setLevels({ 'web:*': 'error' });
+
+    expect(registry.getLogger('app:orders:db').level).toBe('trace');
+    expect(registry.getLogger('web:home').level).toBe('error');
+    expect(() => registry.setLevels('web=loud')).toThrow('Invalid log level: loud');
+  });
+
+  it('detaches named loggers on destroy without closing shared transports', async () => {
+    const transport = new MockTransport();
+    const registry = new LoggerRegistry({ transports: [transport] });
+    const cart = registry.getLogger('cart');
+
+    await cart.destroy();
+    cart.info('ignored');
+    registry.root.info('still logging');
+
+    expect(transport.close).not.toHaveBeenCalled();
+    expect(transport.writeCalls.map(call => call.message)).toEqual(['still logging']);
+    expect(registry.getLogger('cart')).not.toBe(cart);
+  });
+
+  it('destroys the root and stops all named loggers', async () => {
+    const transport = new MockTransport();
+    const registry = new LoggerRegistry({ transports: [transport] });
+    const cart = registry.getLogger('cart');
+
+    await registry.destroy();
+    cart.info('ignored');
+
+    expect(transport.close).toHaveBeenCalled();
+    expect(transport.writeCalls).toHaveLength(0);
+    expect(registry.getNames()).toEqual([]);
+  });
+});
+
+describe('default registry', () => {
+  afterEach(async () => {
+    await getLoggerRegistry().destroy();
+  });
+
+  it('serves getLogger() from a lazily created registry', () => {
+    expect(getLogger('app')).toBe(getLoggerRegistry().getLogger('app'));
+  });
+
+  it('reconfigures the registry with configureLoggers()', () => {
+    const previous = getLoggerRegistry();
+    const transport = new MockTransport();
+    const registry = configureLoggers({ levels: 'app=debug', transports: [transport] });
+
+    expect(getLoggerRegistry()).toBe(registry);
+    expect(registry).toBe(previous);
+
+    getLogger('app:cart').debug('configured');
+    expect(transport.writeCalls).toHaveLength(1);
+  });
+
+  it('keeps loggers fetched before configureLoggers() working', async () => {
+    const authLog = getLogger('app:auth');
+    const rootLog = getLogger();
+    const child = authLog.withContext({ flow: 'oauth' });
+    const first = new MockTransport();
+    configureLoggers({ transports: [first] });
+    authLog.info('first');
+
+    const second = new MockTransport();
+    configureLoggers({ defaultContext: { release: '2.0' }, transports: [second] });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    authLog.info('second');
+    rootLog.warn('root');
+    child.info('child');
+
+    expect(authLog.isDestroyed).toBe(false);
+    expect(first.writeCalls.map(call => call.message)).toEqual(['first']);
+    expect(first.close).toHaveBeenCalled();
+    expect(second.writeCalls.map(call => call.message)).toEqual(['second', 'root', 'child']);
+    expect(second.writeCalls[0]).toMatchObject({ component: 'app:auth', context: { release: '2.0' } });
+    expect(second.writeCalls[2].context).toEqual({ flow: 'oauth' });
+  });
+
+  it('keeps transports the new configuration reuses open', async () => {
+    const transport = new MockTransport();
+    configureLoggers({ transports: [transport] });
+    configureLoggers({ level: 'debug', transports: [transport] });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    getLogger('app').debug('still open');
+    expect(transport.close).not.toHaveBeenCalled();
+    expect(transport.writeCalls).toHaveLength(1);
+  });
+  it('throws for an invalid configuration and keeps the current one', () => {
+    const transport = new MockTransport();
+    configureLoggers({ level: 'warn', transports: [transport], flightRecorder: true });
+    const authLog = getLogger('app:auth');
+
+    expect(() => configureLoggers({ levels: 'app=bogus' })).toThrow('Invalid log level: bogus');
+    expect(() => getLoggerRegistry().reset({ dedupe: { windowMs: 0 } })).toThrow(TypeError);
+
+    authLog.warn('still configured');
+    expect(getLoggerRegistry().root.level).toBe('warn');
+    expect(transport.writeCalls.map(call => call.message)).toEqual(['still configured']);
+    expect(transport.close).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
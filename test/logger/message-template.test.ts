@@ -0,0 +1,111 @@
+/**
+ * Unit tests for structured message templates
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractParams, renderTemplate, mapTemplateText } from '../../src/logger/message-template.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import type { LogEventData } from '../../src/logger/types.js';
+
+class MockTransport {
+  public writeCalls: LogEventData[] = [];
+  public name = 'mock-transport';
+
+  write(eventData: LogEventData) {
+    this.writeCalls.push(eventData);
+  }
+
+  flush() {}
+  close() {}
+}
+
+describe('message templates', () => {
+  it('extracts named parameters from plain-object arguments', () => {
+    const args = [{ orderId: 'o_42', attempts: 3, extra: true }];
+    const template = extractParams('Order {orderId} failed {attempts} times', args);
+
+    expect(template).toEqual({ params: { orderId: 'o_42', attempts: 3 }, args });
+    expect(renderTemplate('Order {orderId} failed {attempts} times', template!.params)).toBe('Order o_42 failed 3 times');
+  });
+
+  it('consumes positional arguments for printf placeholders', () => {
+    const template = extractParams('Loaded %d items (%s) %o 100%%', [12, 'cache', { hit: true }, 'rest']);
+
+    expect(template).toEqual({ params: { 0: 12, 1: 'cache', 2: { hit: true } }, args: ['rest'] });
+    expect(renderTemplate('Loaded %d items (%s) %o 100%%', template!.params)).toBe('Loaded 12 items (cache) {"hit":true} 100%');
+  });
+
+  it('leaves unmatched placeholders and plain messages alone', () => {
+    expect(extractParams('Progress 50%', [])).toBeNull();
+    expect(extractParams('Hello {name}', [{ other: 1 }])).toBeNull();
+    expect(extractParams('No placeholders', [{ name: 'x' }])).toBeNull();
+    expect(renderTemplate('%s and %s for {who}', { 0: 'one' })).toBe('one and %s for {who}');
+  });
+});
+
+describe('LoggerImpl message templates', () => {
+  it('keeps the template and parameters on the event', () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({ transports: [transport] });
+
+    logger.info('Order {orderId} failed {attempts} times', { orderId: 'o_42', attempts: 3 });
+    logger.info('Took %dms', 42);
+
+    expect(transport.writeCalls[0]).toMatchObject({
+      message: 'Order o_42 failed 3 times',
+      messageTemplate: 'Order {orderId} failed {attempts} times',
+      params: { orderId: 'o_42', attempts: 3 },
+      context: { orderId: 'o_42', attempts: 3 }
+    });
+    expect(transport.writeCalls[1]).toMatchObject({
+      message: 'Took 42ms',
+      messageTemplate: 'Took %dms',
+      params: { 0: 42 },
+      args: []
+    });
+  });
+
+  it('transforms template text around placeholders', () => {
+    expect(mapTemplateText('a {b} c %s', text => text.toUpperCase())).toBe('A {b} C %s');
+    expect(mapTemplateText('{a}{b}', () => 'x')).toBe('{a}{b}');
+  });
+
+  it('redacts parameters and the template text', () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({
+      transports: [transport],
+      redaction: { customRedactor: value => value.replace(/secret/g, '<hidden>') }
+    });
+
+    logger.warn('Login secret rotated for {email} from %s', 'secret-host', { email: 'user@example.com' });
+
+    expect(transport.writeCalls[0]).toMatchObject({
+      message: 'Login <hidden> rotated for <redacted> from <hidden>-host',
+      messageTemplate: 'Login <hidden> rotated for {email} from %s',
+      params: { 0: '<hidden>-host', email: '<redacted>' }
+    });
+  });
+
+  it('redacts PII written into the template text', () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({ transports: [transport] });
+
+    logger.info('Login for john.doe@example.com failed {attempts} times', { attempts: 3 });
+
+    expect(transport.writeCalls[0]).toMatchObject({
+      message: 'Login for <email> failed 3 times',
+      messageTemplate: 'Login for <email> failed {attempts} times',
+      params: { attempts: 3 }
+    });
+  });
+
+  it('does not add template fields to plain messages', () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({ transports: [transport] });
+
+    logger.info('Contact user@example.com', { page: 'home' });
+
+    expect(transport.writeCalls[0].message).toBe('Contact <email>');
+    expect(transport.writeCalls[0]).not.toHaveProperty('messageTemplate');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,201 @@
+/**
+ * Unit tests for aggregated counters, gauges and histograms
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MetricsRegistry, type MetricSnapshot } from '../../src/logger/metrics-registry.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import { EventBusTransport } from '../../src/transports/eventbus-transport.js';
+import { MetricEvent } from '../../src/logger/events.js';
+import type { LogEventData, Transport } from '../../src/logger/types.js';
+
+class CaptureTransport implements Transport {
+  public name = 'capture';
+  public events: LogEventData[] = [];
+
+  write(event: LogEventData): void {
+    this.events.push(event);
+  }
+
+  flush() {}
+  close() {}
+}
+
+const createRegistry = (config = {}) => {
+  const snapshots: MetricSnapshot[] = [];
+  const registry = new MetricsRegistry(config, snapshot => snapshots.push(snapshot));
+  return { registry, snapshots };
+};
+
+describe('MetricsRegistry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('aggregates updates into one snapshot per series and resets interval totals', () => {
+    const { registry, snapshots } = createRegistry();
+    const clicks = registry.counter('clicks');
+    clicks.inc();
+    clicks.inc(4);
+    registry.counter('clicks').inc(2);
+
+    registry.flush();
+    registry.flush();
+
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0]).toMatchObject({
+      name: 'clicks',
+      type: 'counter',
+      fields: { count: 3, sum: 7, min: 1, max: 4 }
+    });
+    expect(snapshots[0]).not.toHaveProperty('tags');
+    registry.stop();
+  });
+
+  it('keys series by name and tags regardless of tag order', () => {
+    const { registry, snapshots } = createRegistry();
+    registry.counter('requests', { route: '/cart', status: 200 }).inc();
+    registry.counter('requests', { status: 200, route: '/cart' }).inc();
+    registry.counter('requests', { route: '/cart', status: 500 }).inc();
+
+    registry.flush();
+
+    expect(registry.size).toBe(2);
+    expect(snapshots.map(snapshot => [snapshot.tags, snapshot.fields.count])).toEqual([
+      [{ route: '/cart', status: '200' }, 2],
+      [{ route: '/cart', status: '500' }, 1]
+    ]);
+    registry.stop();
+  });
+
+  it('reports gauge values and histogram bucket counts', () => {
+    const { registry, snapshots } = createRegistry();
+    const depth = registry.gauge('queue_depth');
+    depth.set(10);
+    depth.inc(5);
+    depth.dec(3);
+    const latency = registry.histogram('latency', [10, 100]);
+    [5, 50, 80, 500].forEach(value => latency.observe(value));
+
+    registry.flush();
+
+    expect(snapshots[0].fields).toEqual({ count: 3, sum: 37, min: 10, max: 15, value: 12 });
+    expect(snapshots[1]).toMatchObject({
+      type: 'histogram',
+      fields: { count: 4, sum: 635, min: 5, max: 500 },
+      buckets: [{ le: 10, count: 1 }, { le: 100, count: 3 }]
+    });
+    registry.stop();
+  });
+
+  it('keeps cumulative totals across flushes for collect()', () => {
+    const { registry } = createRegistry();
+    const latency = registry.histogram('latency', [10, 100]);
+    latency.observe(5);
+    registry.flush();
+    latency.observe(50);
+    registry.counter('hits').inc(3);
+
+    expect(registry.collect()).toEqual([
+      {
+        name: 'latency',
+        type: 'histogram',
+        tags: {},
+        value: 55,
+        count: 2,
+        sum: 55,
+        buckets: [{ le: 10, count: 1 }, { le: 100, count: 2 }]
+      },
+      { name: 'hits', type: 'counter', tags: {}, value: 3, count: 1, sum: 3 }
+    ]);
+    registry.stop();
+  });
+
+  it('flushes periodically once a series exists', () => {
+    vi.useFakeTimers();
+    const { registry, snapshots } = createRegistry({ flushIntervalMs: 1000 });
+
+    registry.histogram('scroll_jank').observe(16);
+    vi.advanceTimersByTime(1000);
+    vi.advanceTimersByTime(1000);
+
+    expect(snapshots).toHaveLength(1);
+    registry.stop();
+  });
+
+  it('rejects invalid names, values, buckets and type conflicts', () => {
+    const { registry } = createRegistry();
+    registry.counter('hits', { page: 'home' });
+
+    expect(() => registry.counter('')).toThrow(TypeError);
+    expect(() => registry.counter('hits').inc(-1)).toThrow(RangeError);
+    expect(() => registry.gauge('level').set(NaN)).toThrow(TypeError);
+    expect(() => registry.histogram('size', [10, 5])).toThrow(TypeError);
+    expect(() => registry.gauge('hits', { page: 'cart' })).toThrow('already registered as a counter');
+    expect(() => new MetricsRegistry({ flushIntervalMs: 0 }, () => {})).toThrow(TypeError);
+    registry.stop();
+  });
+
+  it('ignores new series beyond the series limit', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { registry, snapshots } = createRegistry({ maxSeries: 1 });
+    registry.counter('a').inc();
+    registry.counter('b').inc();
+    registry.counter('c').inc();
+
+    registry.flush();
+
+    expect(snapshots.map(snapshot => snapshot.name)).toEqual(['a']);
+    expect(warn).toHaveBeenCalledTimes(1);
+    registry.stop();
+  });
+});
+
+describe('Logger metrics', () => {
+  it('writes aggregated series as metric events on flush', async () => {
+    const transport = new CaptureTransport();
+    const logger = new LoggerImpl({ component: 'ui', transports: [transport] });
+
+    for (let i = 0; i < 50; i++) {
+      logger.withContext({ screen: 'feed' }).histogram('frame_ms', [16, 33], { route: '/feed' }).observe(i);
+    }
+    expect(transport.events).toHaveLength(0);
+
+    await logger.flush();
+
+    expect(transport.events).toHaveLength(1);
+    const [event] = transport.events;
+    expect(event.message).toBe('Metric: frame_ms');
+    expect(event.context).toMatchObject({ route: '/feed', count: 50 });
+    expect(event.metric).toMatchObject({
+      name: 'frame_ms',
+      type: 'histogram',
+      component: 'ui',
+      tags: { route: '/feed' },
+      fields: { count: 50, sum: 1225, min: 0, max: 49 },
+      buckets: [{ le: 16, count: 17 }, { le: 33, count: 34 }]
+    });
+    await logger.destroy();
+  });
+
+  it('writes pending snapshots on destroy and publishes them as MetricEvents', async () => {
+    const post = vi.fn();
+    const logger = new LoggerImpl({
+      component: 'ui',
+      transports: [new EventBusTransport({ post }, { enableSelfLogging: false })]
+    });
+
+    logger.counter('clicks', { button: 'buy' }).inc();
+    await logger.destroy();
+
+    const metricEvents = post.mock.calls.map(([event]) => event).filter(event => event instanceof MetricEvent);
+    expect(metricEvents).toHaveLength(1);
+    expect(metricEvents[0]).toMatchObject({
+      name: 'clicks',
+      fields: { count: 1, sum: 1, min: 1, max: 1 },
+      context: { metricType: 'counter', tags: { button: 'buy' } },
+      component: 'ui'
+    });
+  });
+});
\ No newline at end of file
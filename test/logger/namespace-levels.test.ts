@@ -0,0 +1,77 @@
+/**
+ * Unit tests for namespace level patterns
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseNamespaceLevels,
+  isNamespacePattern,
+  matchNamespace,
+  resolveNamespaceLevel
+} from '../../src/logger/namespace-levels.js';
+import type { LogLevel } from '../../src/logger/types.js';
+
+describe('parseNamespaceLevels()', () => {
+  it('parses comma and whitespace separated entries', () => {
+    expect(parseNamespaceLevels('app:auth:*=debug, *=WARN  app:db=trace')).toEqual([
+      ['app:auth:*', 'debug'],
+      ['*', 'warn'],
+      ['app:db', 'trace']
+    ]);
+  });
+
+  it('enables debug for entries without a level', () => {
+    expect(parseNamespaceLevels('app:*')).toEqual([['app:*', 'debug']]);
+    expect(parseNamespaceLevels('')).toEqual([]);
+  });
+
+  it('rejects invalid levels and empty patterns', () => {
+    expect(() => parseNamespaceLevels('app=verbose')).toThrow('Invalid log level: verbose');
+    expect(() => parseNamespaceLevels('=info')).toThrow(TypeError);
+  });
+});
+
+describe('matchNamespace()', () => {
+  it('matches plain namespaces and their descendants', () => {
+    expect(matchNamespace('app:auth', 'app:auth')).toBeGreaterThan(0);
+    expect(matchNamespace('app:auth', 'app:auth:oauth')).toBeGreaterThan(0);
+    expect(matchNamespace('app:auth', 'app:authz')).toBe(-1);
+    expect(matchNamespace('app:auth', 'app')).toBe(-1);
+  });
+
+  it('matches wildcard patterns', () => {
+    expect(isNamespacePattern('app:*')).toBe(true);
+    expect(matchNamespace('app:*', 'app:auth:oauth')).toBeGreaterThan(-1);
+    expect(matchNamespace('app:*:db', 'app:billing:db')).toBeGreaterThan(-1);
+    expect(matchNamespace('app:*', 'app')).toBe(-1);
+    expect(matchNamespace('*', 'anything')).toBe(0);
+    expect(matchNamespace('a.b:*', 'axb:c')).toBe(-1);
+  });
+
+  it('scores more literal characters higher and prefers plain namespaces on ties', () => {
+    expect(matchNamespace('app:auth:*', 'app:auth:x')).toBeGreaterThan(matchNamespace('app:*', 'app:auth:x'));
+    expect(matchNamespace('app:auth', 'app:auth:x')).toBeGreaterThan(matchNamespace('app:aut*', 'app:auth:x'));
+  });
+});
+
+describe('resolveNamespaceLevel()', () => {
+  it('picks the most specific matching rule', () => {
+    const rules = new Map<string, LogLevel>(parseNamespaceLevels('app:auth:*=debug,*=warn'));
+
+    expect(resolveNamespaceLevel(rules, 'app:auth:oauth')).toBe('debug');
+    expect(resolveNamespaceLevel(rules, 'app:billing')).toBe('warn');
+
+    rules.set('app', 'error');
+    expect(resolveNamespaceLevel(rules, 'app:billing')).toBe('error');
+    expect(resolveNamespaceLevel(rules, 'app:auth:oauth')).toBe('debug');
+  });
+
+  it('lets later rules win ties', () => {
+    const rules = new Map<string, LogLevel>([['a*', 'debug'], ['*b', 'error']]);
+    expect(resolveNamespaceLevel(rules, 'ab')).toBe('error');
+  });
+
+  it('returns undefined when no rule matches', () => {
+    expect(resolveNamespaceLevel(new Map([['app', 'debug']]), 'web')).toBeUndefined();
+  });
+});
\ No newline at end of file
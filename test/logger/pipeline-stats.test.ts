@@ -0,0 +1,137 @@
+/**
+ * Unit tests for pipeline statistics and logger self-diagnostics
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PipelineStats } from '../../src/logger/pipeline-stats.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import type { LogEventData, Transport } from '../../src/logger/types.js';
+
+class CountingTransport implements Transport {
+  public written: LogEventData[] = [];
+  public failing = false;
+
+  constructor(public name: string) {}
+
+  write(event: LogEventData): void {
+    if (this.failing) {
+      throw new Error('write failed');
+    }
+    this.written.push(event);
+  }
+
+  flush() {}
+  close() {}
+}
+
+describe('PipelineStats', () => {
+  it('counts written and filtered events by level and returns copies', () => {
+    const stats = new PipelineStats();
+    stats.recordWritten('info');
+    stats.recordWritten('info');
+    stats.recordFiltered('level', 'debug');
+    stats.recordFiltered('duplicate', 'warn');
+
+    const snapshot = stats.snapshot();
+    stats.recordWritten('error');
+
+    expect(snapshot).toEqual({
+      events: { info: 2 },
+      filtered: { level: { debug: 1 }, sampling: {}, duplicate: { warn: 1 } }
+    });
+  });
+});
+
+describe('Logger diagnostics', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports events, filters, redaction and transport counters', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const primary = new CountingTransport('primary');
+    const broken = new CountingTransport('broken');
+    broken.failing = true;
+    const logger = new LoggerImpl({
+      level: 'info',
+      sampling: { warn: 0 },
+      dedupe: true,
+      transports: [primary, broken]
+    });
+
+    logger.debug('hidden');
+    logger.warn('sampled out');
+    logger.info('Contact admin@example.com');
+    logger.error('same');
+    logger.error('same');
+    logger.withContext({ orderId: 'o-1' }).info('from child');
+    await logger.flush();
+
+    const stats = logger.getStats();
+    // The repeat summary written on flush counts as an error event
+    expect(stats.events).toEqual({ info: 2, error: 2 });
+    expect(stats.filtered).toEqual({
+      level: { debug: 1 },
+      sampling: { warn: 1 },
+      duplicate: { error: 1 }
+    });
+    expect(stats.redaction.patternHits.email).toBe(1);
+    expect(stats.transports.primary).toEqual({
+      writes: 4,
+      flushes: 1,
+      errors: 0,
+      skipped: 0,
+      queued: 0,
+      dropped: 0
+    });
+    expect(stats.transports.broken).toMatchObject({ writes: 0, errors: 4, flushes: 1 });
+    await logger.destroy();
+  });
+
+  it('reports queue depth and dropped events', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const transport = new CountingTransport('queued');
+    const logger = new LoggerImpl({
+      queue: { maxSize: 2, overflow: 'drop-newest' },
+      transports: [transport]
+    });
+
+    logger.info('one');
+    logger.info('two');
+    logger.info('three');
+
+    expect(logger.getStats().transports.queued).toMatchObject({ writes: 0, queued: 2, dropped: 1 });
+
+    await logger.flush();
+    expect(logger.getStats().transports.queued).toMatchObject({ writes: 3, queued: 0, dropped: 1 });
+    await logger.destroy();
+  });
+
+  it('inspects the effective configuration, component levels and transports', async () => {
+    const predicate = (event: LogEventData) => event.message !== 'noise';
+    const logger = new LoggerImpl({
+      component: 'app',
+      levels: { 'app:auth': 'debug' },
+      routes: { audit: { minLevel: 'warn', predicate } },
+      transports: [new CountingTransport('console'), new CountingTransport('audit')]
+    });
+    logger.setComponentLevel('app:payments', 'error');
+
+    const inspection = logger.inspect();
+
+    expect(inspection).toMatchObject({
+      name: 'default',
+      component: 'app',
+      level: 'info',
+      componentLevels: { 'app:auth': 'debug', 'app:payments': 'error' }
+    });
+    expect(inspection.config).toMatchObject({ level: 'info', component: 'app', queue: false });
+    expect(inspection.config).not.toHaveProperty('transports');
+    expect(inspection.transports.map(({ name, route, queued, health }) => ({ name, route, queued, state: health.state }))).toEqual([
+      { name: 'console', route: undefined, queued: false, state: 'closed' },
+      { name: 'audit', route: { minLevel: 'warn', predicate: '[Function: predicate]' }, queued: false, state: 'closed' }
+    ]);
+    expect(() => JSON.stringify(inspection)).not.toThrow();
+    await logger.destroy();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for Prometheus/OpenMetrics exposition of aggregated metrics
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, get, request, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  formatMetrics,
+  createMetricsHandler,
+  PROMETHEUS_CONTENT_TYPE,
+  OPENMETRICS_CONTENT_TYPE
+} from '../../src/logger/prometheus.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import type { MetricSeries } from '../../src/logger/types.js';
+
+const series: MetricSeries[] = [
+  { name: 'http_requests_total', type: 'counter', tags: { route: '/cart', status: '200' }, value: 12, count: 12, sum: 12 },
+  { name: 'http_requests_total', type: 'counter', tags: { route: '/cart', status: '500' }, value: 1, count: 1, sum: 1 },
+  { name: 'queue.depth', type: 'gauge', tags: {}, value: 3, count: 5, sum: 14 },
+  {
+    name: 'latency_ms',
+    type: 'histogram',
+    tags: {},
+    value: 635,
+    count: 4,
+    sum: 635,
+    buckets: [{ le: 10, count: 1 }, { le: 100, count: 3 }]
+  }
+];
+
+describe('formatMetrics', () => {
+  it('renders families with HELP and TYPE lines in the Prometheus text format', () => {
+    expect(formatMetrics(series, { help: { latency_ms: 'Request latency' } })).toBe([
+      '# HELP http_requests_total http_requests_total',
+      '# TYPE http_requests_total counter',
+      'http_requests_total{route="/cart",status="200"} 12',
+      'http_requests_total{route="/cart",status="500"} 1',
+      '# HELP queue_depth queue.depth',
+      '# TYPE queue_depth gauge',
+      'queue_depth 3',
+      '# HELP latency_ms Request latency',
+      '# TYPE latency_ms histogram',
+      'latency_ms_bucket{le="10"} 1',
+      'latency_ms_bucket{le="100"} 3',
+      'latency_ms_bucket{le="+Inf"} 4',
+      'latency_ms_sum 635',
+      'latency_ms_count 4',
+      ''
+    ].join('\n'));
+  });
+
+  it('renders OpenMetrics counters with _total samples and an EOF marker', () => {
+    const output = formatMetrics(series.slice(0, 1), { format: 'openmetrics' });
+
+    expect(output).toBe([
+      '# HELP http_requests http_requests_total',
+      '# TYPE http_requests counter',
+      'http_requests_total{route="/cart",status="200"} 12',
+      '# EOF',
+      ''
+    ].join('\n'));
+  });
+
+  it('escapes label values and HELP text and sanitizes names', () => {
+    const output = formatMetrics([
+      { name: '1st-metric', type: 'gauge', tags: { 'user agent': 'say "hi"\\\nbye' }, value: Infinity, count: 1, sum: 1 }
+    ], { prefix: 'web_', labels: { service: 'checkout' }, help: { '1st-metric': 'line\\one\ntwo' } });
+
+    expect(output).toBe([
+      '# HELP web_1st_metric line\\\\one\\ntwo',
+      '# TYPE web_1st_metric gauge',
+      'web_1st_metric{service="checkout",user_agent="say \\"hi\\"\\\\\\nbye"} +Inf',
+      ''
+    ].join('\n'));
+  });
+});
+
+describe('createMetricsHandler', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  const listen = async (logger: LoggerImpl): Promise<string> => {
+    const handler = createMetricsHandler(logger, { labels: { service: 'web' } });
+    server = createServer((req, res) => {
+      if (req.url === '/metrics') return handler(req, res);
+      res.statusCode = 404;
+      res.end();
+    });
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server!.address() as AddressInfo).port}/metrics`;
+  };
+
+  const fetchText = (url: string, headers: Record<string, string> = {}, method = 'GET') =>
+    new Promise<{ status: number; type?: string; body: string }>((resolve, reject) => {
+      const req = (method === 'GET' ? get : request)(url, { headers, method }, res => {
+        let body = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => { body += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, type: res.headers['content-type'], body }));
+      });
+      req.on('error', reject);
+      req.end();
+    });
+
+  it('serves a logger\'s cumulative metrics over HTTP', async () => {
+    const logger = new LoggerImpl({ transports: [] });
+    const clicks = logger.counter('clicks', { button: 'buy' });
+    clicks.inc();
+    await logger.flush();
+    clicks.inc(2);
+    logger.histogram('frame_ms', [16, 33]).observe(20);
+    const url = await listen(logger);
+
+    const response = await fetchText(url);
+
+    expect(response.status).toBe(200);
+    expect(response.type).toBe(PROMETHEUS_CONTENT_TYPE);
+    expect(response.body).toContain('clicks{service="web",button="buy"} 3\n');
+    expect(response.body).toContain('frame_ms_bucket{service="web",le="33"} 1\n');
+
+    const openMetrics = await fetchText(url, { Accept: 'application/openmetrics-text; version=1.0.0' });
+    expect(openMetrics.type).toBe(OPENMETRICS_CONTENT_TYPE);
+    expect(openMetrics.body).toContain('clicks_total{service="web",button="buy"} 3\n');
+    expect(openMetrics.body.endsWith('# EOF\n')).toBe(true);
+    await logger.destroy();
+  });
+
+  it('rejects methods other than GET and HEAD', async () => {
+    const logger = new LoggerImpl({ transports: [] });
+    const url = await listen(logger);
+
+    const response = await fetchText(url, {}, 'POST');
+
+    expect(response.status).toBe(405);
+    await logger.destroy();
+  });
+});
\ No newline at end of file
@@ -196,6 +196,32 @@ describe('Redaction System', () => {
       expect(engine.redactObject(null)).toBe(null);
       expect(engine.redactObject(undefined)).toBe(undefined);
     });
+
+    it('keeps errors, maps, sets, dates and binary data while redacting their contents', () => {
+      const when = new Date(0);
+      const bytes = new Uint8Array([1, 2]);
+      const cause = new Error('Retry for user@example.com');
+      const error = Object.assign(new RangeError('Limit for user@example.com'), { cause, password: 'hunter2' });
+
+      const result = engine.redactObject({
+        when,
+        bytes,
+        error,
+        byKey: new Map([['password', 'hunter2'], ['note', 'call (555) 123-4567']]),
+        recipients: new Set(['user@example.com'])
+      }) as Record<string, any>;
+
+      expect(result.when).toBe(when);
+      expect(result.bytes).toBe(bytes);
+      expect(result.error).toBeInstanceOf(RangeError);
+      expect(result.error.message).toBe('Limit for <email>');
+      expect(result.error.stack).not.toContain('user@example.com');
+      expect(result.error.cause.message).toBe('Retry for <email>');
+      expect(result.error.password).toBe('<redacted>');
+      expect(result.byKey).toEqual(new Map([['password', '<redacted>'], ['note', 'call <phone>']]));
+      expect(result.recipients).toEqual(new Set(['<email>']));
+      expect(error.message).toBe('Limit for user@example.com');
+    });
   });
 
   describe('Args Redaction', () => {
@@ -226,6 +252,19 @@ describe('Redaction System', () => {
     });
   });
 
+  describe('Template Parameter Redaction', () => {
+    it('redacts parameter values by field name and pattern', () => {
+      const result = engine.redactParams({ attempts: 3, email: 'user@example.com', 0: 'call 555-123-4567' });
+
+      expect(result).toEqual({ attempts: 3, email: '<redacted>', 0: 'call <phone>' });
+    });
+
+    it('returns parameters unchanged when redaction is off', () => {
+      const params = { email: 'user@example.com' };
+      expect(new RedactionEngine({ mode: 'off' }).redactParams(params)).toBe(params);
+    });
+  });
+
   describe('Hash-based Redaction', () => {
     it('uses hash redaction when enabled', () => {
       const hashEngine = new RedactionEngine({ hashRedaction: true });
@@ -331,6 +370,19 @@ describe('Redaction System', () => {
       expect(result).toContain('<user-id>');
       expect(result).toContain('<email>');
     });
+
+    it('compiles patterns given as strings with flags', () => {
+      const customEngine = new RedactionEngine({
+        patterns: [
+          { name: 'order', pattern: 'ORD-\\d{6}', replacement: '<order>' },
+          { name: 'ticket', pattern: 'ticket-[a-z]+', flags: 'i', replacement: '<ticket>' }
+        ]
+      });
+
+      expect(customEngine.redactString('ORD-123456 and ORD-654321 for TICKET-abc')).toBe(
+        '<order> and <order> for <ticket>'
+      );
+    });
   });
 
   describe('Performance and Statistics', () => {
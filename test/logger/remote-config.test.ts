@@ -0,0 +1,237 @@
+/**
+ * Unit tests for remote configuration polling
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { RemoteConfigProvider, type RemoteConfigStorage } from '../../src/logger/remote-config.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+
+const createStorage = (): RemoteConfigStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value); },
+    removeItem: key => { items.delete(key); }
+  };
+};
+
+describe('RemoteConfigProvider', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await new Promise(resolve => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  const serve = async (respond: (_headers: IncomingHttpHeaders) => { status: number; body?: unknown; etag?: string }) => {
+    const requests: IncomingHttpHeaders[] = [];
+    server = createServer((req, res) => {
+      requests.push(req.headers);
+      const { status, body, etag } = respond(req.headers);
+      res.statusCode = status;
+      if (etag) res.setHeader('ETag', etag);
+      res.end(body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body));
+    });
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    return { url: `http://127.0.0.1:${(server!.address() as AddressInfo).port}/logging`, requests };
+  };
+
+  it('applies overrides from an endpoint and revalidates them with the ETag', async () => {
+    const { url, requests } = await serve(headers => headers['if-none-match'] === '"v1"'
+      ? { status: 304 }
+      : { status: 200, body: { config: { level: 'debug', sampling: { debug: 0.5 } } }, etag: '"v1"' });
+    const logger = new LoggerImpl({ level: 'info', transports: [] });
+    const remoteConfig = new RemoteConfigProvider(logger, { source: url, storage: false, headers: { 'X-App': 'web' } });
+
+    expect(await remoteConfig.poll()).toBe(true);
+    expect(logger.getRuntimeConfig().level).toBe('debug');
+    expect(logger.getRuntimeConfig().sampling.debug).toBe(0.5);
+
+    expect(await remoteConfig.poll()).toBe(false);
+    expect(requests[1]['if-none-match']).toBe('"v1"');
+    expect(requests[1]['x-app']).toBe('web');
+    expect(remoteConfig.override).toEqual({ level: 'debug', sampling: { debug: 0.5 } });
+  });
+
+  it('keeps the current settings when the endpoint fails or returns invalid JSON', async () => {
+    let response: { status: number; body?: unknown } = { status: 503 };
+    const { url } = await serve(() => response);
+    const onError = vi.fn();
+    const logger = new LoggerImpl({ level: 'warn', transports: [] });
+    const remoteConfig = new RemoteConfigProvider(logger, { source: url, storage: false, onError });
+
+    expect(await remoteConfig.poll()).toBe(false);
+    response = { status: 200, body: '{"config":' };
+    expect(await remoteConfig.poll()).toBe(false);
+
+    expect(onError.mock.calls.map(([error]) => error.message)).toEqual([
+      'Remote logger config request failed with status 503',
+      expect.stringContaining('Remote logger config is not valid JSON')
+    ]);
+    expect(logger.getRuntimeConfig().level).toBe('warn');
+  });
+
+  it('rejects payloads that fail the schema or the logger\'s validation', async () => {
+    const payloads: unknown[] = [
+      { config: { sampling: { debug: 2 } } },
+      { config: { component: 'checkout' }, expiresAt: 'soon' },
+      { config: { level: 'loud' } }
+    ];
+    const onError = vi.fn();
+    const logger = new LoggerImpl({ level: 'info', transports: [] });
+    const remoteConfig = new RemoteConfigProvider(logger, { source: async () => payloads.shift(), storage: false, onError });
+
+    await remoteConfig.poll();
+    await remoteConfig.poll();
+    await remoteConfig.poll();
+
+    expect(onError.mock.calls.map(([error]) => error.message)).toEqual([
+      'Invalid remote logger config: payload.config.sampling.debug must be <= 1',
+      'Invalid remote logger config: payload.config.component is not a known option; payload.expiresAt must be a date-time',
+      'Invalid remote logger config: Invalid log level: loud'
+    ]);
+    expect(logger.getRuntimeConfig().level).toBe('info');
+    expect(remoteConfig.override).toBeUndefined();
+  });
+
+  it('changes nothing when a payload passes the schema but configure() rejects it', async () => {
+    const onError = vi.fn();
+    const logger = new LoggerImpl({ level: 'info', transports: [] });
+    const remoteConfig = new RemoteConfigProvider(logger, {
+      source: async () => ({
+        config: { level: 'debug', redaction: { patterns: [{ pattern: 'a', flags: 'gg', replacement: 'x' }] } },
+        expiresAt: Date.now() + 1000
+      }),
+      storage: false,
+      onError
+    });
+
+    expect(await remoteConfig.poll()).toBe(false);
+
+    expect(onError.mock.calls[0][0].message).toContain('Invalid remote logger config');
+    expect(logger.getRuntimeConfig().level).toBe('info');
+    expect(logger.getRuntimeConfig().redaction.patterns).toEqual([]);
+    expect(remoteConfig.override).toBeUndefined();
+  });
+
+  it('reverts an override at its deadline', async () => {
+    vi.useFakeTimers();
+    const logger = new LoggerImpl({ level: 'info', defaultContext: { app: 'web' }, transports: [] });
+    const remoteConfig = new RemoteConfigProvider(logger, {
+      source: async () => ({ config: { level: 'trace', defaultContext: { cohort: 'beta' } }, expiresAt: Date.now() + 5000 }),
+      storage: false,
+      maxDurationMs: 2000
+    });
+
+    await remoteConfig.poll();
+    expect(logger.getRuntimeConfig().level).toBe('trace');
+    expect(remoteConfig.expiresAt).toBe(Date.now() + 2000);
+
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(remoteConfig.override).toBeUndefined();
+    expect(logger.getRuntimeConfig().level).toBe('info');
+    expect(logger.getRuntimeConfig().defaultContext).toEqual({ app: 'web' });
+  });
+
+  it('restores keys a new payload no longer overrides', async () => {
+    const payloads = [
+      { config: { level: 'debug', captureConsoleErrors: false } },
+      { config: { level: 'error' } },
+      { config: {} }
+    ];
+    const logger = new LoggerImpl({ level: 'warn', captureConsoleErrors: false, transports: [] });
+    const remoteConfig = new RemoteConfigProvider(logger, { source: async () => payloads.shift(), storage: false });
+
+    await remoteConfig.poll();
+    await remoteConfig.poll();
+    expect(logger.getRuntimeConfig().level).toBe('error');
+
+    expect(await remoteConfig.poll()).toBe(true);
+    expect(logger.getRuntimeConfig().level).toBe('warn');
+    expect(remoteConfig.override).toBeUndefined();
+    expect(remoteConfig.revert()).toBe(false);
+  });
+
+  it('applies the last good payload from storage when the source is unavailable', async () => {
+    const storage = createStorage();
+    const first = new LoggerImpl({ level: 'info', transports: [] });
+    await new RemoteConfigProvider(first, {
+      source: async () => ({ config: { level: 'debug' } }),
+      storage
+    }).poll();
+
+    const logger = new LoggerImpl({ level: 'info', transports: [] });
+    const onError = vi.fn();
+    const remoteConfig = new RemoteConfigProvider(logger, {
+      source: () => Promise.reject(new Error('offline')),
+      storage,
+      onError
+    });
+    remoteConfig.start();
+    remoteConfig.stop();
+
+    expect(logger.getRuntimeConfig().level).toBe('debug');
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(new Error('offline')));
+
+    remoteConfig.revert();
+    const restarted = new LoggerImpl({ level: 'info', transports: [] });
+    new RemoteConfigProvider(restarted, { source: async () => undefined, storage }).start();
+    expect(restarted.getRuntimeConfig().level).toBe('info');
+  });
+
+  it('discards a corrupt stored payload', () => {
+    const storage = createStorage();
+    storage.setItem('lever-log-remote-config', '{"payload":');
+    const onError = vi.fn();
+    const remoteConfig = new RemoteConfigProvider(new LoggerImpl({ transports: [] }), {
+      source: async () => undefined,
+      storage,
+      onError
+    });
+
+    remoteConfig.start();
+    remoteConfig.stop();
+
+    expect(onError.mock.calls[0][0].message).toContain('Stored remote logger config is not valid JSON');
+    expect(storage.items.size).toBe(0);
+  });
+
+  it('polls at jittered intervals until stopped', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const source = vi.fn(async () => undefined);
+    const remoteConfig = new RemoteConfigProvider(new LoggerImpl({ transports: [] }), {
+      source,
+      intervalMs: 1000,
+      jitter: 0.5,
+      storage: false
+    });
+
+    remoteConfig.start();
+    await vi.advanceTimersByTimeAsync(1499);
+    expect(source).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(source).toHaveBeenCalledTimes(2);
+
+    remoteConfig.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(source).toHaveBeenCalledTimes(2);
+    expect(remoteConfig.isRunning).toBe(false);
+    vi.restoreAllMocks();
+  });
+
+  it('validates its options', () => {
+    const logger = new LoggerImpl({ transports: [] });
+
+    expect(() => new RemoteConfigProvider(logger, { source: '' })).toThrow(TypeError);
+    expect(() => new RemoteConfigProvider(logger, { source: '/config', intervalMs: 0 })).toThrow(
+      'Remote config interval must be a positive number: 0'
+    );
+    expect(() => new RemoteConfigProvider(logger, { source: '/config', jitter: 2 })).toThrow(RangeError);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for deterministic key-based sampling
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { hashToUnit, resolveSamplingKey, sampleEvent } from '../../src/logger/sampling.js';
+import { resolveNamespaceRate } from '../../src/logger/namespace-levels.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import type { LogEventData, SamplingSubject } from '../../src/logger/types.js';
+
+class MockTransport {
+  public writeCalls: LogEventData[] = [];
+  public name = 'mock-transport';
+
+  write(eventData: LogEventData) {
+    this.writeCalls.push(eventData);
+  }
+
+  flush() {}
+  close() {}
+}
+
+const subject = (context: Record<string, unknown>, traceId?: string): SamplingSubject => ({
+  level: 'debug',
+  component: 'test',
+  context,
+  traceId
+});
+
+describe('Key-based sampling', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('hashes keys to stable positions in the unit interval', () => {
+    const values = ['a', 'session-1', 'session-2', ''].map(hashToUnit);
+
+    values.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+    expect(hashToUnit('session-1')).toBe(values[1]);
+    expect(values[1]).not.toBe(values[2]);
+  });
+
+  it('reads built-in keys from the context and active trace', () => {
+    expect(resolveSamplingKey('session', subject({ sessionId: 'abc' }))).toBe('abc');
+    expect(resolveSamplingKey('user', subject({ userId: 42 }))).toBe('42');
+    expect(resolveSamplingKey('trace', subject({ traceId: 'ctx' }, 'span'))).toBe('span');
+    expect(resolveSamplingKey('trace', subject({ traceId: 'ctx' }))).toBe('ctx');
+    expect(resolveSamplingKey('session', subject({ sessionId: { id: 1 } }))).toBeUndefined();
+    expect(resolveSamplingKey(event => `${event.component}:${event.context.tenant}`, subject({ tenant: 't1' }))).toBe('test:t1');
+  });
+
+  it('keeps or drops all events with the same key', () => {
+    const random = vi.spyOn(Math, 'random');
+    const sessions = Array.from({ length: 200 }, (_, i) => `session-${i}`);
+    const kept = sessions.filter(id => sampleEvent(0.25, 'session', () => subject({ sessionId: id })));
+
+    sessions.forEach(id => {
+      const first = sampleEvent(0.25, 'session', () => subject({ sessionId: id }));
+      const second = sampleEvent(0.25, 'session', () => subject({ sessionId: id }));
+      expect(second).toEqual(first);
+    });
+    expect(kept.length).toBeGreaterThan(20);
+    expect(kept.length).toBeLessThan(80);
+    expect(random).not.toHaveBeenCalled();
+
+    // Sessions kept at a lower rate are a subset of those kept at a higher one
+    const keptAtTenth = sessions.filter(id => sampleEvent(0.1, 'session', () => subject({ sessionId: id })));
+    expect(keptAtTenth.every(id => kept.includes(id))).toBe(true);
+  });
+
+  it('falls back to random sampling for events without a key', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.2);
+
+    expect(sampleEvent(0.5, 'session', () => subject({}))).toEqual({ rate: 0.5, key: 'random' });
+    expect(sampleEvent(0.1, 'session', () => subject({}))).toBeUndefined();
+    expect(sampleEvent(1, 'session')).toEqual({ rate: 1 });
+    expect(sampleEvent(0, 'session', () => subject({ sessionId: 'abc' }))).toBeUndefined();
+  });
+
+  it('resolves the most specific component rate', () => {
+    const rules = { app: 0.5, 'app:db': { debug: 0.1 }, 'app:*:cache': 0.01 };
+
+    expect(resolveNamespaceRate(rules, 'app:db', 'debug')).toBe(0.1);
+    expect(resolveNamespaceRate(rules, 'app:db', 'info')).toBe(0.5);
+    expect(resolveNamespaceRate(rules, 'app:ui:cache', 'info')).toBe(0.01);
+    expect(resolveNamespaceRate(rules, 'billing', 'info')).toBeUndefined();
+  });
+
+  it('samples logger events by key and records the decision', () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({
+      level: 'debug',
+      sampling: { debug: 0.5 },
+      keySampling: { key: 'session', components: { audit: 1 } },
+      transports: [transport]
+    });
+    const sessions = Array.from({ length: 50 }, (_, i) => `session-${i}`);
+
+    sessions.forEach(sessionId => {
+      const session = logger.withContext({ sessionId });
+      session.debug('first');
+      session.debug('second');
+      session.info('always kept');
+    });
+
+    const sampled = transport.writeCalls.filter(event => event.level === 'debug');
+    const bySession = new Map<unknown, number>();
+    sampled.forEach(event => bySession.set(event.context.sessionId, (bySession.get(event.context.sessionId) ?? 0) + 1));
+
+    expect([...bySession.values()].every(count => count === 2)).toBe(true);
+    expect(bySession.size).toBeGreaterThan(0);
+    expect(bySession.size).toBeLessThan(sessions.length);
+    expect(sampled[0].sampling).toEqual({ rate: 0.5, key: 'session' });
+    expect(transport.writeCalls.filter(event => event.level === 'info')).toHaveLength(sessions.length);
+    expect(transport.writeCalls.find(event => event.level === 'info')?.sampling).toBeUndefined();
+  });
+
+  it('applies component rates over level rates', () => {
+    const transport = new MockTransport();
+    const logger = new LoggerImpl({
+      component: 'app',
+      keySampling: { components: { 'app:noisy': 0 } },
+      transports: [transport]
+    });
+
+    new LoggerImpl({ component: 'app:noisy' }, 'noisy', logger).info('dropped');
+    logger.info('kept');
+
+    expect(transport.writeCalls.map(event => event.message)).toEqual(['kept']);
+  });
+
+  it('rejects component rates outside 0-1', () => {
+    expect(() => new LoggerImpl({ keySampling: { components: { app: { debug: 2 } } } }))
+      .toThrow('Sampling rate must be between 0 and 1');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for the LogEventData serialization codec
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  LOG_EVENT_SCHEMA_VERSION,
+  encodeValue,
+  decodeValue,
+  encodeEvent,
+  decodeEvent,
+  serializeEvent,
+  deserializeEvent
+} from '../../src/logger/serialization.js';
+import type { LogEventData } from '../../src/logger/types.js';
+
+const createEvent = (overrides: Partial<LogEventData> = {}): LogEventData => ({
+  level: 'error',
+  message: 'Checkout failed',
+  timestamp: 1700000000000,
+  context: {},
+  args: [],
+  component: 'checkout',
+  logger: 'test',
+  ...overrides
+});
+
+const roundTrip = (value: unknown): unknown => decodeValue(JSON.parse(JSON.stringify(encodeValue(value))));
+
+describe('serialization codec', () => {
+  it('round-trips values plain JSON loses', () => {
+    const date = new Date('2024-01-02T03:04:05.000Z');
+    const value = roundTrip({
+      id: 9007199254740993n,
+      when: date,
+      lookup: new Map<unknown, unknown>([['a', 1], [2, new Set(['x'])]]),
+      bytes: new Uint8Array([1, 2, 255]),
+      big: new BigInt64Array([5n]),
+      pattern: /ab+c/gi,
+      ratio: NaN,
+      missing: [undefined]
+    }) as Record<string, unknown>;
+
+    expect(value.id).toBe(9007199254740993n);
+    expect(value.when).toEqual(date);
+    expect(value.lookup).toEqual(new Map<unknown, unknown>([['a', 1], [2, new Set(['x'])]]));
+    expect(value.bytes).toEqual(new Uint8Array([1, 2, 255]));
+    expect(value.big).toEqual(new BigInt64Array([5n]));
+    expect(value.pattern).toEqual(/ab+c/gi);
+    expect(value.ratio).toBeNaN();
+    expect(value.missing).toEqual([undefined]);
+  });
+
+  it('round-trips errors with their type, stack, cause and extra fields', () => {
+    const cause = new Error('socket closed');
+    const error = Object.assign(new TypeError('bad response', { cause }), { code: 'E_BAD' });
+
+    const decoded = roundTrip(error) as TypeError & { code: string; cause: Error };
+
+    expect(decoded).toBeInstanceOf(TypeError);
+    expect(decoded.message).toBe('bad response');
+    expect(decoded.stack).toBe(error.stack);
+    expect(decoded.code).toBe('E_BAD');
+    expect(decoded.cause.message).toBe('socket closed');
+  });
+
+  it('replaces circular references and deep values with markers', () => {
+    const circular: Record<string, unknown> = { name: 'node' };
+    circular.self = circular;
+    const shared = { ok: true };
+
+    expect(encodeValue({ circular, a: shared, b: shared })).toEqual({
+      circular: { name: 'node', self: '[Circular]' },
+      a: { ok: true },
+      b: { ok: true }
+    });
+    expect(encodeValue({ a: { b: { c: 1 } } }, { maxDepth: 2 })).toEqual({ a: { b: '[MaxDepth]' } });
+    expect(encodeValue('abcdef', { maxStringLength: 3 })).toBe('abc...[truncated 3 chars]');
+    expect(encodeValue({ fn: function handler() {} })).toEqual({ fn: '[Function: handler]' });
+  });
+
+  it('keeps plain objects with a $type key intact', () => {
+    expect(roundTrip({ $type: 'BigInt', value: '1' })).toEqual({ $type: 'BigInt', value: '1' });
+  });
+});
+
+describe('event encoding', () => {
+  it('versions events and restores them', () => {
+    const event = createEvent({ context: { orderId: 42n }, args: [new Error('boom')] });
+
+    const json = serializeEvent(event);
+    const decoded = deserializeEvent(json);
+
+    expect(JSON.parse(json).schemaVersion).toBe(LOG_EVENT_SCHEMA_VERSION);
+    expect(decoded).not.toHaveProperty('schemaVersion');
+    expect(decoded.context.orderId).toBe(42n);
+    expect(decoded.args[0]).toBeInstanceOf(Error);
+  });
+
+  it('accepts unversioned events and rejects unknown versions', () => {
+    expect(decodeEvent(createEvent())).toEqual(createEvent());
+    expect(() => decodeEvent({ ...encodeEvent(createEvent()), schemaVersion: 99 })).toThrow(
+      'Unsupported log event schema version: 99'
+    );
+    expect(() => decodeEvent('event')).toThrow(TypeError);
+  });
+
+  it('drops context and args, then shortens the message, beyond maxSize', () => {
+    const event = createEvent({ context: { blob: 'x'.repeat(5000) }, args: ['y'.repeat(5000)] });
+
+    const reduced = deserializeEvent(serializeEvent(event, { maxSize: 1000 }));
+    expect(reduced.context).toEqual({ truncated: true, originalSize: expect.any(Number) });
+    expect(reduced.args).toEqual([]);
+    expect(reduced.message).toBe('Checkout failed');
+
+    const json = serializeEvent(createEvent({ message: 'z'.repeat(5000) }), { maxSize: 1000 });
+    expect(json.length).toBeLessThanOrEqual(1000);
+    expect(deserializeEvent(json).message).toMatch(/\.\.\.\[truncated\]$/);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,233 @@
+/**
+ * Unit tests for distributed tracing spans and W3C Trace Context helpers
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import {
+  parseTraceparent,
+  formatTraceparent,
+  parseTracestate,
+  formatTracestate,
+  generateTraceId,
+  generateSpanId
+} from '../../src/logger/tracing.js';
+import type { LogEventData, MetricData } from '../../src/logger/types.js';
+
+class MockTransport {
+  public writeCalls: LogEventData[] = [];
+  public name = 'mock-transport';
+
+  write(eventData: LogEventData) {
+    this.writeCalls.push(eventData);
+  }
+
+  flush() {}
+  close() {}
+
+  get metrics(): MetricData[] {
+    return this.writeCalls
+      .filter(call => call.message.startsWith('Metric: '))
+      .map(call => call.args[0] as MetricData);
+  }
+}
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+const TRACEPARENT = `00-${TRACE_ID}-${SPAN_ID}-01`;
+
+describe('W3C Trace Context helpers', () => {
+  describe('parseTraceparent()', () => {
+    it('parses a valid header', () => {
+      expect(parseTraceparent(TRACEPARENT)).toEqual({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        sampled: true
+      });
+      expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`)?.sampled).toBe(false);
+    });
+
+    it('normalizes case and whitespace', () => {
+      expect(parseTraceparent(`  ${TRACEPARENT.toUpperCase()} `)?.traceId).toBe(TRACE_ID);
+    });
+
+    it('accepts future versions with extra fields', () => {
+      expect(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01-extra`)?.spanId).toBe(SPAN_ID);
+    });
+
+    it('rejects invalid headers', () => {
+      expect(parseTraceparent('')).toBeNull();
+      expect(parseTraceparent('garbage')).toBeNull();
+      expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeNull();
+      expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01-extra`)).toBeNull();
+      expect(parseTraceparent(`00-${'0'.repeat(32)}-${SPAN_ID}-01`)).toBeNull();
+      expect(parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`)).toBeNull();
+      expect(parseTraceparent(`00-${TRACE_ID.slice(1)}-${SPAN_ID}-01`)).toBeNull();
+    });
+  });
+
+  it('formats a traceparent header', () => {
+    expect(formatTraceparent({ traceId: TRACE_ID, spanId: SPAN_ID, sampled: true })).toBe(TRACEPARENT);
+    expect(formatTraceparent({ traceId: TRACE_ID, spanId: SPAN_ID, sampled: false })).toMatch(/-00$/);
+  });
+
+  describe('tracestate', () => {
+    it('parses ordered entries and skips invalid or duplicate members', () => {
+      expect(parseTracestate('congo=t61rcWkgMzE, rojo=00f067aa0ba902b7,,bad key=1,congo=dup,tenant@vendor=x'))
+        .toEqual([
+          ['congo', 't61rcWkgMzE'],
+          ['rojo', '00f067aa0ba902b7'],
+          ['tenant@vendor', 'x']
+        ]);
+      expect(parseTracestate('')).toEqual([]);
+    });
+
+    it('limits entries to 32 members', () => {
+      const header = Array.from({ length: 40 }, (_, i) => `k${i}=v${i}`).join(',');
+      expect(parseTracestate(header)).toHaveLength(32);
+    });
+
+    it('formats entries and records', () => {
+      expect(formatTracestate([['rojo', '1'], ['congo', '2']])).toBe('rojo=1,congo=2');
+      expect(formatTracestate({ rojo: '1', 'Invalid Key': '2' })).toBe('rojo=1');
+    });
+  });
+
+  it('generates random hex IDs of the correct length', () => {
+    const traceId = generateTraceId();
+    const spanId = generateSpanId();
+
+    expect(traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(generateTraceId()).not.toBe(traceId);
+  });
+});
+
+describe('LoggerImpl spans', () => {
+  let transport: MockTransport;
+  let logger: LoggerImpl;
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    transport = new MockTransport();
+    logger = new LoggerImpl({ level: 'debug', component: 'checkout', transports: [transport] });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('injects trace and span IDs while a span is active', () => {
+    logger.info('before');
+    const span = logger.startSpan('checkout');
+    logger.info('during');
+    logger.exception(new Error('failed'));
+    span.end();
+    logger.info('after');
+
+    const [before, during, failure, , after] = transport.writeCalls;
+    expect(before.traceId).toBeUndefined();
+    expect(during).toMatchObject({ traceId: span.traceId, spanId: span.spanId });
+    expect(failure).toMatchObject({ traceId: span.traceId, spanId: span.spanId });
+    expect(after.traceId).toBeUndefined();
+    expect(logger.getActiveSpan()).toBeUndefined();
+  });
+
+  it('creates nested child spans in the same trace', () => {
+    const root = logger.startSpan('root');
+    const child = root.startChild('child');
+    const grandchild = logger.startSpan('grandchild');
+
+    expect(child.traceId).toBe(root.traceId);
+    expect(child.parentSpanId).toBe(root.spanId);
+    expect(grandchild.parentSpanId).toBe(child.spanId);
+    expect(logger.getActiveSpan()).toBe(grandchild);
+
+    grandchild.end();
+    expect(logger.getActiveSpan()).toBe(child);
+    child.end();
+    expect(logger.getActiveSpan()).toBe(root);
+  });
+
+  it('records a duration metric attributed to the ending span', () => {
+    const root = logger.startSpan('root', { attributes: { route: '/cart' } });
+    const child = root.startChild('child');
+    now = 30;
+
+    // End out of order: the root metric must still carry the root span ID
+    root.setAttribute('items', 3);
+    expect(root.end({ status: 'ok' })).toBe(30);
+    expect(root.end()).toBe(30);
+    expect(logger.getActiveSpan()).toBe(child);
+
+    now = 50;
+    child.end();
+
+    const metricEvents = transport.writeCalls.filter(call => call.message.startsWith('Metric: '));
+    expect(metricEvents).toHaveLength(2);
+    expect(metricEvents[0].spanId).toBe(root.spanId);
+    expect(transport.metrics[0]).toMatchObject({
+      name: 'root',
+      fields: { route: '/cart', items: 3, status: 'ok', duration: 30 }
+    });
+    expect(transport.metrics[1].fields).toEqual({ parentSpanId: root.spanId, duration: 50 });
+    expect(root.ended).toBe(true);
+  });
+
+  it('continues an incoming trace from a traceparent header', () => {
+    const span = logger.startSpan('handle', { parent: TRACEPARENT, traceState: 'vendor=abc' });
+
+    expect(span.traceId).toBe(TRACE_ID);
+    expect(span.parentSpanId).toBe(SPAN_ID);
+    expect(span.spanId).not.toBe(SPAN_ID);
+    expect(span.toTraceparent()).toBe(`00-${TRACE_ID}-${span.spanId}-01`);
+    expect(logger.getTraceparent()).toBe(span.toTraceparent());
+    expect(span.startChild('nested').traceState).toBe('vendor=abc');
+  });
+
+  it('propagates the sampled flag and starts a new trace for invalid parents', () => {
+    const unsampled = logger.startSpan('a', { parent: `00-${TRACE_ID}-${SPAN_ID}-00` });
+    expect(unsampled.toTraceparent()).toMatch(/-00$/);
+
+    const fresh = logger.startSpan('b', { parent: 'not-a-traceparent' });
+    expect(fresh.traceId).not.toBe(TRACE_ID);
+    expect(fresh.parentSpanId).toBeUndefined();
+  });
+
+  it('returns undefined traceparent without an active span', () => {
+    expect(logger.getTraceparent()).toBeUndefined();
+  });
+
+  describe('withSpan()', () => {
+    it('ends the span when a sync function returns', () => {
+      const result = logger.withSpan('compute', span => {
+        logger.info('inside');
+        return span.spanId;
+      });
+
+      expect(transport.writeCalls[0].spanId).toBe(result);
+      expect(transport.metrics[0].fields).toMatchObject({ success: true });
+      expect(logger.getActiveSpan()).toBeUndefined();
+    });
+
+    it('ends the span when a promise settles', async () => {
+      await expect(logger.withSpan('load', async () => {
+        now = 12;
+        throw new TypeError('offline');
+      })).rejects.toThrow('offline');
+
+      expect(transport.metrics[0].fields).toEqual({ success: false, error: 'TypeError', duration: 12 });
+      expect(logger.getActiveSpan()).toBeUndefined();
+    });
+
+    it('ends the span when a sync function throws', () => {
+      expect(() => logger.withSpan('fail', () => {
+        throw new Error('boom');
+      })).toThrow('boom');
+
+      expect(transport.metrics[0].fields).toMatchObject({ success: false, error: 'Error' });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,245 @@
+/**
+ * Unit tests for bounded transport write queues
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { TransportQueue } from '../../src/logger/transport-queue.js';
+import { TransportRegistry } from '../../src/logger/transport-registry.js';
+import { LoggerImpl } from '../../src/logger/logger-impl.js';
+import type { DroppedEventsReport, LogEventData, Transport } from '../../src/logger/types.js';
+
+class SlowTransport implements Transport {
+  public name = 'slow';
+  public written: string[] = [];
+  public inFlight = 0;
+  public maxInFlight = 0;
+  private released = false;
+  private releases: Array<() => void> = [];
+
+  write(event: LogEventData): Promise<void> {
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    return new Promise(resolve => {
+      const done = () => {
+        this.inFlight--;
+        this.written.push(event.message);
+        resolve();
+      };
+      if (this.released) {
+        setTimeout(done, 0);
+      } else {
+        this.releases.push(done);
+      }
+    });
+  }
+
+  /** Completes pending writes; later writes complete on the next tick */
+  release(): void {
+    this.released = true;
+    this.releases.splice(0).forEach(done => done());
+  }
+
+  flush() {}
+  close() {}
+}
+
+const createEvent = (message: string, level: LogEventData['level'] = 'info'): LogEventData => ({
+  level,
+  message,
+  timestamp: Date.now(),
+  context: {},
+  args: [],
+  component: 'test',
+  logger: 'test'
+});
+
+const fill = (queue: TransportQueue, events: Array<[string, LogEventData['level']?]>) => {
+  events.forEach(([message, level]) => queue.enqueue(createEvent(message, level)));
+};
+
+describe('TransportQueue', () => {
+  it('writes off the caller stack with one async write in flight', async () => {
+    const transport = new SlowTransport();
+    const queue = new TransportQueue(transport, {}, () => {}, () => {});
+
+    fill(queue, [['a'], ['b'], ['c']]);
+    expect(transport.inFlight).toBe(0);
+
+    const flushed = queue.flush();
+    await Promise.resolve();
+    expect(transport.inFlight).toBe(1);
+
+    transport.release();
+    await flushed;
+    expect(transport.written).toEqual(['a', 'b', 'c']);
+    expect(transport.maxInFlight).toBe(1);
+  });
+
+  it('drops the oldest or newest events when full and reports them once drained', async () => {
+    const reports: DroppedEventsReport[] = [];
+    const oldest = new SlowTransport();
+    const newest = new SlowTransport();
+    const dropOldest = new TransportQueue(oldest, { maxSize: 2 }, report => reports.push(report), () => {});
+    const dropNewest = new TransportQueue(newest, { maxSize: 2, overflow: 'drop-newest' }, () => {}, () => {});
+
+    fill(dropOldest, [['a'], ['b'], ['c'], ['d']]);
+    fill(dropNewest, [['a'], ['b'], ['c'], ['d']]);
+    expect(dropOldest.droppedCount).toBe(2);
+
+    const flushed = Promise.all([dropOldest.flush(), dropNewest.flush()]);
+    oldest.release();
+    newest.release();
+    await flushed;
+
+    expect(oldest.written).toEqual(['c', 'd']);
+    expect(newest.written).toEqual(['a', 'b']);
+    expect(reports).toEqual([{ transport: 'slow', dropped: 2, policy: 'drop-oldest' }]);
+    expect(dropOldest.droppedCount).toBe(0);
+  });
+
+  it('drops events below a level first with the drop-below policy', async () => {
+    const transport = new SlowTransport();
+    const queue = new TransportQueue(transport, { maxSize: 3, overflow: 'drop-below', dropBelow: 'warn' }, () => {}, () => {});
+
+    fill(queue, [['debug', 'debug'], ['warn', 'warn'], ['info', 'info'], ['error', 'error'], ['late', 'debug']]);
+    expect(queue.size).toBe(3);
+    expect(queue.droppedCount).toBe(2);
+
+    // Full of events at or above the level: incoming events below it are dropped
+    queue.enqueue(createEvent('dropped', 'info'));
+    expect(queue.droppedCount).toBe(3);
+
+    const flushed = queue.flush();
+    transport.release();
+    await flushed;
+    expect(transport.written).toEqual(['warn', 'error', 'late']);
+  });
+
+  it('writes out the buffer on the caller stack with the block policy', () => {
+    const written: string[] = [];
+    const transport: Transport = { name: 'sync', write: event => { written.push(event.message); }, flush() {}, close() {} };
+    const queue = new TransportQueue(transport, { maxSize: 2, overflow: 'block' }, () => {}, () => {});
+
+    fill(queue, [['a'], ['b']]);
+    expect(written).toEqual([]);
+
+    queue.enqueue(createEvent('c'));
+    expect(written).toEqual(['a', 'b', 'c']);
+    expect(queue.droppedCount).toBe(0);
+  });
+
+  it('keeps one write in flight and a bounded buffer with the block policy and an async transport', async () => {
+    const transport = new SlowTransport();
+    const reports: DroppedEventsReport[] = [];
+    const queue = new TransportQueue(transport, { maxSize: 2, overflow: 'block' }, report => reports.push(report), () => {});
+
+    fill(queue, [['a'], ['b'], ['c'], ['d'], ['e']]);
+
+    expect(transport.inFlight).toBe(1);
+    expect(queue.size).toBe(2);
+    expect(queue.droppedCount).toBe(2);
+
+    const flushed = queue.flush();
+    transport.release();
+    await flushed;
+    expect(transport.maxInFlight).toBe(1);
+    expect(transport.written).toEqual(['a', 'b', 'c']);
+    expect(reports).toEqual([{ transport: 'slow', dropped: 2, policy: 'block' }]);
+  });
+
+  it('isolates write errors', async () => {
+    const onError = vi.fn();
+    const transport: Transport = { name: 'failing', write: () => Promise.reject(new Error('offline')), flush() {}, close() {} };
+    const queue = new TransportQueue(transport, {}, () => {}, onError);
+
+    fill(queue, [['a'], ['b']]);
+    await queue.flush();
+
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+
+  it('validates its configuration', () => {
+    const transport = new SlowTransport();
+    expect(() => new TransportQueue(transport, { maxSize: 0 }, () => {}, () => {})).toThrow('Queue size must be at least 1: 0');
+    expect(() => new TransportQueue(transport, { dropBelow: 'loud' }, () => {}, () => {})).toThrow('Invalid log level: loud');
+    expect(() => new TransportQueue(transport, { flushTimeoutMs: -1 }, () => {}, () => {})).toThrow('Flush timeout must not be negative: -1');
+  });
+
+  it('stops waiting for a write that never settles after the flush timeout', async () => {
+    let settle: () => void = () => {};
+    const transport: Transport = {
+      name: 'hung',
+      write: () => new Promise<void>(resolve => { settle = resolve; }),
+      flush() {},
+      close() {}
+    };
+    const reports: DroppedEventsReport[] = [];
+    const onSuccess = vi.fn();
+    const queue = new TransportQueue(transport, { flushTimeoutMs: 10 }, report => reports.push(report), () => {}, onSuccess);
+
+    fill(queue, [['a'], ['b'], ['c']]);
+    await queue.flush();
+
+    expect(reports).toEqual([{ transport: 'hung', dropped: 3, policy: 'drop-oldest', timedOut: true }]);
+    expect(queue.size).toBe(0);
+
+    settle();
+    await Promise.resolve();
+    expect(onSuccess).not.toHaveBeenCalled();
+  });
+
+  it('bounds registry flushes and closes and counts the abandoned events as dropped', async () => {
+    const transport: Transport = { name: 'hung', write: () => new Promise<void>(() => {}), flush() {}, close: vi.fn() };
+    const registry = new TransportRegistry({ queue: { flushTimeoutMs: 10 } });
+    registry.add(transport);
+
+    registry.writeToAll(createEvent('a'));
+    registry.writeToAll(createEvent('b'));
+    await registry.flushAll();
+    expect(registry.getStats().hung).toMatchObject({ dropped: 2, queued: 0 });
+
+    registry.writeToAll(createEvent('c'));
+    await registry.closeAll();
+    expect(transport.close).toHaveBeenCalled();
+  });
+
+  it('queues registry writes and drains them on flushAll', async () => {
+    const transport = new SlowTransport();
+    const registry = new TransportRegistry({ queue: { maxSize: 10 } });
+    registry.add(transport);
+
+    registry.writeToAll(createEvent('queued'));
+    expect(transport.inFlight).toBe(0);
+
+    const flushed = registry.flushAll();
+    transport.release();
+    await flushed;
+    expect(transport.written).toEqual(['queued']);
+  });
+
+  it('reports dropped events as a warning through the logger', async () => {
+    const transport = new SlowTransport();
+    const logger = new LoggerImpl({ queue: { maxSize: 2, overflow: 'drop-newest' }, transports: [transport] });
+
+    ['a', 'b', 'c', 'd', 'e'].forEach(message => logger.info(message));
+
+    const flushed = logger.flush();
+    transport.release();
+    await flushed;
+
+    expect(transport.written).toEqual(['a', 'b', 'Transport slow dropped 3 log events (queue full, drop-newest)']);
+  });
+
+  it('reports events abandoned by a timed-out flush through the logger', async () => {
+    const transport = new SlowTransport();
+    const logger = new LoggerImpl({ queue: { flushTimeoutMs: 10 }, transports: [transport] });
+
+    logger.info('a');
+    logger.info('b');
+    await logger.flush();
+
+    transport.release();
+    await logger.flush();
+    expect(transport.written).toContain('Transport slow dropped 2 log events (flush timed out)');
+  });
+});
\ No newline at end of file
@@ -251,6 +251,69 @@ describe('TransportRegistry', () => {
     });
   });
 
+  describe('Routing', () => {
+    const event = (level: LogEventData['level'], component: string): LogEventData => ({
+      ...testEventData,
+      level,
+      component
+    });
+
+    it('filters transports by minimum level', () => {
+      registry.add(mockTransport1);
+      registry.add(mockTransport2, { minLevel: 'error' });
+
+      registry.writeToAll(event('info', 'app'));
+      registry.writeToAll(event('error', 'app'));
+
+      expect(mockTransport1.writeCalls.map(e => e.level)).toEqual(['info', 'error']);
+      expect(mockTransport2.writeCalls.map(e => e.level)).toEqual(['error']);
+    });
+
+    it('filters transports by component namespace and pattern', () => {
+      registry.add(mockTransport1, { components: ['app:*'], excludeComponents: ['payments'] });
+      registry.add(mockTransport2, { excludeComponents: ['payments'] });
+
+      ['app:ui', 'payments', 'payments:refunds', 'billing'].forEach(component => {
+        registry.writeToAll(event('info', component));
+      });
+
+      expect(mockTransport1.writeCalls.map(e => e.component)).toEqual(['app:ui']);
+      expect(mockTransport2.writeCalls.map(e => e.component)).toEqual(['app:ui', 'billing']);
+    });
+
+    it('applies predicates per event and isolates predicate errors', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      registry.add(mockTransport1, { predicate: e => e.context.audit === true });
+      registry.add(mockTransport2, { predicate: () => { throw new Error('bad predicate'); } });
+
+      registry.writeToAll({ ...testEventData, context: { audit: true } });
+      registry.writeToAll(testEventData);
+
+      expect(mockTransport1.writeCalls).toHaveLength(1);
+      expect(mockTransport2.writeCalls).toHaveLength(0);
+      expect(consoleSpy).toHaveBeenCalledWith('Transport transport2 route failed:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+
+    it('changes routes at runtime', () => {
+      registry.add(mockTransport1, { minLevel: 'error' });
+
+      registry.writeToAll(event('info', 'app'));
+      registry.setRoute('transport1', { minLevel: 'info' });
+      registry.writeToAll(event('info', 'app'));
+      registry.setRoute('transport1', undefined);
+      registry.writeToAll(event('debug', 'app'));
+
+      expect(mockTransport1.writeCalls.map(e => e.level)).toEqual(['info', 'debug']);
+      expect(registry.getRoute('transport1')).toBeUndefined();
+    });
+
+    it('validates routes', () => {
+      expect(() => registry.add(mockTransport1, { minLevel: 'loud' })).toThrow('Invalid log level: loud');
+      expect(() => registry.setRoute('missing', {})).toThrow("Transport 'missing' not found");
+    });
+  });
+
   describe('Flush Operations', () => {
     it('flushes all registered transports', async () => {
       registry.add(mockTransport1);
@@ -6,7 +6,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { LoggerImpl, createLogger } from '../../src/logger/index.js';
+import { LoggerImpl, createLogger, lazy } from '../../src/logger/index.js';
 import { TEST_CONSTANTS } from '../test-constants.js';
 
 // Simple mock transport that tracks timing
@@ -349,6 +349,87 @@ describe('Logger Performance Benchmarks', () => {
     });
   });
 
+  describe('Lazy Evaluation Performance', () => {
+    const largePayload = Object.fromEntries(
+      Array.from({ length: 200 }, (_, i) => [`field${i}`, { id: i, tags: ['a', 'b', 'c'], nested: { value: i * 2 } }])
+    );
+
+    it('makes disabled lazy calls near zero-cost', () => {
+      const logger = new LoggerImpl({
+        level: 'info',
+        transports: [benchmarkTransport]
+      });
+      const iterations = 1000;
+      let evaluations = 0;
+
+      const eagerStart = performance.now();
+      for (let i = 0; i < iterations; i++) {
+        logger.debug(`Payload ${i}: ${JSON.stringify(largePayload)}`);
+      }
+      const eagerDuration = performance.now() - eagerStart;
+
+      const lazyStart = performance.now();
+      for (let i = 0; i < iterations; i++) {
+        logger.debug(() => {
+          evaluations++;
+          return `Payload ${i}: ${JSON.stringify(largePayload)}`;
+        }, lazy(() => {
+          evaluations++;
+          return largePayload;
+        }));
+      }
+      const lazyDuration = performance.now() - lazyStart;
+
+      console.log(`Disabled eager debug logs: ${eagerDuration.toFixed(2)}ms`);
+      console.log(`Disabled lazy debug logs: ${lazyDuration.toFixed(2)}ms (${(lazyDuration / iterations).toFixed(4)}ms per call)`);
+
+      expect(evaluations).toBe(0);
+      expect(benchmarkTransport.writeCount).toBe(0);
+      expect(lazyDuration).toBeLessThan(eagerDuration / 5); // Cost of the call itself, not the payload
+    });
+
+    it('skips evaluation for sampled-out lazy calls', () => {
+      const logger = new LoggerImpl({
+        sampling: { debug: 0 },
+        level: 'debug',
+        transports: [benchmarkTransport]
+      });
+      let evaluations = 0;
+
+      for (let i = 0; i < 1000; i++) {
+        logger.debug(() => {
+          evaluations++;
+          return JSON.stringify(largePayload);
+        });
+      }
+
+      expect(evaluations).toBe(0);
+      expect(benchmarkTransport.writeCount).toBe(0);
+    });
+
+    it('adds little overhead to enabled lazy calls', () => {
+      const eagerLogger = new LoggerImpl({ level: 'debug', transports: [new NoOpTransport()] });
+      const lazyLogger = new LoggerImpl({ level: 'debug', transports: [new NoOpTransport()] });
+      const iterations = 1000;
+
+      const eagerStart = performance.now();
+      for (let i = 0; i < iterations; i++) {
+        eagerLogger.debug(`Enabled log ${i}`, { index: i });
+      }
+      const eagerDuration = performance.now() - eagerStart;
+
+      const lazyStart = performance.now();
+      for (let i = 0; i < iterations; i++) {
+        lazyLogger.debug(() => `Enabled log ${i}`, lazy(() => ({ index: i })));
+      }
+      const lazyDuration = performance.now() - lazyStart;
+
+      console.log(`Enabled eager logs: ${eagerDuration.toFixed(2)}ms, enabled lazy logs: ${lazyDuration.toFixed(2)}ms`);
+
+      expect(lazyDuration / iterations).toBeLessThan(0.5);
+    });
+  });
+
   describe('Factory Function Performance', () => {
     it('createLogger factory is fast', () => {
       const iterations = 1000;
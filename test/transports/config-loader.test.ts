@@ -0,0 +1,195 @@
+/**
+ * Tests for declarative logger configuration and transport factories
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createLoggerFromConfig,
+  getLoggerConfigSchema,
+  validateLoggerConfig
+} from '../../src/transports/config-loader.js';
+import {
+  getTransportTypes,
+  registerTransportFactory,
+  unregisterTransportFactory
+} from '../../src/transports/transport-factories.js';
+import type { LogEventData, Transport } from '../../src/logger/types.js';
+
+/** Transport that records written events */
+function createMemoryTransport(name: string): Transport & { events: LogEventData[] } {
+  const events: LogEventData[] = [];
+  return {
+    name,
+    events,
+    write: event => { events.push(event); },
+    flush: () => {},
+    close: () => {}
+  };
+}
+
+describe('Transport factories', () => {
+  afterEach(() => {
+    unregisterTransportFactory('memory');
+  });
+
+  it('registers the built-in types first', () => {
+    expect(getTransportTypes().slice(0, 3)).toEqual(['console', 'sendbeacon', 'eventbus']);
+  });
+
+  it('protects built-in types and validates factories', () => {
+    const create = () => createMemoryTransport('memory');
+
+    expect(() => registerTransportFactory('console', { create })).toThrow('Cannot redefine built-in transport type: console');
+    expect(() => unregisterTransportFactory('eventbus')).toThrow('Cannot remove built-in transport type: eventbus');
+    expect(() => registerTransportFactory('', { create })).toThrow(TypeError);
+    expect(() => registerTransportFactory('memory', {} as never)).toThrow('must have a create function');
+  });
+});
+
+describe('validateLoggerConfig', () => {
+  it('accepts valid configuration as JSON text or parsed', () => {
+    const config = {
+      level: 'info',
+      transports: [
+        { type: 'console', format: 'compact' },
+        { type: 'sendbeacon', endpoint: '/api/logs', batchSize: 50 }
+      ]
+    };
+
+    expect(validateLoggerConfig(config)).toEqual([]);
+    expect(validateLoggerConfig(JSON.stringify(config))).toEqual([]);
+  });
+
+  it('checks transport options against the factory schema', () => {
+    expect(validateLoggerConfig({
+      transports: [
+        { type: 'console', colours: true },
+        { type: 'sendbeacon', endpoint: '/api/logs', batchSize: 0 },
+        { type: 'sendbeacon' },
+        { type: 'kafka' }
+      ]
+    })).toEqual([
+      'transports[0].colours is not a known option',
+      'transports[1].batchSize must be > 0',
+      'transports[2].endpoint is required',
+      'transports[3].type must be one of "console", "sendbeacon", "eventbus"'
+    ]);
+  });
+
+  it('checks level names against the registered and custom levels', () => {
+    const levels = '"trace", "debug", "info", "warn", "error"';
+
+    expect(validateLoggerConfig({
+      level: 'warning',
+      levels: { 'checkout:*': 'verbose' },
+      flightRecorder: { triggerLevel: 'fatal' },
+      queue: { dropBelow: 'notice' },
+      routes: { errors: { minLevel: 'err' } }
+    })).toEqual([
+      `level must be one of ${levels}`,
+      `levels.checkout:* must be one of ${levels}`,
+      `flightRecorder.triggerLevel must be one of ${levels}`,
+      `queue.dropBelow must be one of ${levels}`,
+      `routes.errors.minLevel must be one of ${levels}`
+    ]);
+    expect(validateLoggerConfig({ levels: 'api:*=warn,ui:*=loud' })).toEqual([`levels must be one of ${levels}`]);
+    expect(validateLoggerConfig({
+      level: 'audit',
+      customLevels: [{ name: 'audit', priority: 25 }],
+      routes: { audit: { minLevel: 'audit' } }
+    })).toEqual([]);
+  });
+
+  it('checks that redaction patterns compile with their flags', () => {
+    const errors = validateLoggerConfig({
+      redaction: {
+        patterns: [
+          { pattern: 'ORD-\\d+', flags: 'gi', replacement: '<order>' },
+          { pattern: 'a', flags: 'gg', replacement: '<a>' },
+          { pattern: '\\-', flags: 'gu', replacement: '<dash>' }
+        ]
+      }
+    });
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/^redaction\.patterns\[1\] must be a valid regular expression with flags "gg"/);
+    expect(errors[1]).toMatch(/^redaction\.patterns\[2\] must be a valid regular expression with flags "gu"/);
+  });
+
+  it('reports JSON syntax errors', () => {
+    expect(validateLoggerConfig('{ "level": ')[0]).toMatch(/^config is not valid JSON/);
+  });
+
+  it('includes custom transport types in the schema', () => {
+    registerTransportFactory('memory', {
+      schema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+      create: ({ name }) => createMemoryTransport(name as string)
+    });
+
+    const items = getLoggerConfigSchema().properties?.transports.items;
+    expect(items?.properties?.type.enum).toContain('memory');
+    expect(validateLoggerConfig({ transports: [{ type: 'memory' }] })).toEqual(['transports[0].name is required']);
+  });
+});
+
+describe('createLoggerFromConfig', () => {
+  afterEach(() => {
+    unregisterTransportFactory('memory');
+  });
+
+  it('creates a logger with transports from their factories', async () => {
+    const memory = createMemoryTransport('memory');
+    const create = vi.fn(() => memory);
+    registerTransportFactory('memory', { create });
+
+    const logger = createLoggerFromConfig(JSON.stringify({
+      level: 'warn',
+      component: 'checkout',
+      redaction: { patterns: [{ pattern: 'ORD-\\d{6}', replacement: '<order>' }] },
+      transports: [{ type: 'memory', region: 'eu' }]
+    }), { tenant: 'acme' });
+
+    logger.info('filtered');
+    logger.warn('Order ORD-123456 delayed');
+
+    expect(create).toHaveBeenCalledWith({ region: 'eu' }, { tenant: 'acme' });
+    expect(memory.events).toHaveLength(1);
+    expect(memory.events[0]).toMatchObject({ component: 'checkout', message: 'Order <order> delayed' });
+    await logger.destroy();
+  });
+
+  it('passes the eventBus to eventbus transports', async () => {
+    const eventBus = { post: vi.fn() };
+
+    const logger = createLoggerFromConfig({ transports: [{ type: 'eventbus' }] }, { eventBus });
+    logger.info('published');
+
+    expect(eventBus.post).toHaveBeenCalled();
+    await logger.destroy();
+  });
+
+  it('throws with every validation problem', () => {
+    expect(() => createLoggerFromConfig({
+      level: 'info',
+      sampling: { debug: -1 },
+      transports: [{ type: 'sendbeacon', endpoint: '/api/logs', batchSize: 0 }]
+    })).toThrow('Invalid logger config: sampling.debug must be >= 0; transports[0].batchSize must be > 0');
+  });
+
+  it('names the transport entry that could not be created', () => {
+    expect(() => createLoggerFromConfig({ transports: [{ type: 'console' }, { type: 'eventbus' }] })).toThrow(
+      'transports[1] could not be created: An eventbus transport needs an eventBus in the factory context'
+    );
+  });
+
+  it('closes the transports already created when a later one cannot be created', () => {
+    const memory = createMemoryTransport('memory');
+    const close = vi.spyOn(memory, 'close');
+    registerTransportFactory('memory', { create: () => memory });
+
+    expect(() => createLoggerFromConfig({ transports: [{ type: 'memory' }, { type: 'eventbus' }] })).toThrow(
+      'transports[1] could not be created'
+    );
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+});
\ No newline at end of file
@@ -1,8 +1,18 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ConsoleTransport, createConsoleTransport } from '../../src/transports/console-transport.js';
 import { Environment } from '../../src/transports/transport-interface.js';
+import { registerLevel, unregisterLevel, EXTENDED_LEVELS } from '../../src/logger/level-registry.js';
 import type { LogEventData, LogLevel } from '../../src/logger/types.js';
 
+// Custom levels these tests register, declared like an application would
+declare module '../../src/logger/types.js' {
+  interface CustomLogLevels {
+    fatal: true;
+    notice: true;
+    verbose: true;
+  }
+}
+
 describe('ConsoleTransport', () => {
   let mockConsole: {
     log: ReturnType<typeof vi.fn>;
@@ -116,6 +126,23 @@ describe('ConsoleTransport', () => {
       expect(mockConsole.log).toHaveBeenCalledWith('WARN  [test] warn message');
     });
 
+    it('maps custom levels to their console method or severity', () => {
+      registerLevel(EXTENDED_LEVELS.fatal);
+      registerLevel({ name: 'verbose', priority: 0.5, severity: 'debug' });
+      const transport = new ConsoleTransport({ colors: false, timestamps: false, consoleMethods: { notice: 'log' } });
+
+      transport.write(createTestEvent('fatal', 'fatal message'));
+      transport.write(createTestEvent('verbose', 'verbose message'));
+      transport.write(createTestEvent('notice', 'notice message'));
+
+      expect(mockConsole.error).toHaveBeenCalledWith('FATAL [test] fatal message');
+      expect(mockConsole.debug).toHaveBeenCalledWith('VERBOSE [test] verbose message');
+      expect(mockConsole.log).toHaveBeenCalledWith('NOTICE [test] notice message');
+
+      unregisterLevel('fatal');
+      unregisterLevel('verbose');
+    });
+
     it('falls back to console.log when method not available', () => {
       const incompleteConsole = { log: vi.fn() };
       globalThis.console = incompleteConsole as any;
@@ -406,6 +433,21 @@ describe('ConsoleTransport', () => {
         expect(errorCall).toContain('\x1b[31m'); // Red for error
       });
 
+      it('uses custom level colors, falling back to the severity color', () => {
+        registerLevel(EXTENDED_LEVELS.fatal);
+        registerLevel({ name: 'verbose', priority: 0.5, severity: 'debug' });
+        const transport = new ConsoleTransport({ colors: true, timestamps: false });
+
+        transport.write(createTestEvent('fatal', 'fatal message'));
+        transport.write(createTestEvent('verbose', 'verbose message'));
+
+        expect(mockConsole.error.mock.calls[0][0]).toContain(`${EXTENDED_LEVELS.fatal.color}FATAL`);
+        expect(mockConsole.debug.mock.calls[0][0]).toContain('\x1b[34mVERBOSE'); // Blue, like debug
+
+        unregisterLevel('fatal');
+        unregisterLevel('verbose');
+      });
+
       it('formats context and args with ANSI colors in pretty mode', () => {
         const transport = new ConsoleTransport({ 
           colors: true, 
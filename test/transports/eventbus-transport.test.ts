@@ -4,7 +4,8 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { EventBusTransport, createEventBusTransport, type EventBusTransportConfig, type EventBusInterface } from '../../src/transports/eventbus-transport.js';
-import { LogEvent, MetricEvent, ErrorEvent } from '../../src/logger/events.js';
+import { LogEvent, MetricEvent, ErrorEvent, LoggerConfigChangedEvent } from '../../src/logger/events.js';
+import { registerLevel, unregisterLevel, EXTENDED_LEVELS } from '../../src/logger/level-registry.js';
 import type { LogEventData } from '../../src/logger/types.js';
 
 describe('EventBusTransport', () => {
@@ -86,6 +87,21 @@ describe('EventBusTransport', () => {
       expect(publishedEvent.error.message).toBe('Something went wrong');
     });
 
+    it('should publish ErrorEvent for custom levels with error severity', () => {
+      registerLevel(EXTENDED_LEVELS.fatal);
+      registerLevel(EXTENDED_LEVELS.notice);
+
+      transport.write(createMockEvent('fatal', 'Database unreachable'));
+      transport.write(createMockEvent('notice', 'Deploy finished'));
+
+      expect(publishSpy.mock.calls[0][0]).toBeInstanceOf(ErrorEvent);
+      expect(publishSpy.mock.calls[1][0]).toBeInstanceOf(LogEvent);
+      expect(publishSpy.mock.calls[1][0].level).toBe('notice');
+
+      unregisterLevel('fatal');
+      unregisterLevel('notice');
+    });
+
     it('should publish ErrorEvent when Error object in context', () => {
       const testError = new Error('Test error');
       const event: LogEventData = {
@@ -117,6 +133,32 @@ describe('EventBusTransport', () => {
       expect(publishedEvent.error).toBe(testError);
     });
 
+    it('should publish ErrorEvent from structured error data', () => {
+      const event: LogEventData = {
+        ...createMockEvent('info', 'Quota exceeded'),
+        error: {
+          name: 'QuotaExceededError',
+          message: 'Quota exceeded',
+          stack: 'QuotaExceededError: Quota exceeded\n    at save (store.js:1:1)',
+          handled: false,
+          timestamp: 1234,
+          context: { testId: '123' },
+          component: 'storage'
+        }
+      };
+      transport.write(event);
+
+      expect(publishSpy).toHaveBeenCalledTimes(1);
+      const publishedEvent = publishSpy.mock.calls[0][0];
+      expect(publishedEvent).toBeInstanceOf(ErrorEvent);
+      expect(publishedEvent.name).toBe('QuotaExceededError');
+      expect(publishedEvent.message).toBe('Quota exceeded');
+      expect(publishedEvent.stack).toContain('store.js');
+      expect(publishedEvent.handled).toBe(false);
+      expect(publishedEvent.component).toBe('storage');
+      expect(publishedEvent.timestamp).toBe(1234);
+    });
+
     it('should publish MetricEvent for metric-style messages', () => {
       const event: LogEventData = {
         ...createMockEvent('info', 'timing: page load'),
@@ -572,8 +614,19 @@ describe('EventBusTransport', () => {
       const publishedEvent = publishSpy.mock.calls[0][0];
       expect(publishedEvent.constructor.name).toBe('LoggerConfigChangedEvent');
       expect(publishedEvent.loggerName).toBe(loggerName);
+      expect(publishedEvent.oldConfig).toEqual({});
       expect(publishedEvent.newConfig).toEqual(config);
-      expect(publishedEvent.changes).toEqual(['transport-initiated']);
+      expect(publishedEvent.changes).toEqual(['level', 'component']);
+    });
+
+    it('should diff config changed events against the last known config', () => {
+      transport.publishLifecycleEvent('created', { level: 'info', component: 'app' }, 'test-logger');
+      transport.publishLifecycleEvent('config-changed', { level: 'debug', component: 'app' }, 'test-logger');
+
+      const publishedEvent = publishSpy.mock.calls[1][0];
+      expect(publishedEvent.oldConfig).toEqual({ level: 'info', component: 'app' });
+      expect(publishedEvent.newConfig).toEqual({ level: 'debug', component: 'app' });
+      expect(publishedEvent.changes).toEqual(['level']);
     });
 
     it('should use transport name as default logger name', () => {
@@ -591,10 +644,19 @@ describe('EventBusTransport', () => {
       });
 
       transport.publishLifecycleEvent('created', { level: 'info' });
+      transport.onConfigChanged(new LoggerConfigChangedEvent('app', {}, { level: 'debug' }, ['level']));
 
       expect(publishSpy).not.toHaveBeenCalled();
     });
 
+    it('should publish config changes reported by the logger as-is', () => {
+      const event = new LoggerConfigChangedEvent('app', { level: 'warn' }, { level: 'debug' }, ['level']);
+
+      transport.onConfigChanged(event);
+
+      expect(publishSpy).toHaveBeenCalledWith(event);
+    });
+
     it('should handle lifecycle event publishing errors gracefully', () => {
       publishSpy.mockImplementation(() => {
         throw new Error('EventBus post failed');
@@ -270,6 +270,23 @@ describe('SendBeaconTransport', () => {
       expect(sentBlob).toBeInstanceOf(Blob);
       expect(sentBlob.size).toBeGreaterThan(0);
     });
+
+    it('should send message templates and parameters for aggregation', async () => {
+      sendBeaconMock.mockReturnValue(false);
+      transport.write({
+        ...createMockEvent('warn', 'Order o_42 failed 3 times'),
+        messageTemplate: 'Order {orderId} failed {attempts} times',
+        params: { orderId: 'o_42', attempts: 3 }
+      });
+      await transport.flush();
+
+      const envelope = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(envelope.events[0]).toMatchObject({
+        message: 'Order o_42 failed 3 times',
+        messageTemplate: 'Order {orderId} failed {attempts} times',
+        params: { orderId: 'o_42', attempts: 3 }
+      });
+    });
   });
 
   describe('offline support', () => {
@@ -301,6 +318,23 @@ describe('SendBeaconTransport', () => {
       expect(events).toHaveLength(1);
     });
 
+    it('should store offline events with the serialization codec', async () => {
+      transport = new SendBeaconTransport({
+        ...mockConfig,
+        enableOfflineStorage: true
+      });
+      (transport as any).isOnline = false;
+
+      transport.write({ ...createMockEvent('error', 'Offline error'), context: { orderId: 42n } });
+      await transport.flush();
+
+      const stored = JSON.parse(localStorage.getItem('lever_ui_logger_offline_events')!);
+      expect(stored[0].event).toMatchObject({ schemaVersion: 1, context: { orderId: { $type: 'BigInt', value: '42' } } });
+
+      const restored = (transport as any).getOfflineEvents();
+      expect(restored[0].event.context.orderId).toBe(42n);
+    });
+
     it('should load and send offline events when coming online', async () => {
       // Store offline events first
       const offlineEvents = [{
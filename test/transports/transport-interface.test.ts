@@ -90,8 +90,8 @@ describe('Formatters', () => {
       circular.self = circular;
       
       const result = Formatters.prettyObject(circular);
-      expect(typeof result).toBe('string');
-      expect(result).not.toContain('"self"'); // Should fallback to String()
+      expect(result).toContain('"name": "test"');
+      expect(result).toContain('"self": "[Circular]"');
     });
 
     it('handles non-serializable objects', () => {
@@ -118,8 +118,31 @@ describe('Formatters', () => {
       circular.self = circular;
       
       const result = Formatters.compactObject(circular);
-      expect(typeof result).toBe('string');
-      expect(result).not.toContain('"self"');
+      expect(result).toBe('{"name":"test","self":"[Circular]"}');
+    });
+
+    it('shows values plain JSON cannot represent without codec tags', () => {
+      const result = Formatters.compactObject({
+        id: 10n,
+        error: new RangeError('bad'),
+        tags: new Set(['a']),
+        counts: new Map([['a', 1]]),
+        at: new Date(0)
+      });
+
+      expect(result).not.toContain('$type');
+      expect(result).toContain('"id":"10n"');
+      expect(result).toContain('"error":{"name":"RangeError","message":"bad","stack":');
+      expect(result).toContain('"tags":["a"]');
+      expect(result).toContain('"counts":{"a":1}');
+      expect(result).toContain('"at":"1970-01-01T00:00:00.000Z"');
+    });
+
+    it('prints undefined array items as null like JSON', () => {
+      expect(Formatters.compactObject([1, undefined, 3])).toBe('[1,null,3]');
+      expect(Formatters.compactObject({ a: undefined, b: 1 })).toBe('{"b":1}');
+      expect(Formatters.compactObject(5n)).toBe('"5n"');
+      expect(Formatters.compactObject(undefined)).toBe('undefined');
     });
 
     it('handles primitives correctly', () => {
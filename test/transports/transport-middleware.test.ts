@@ -15,8 +15,17 @@ import {
   batchAggregator,
   type MiddlewareContext,
 } from '../../src/transports/transport-middleware.js';
+import { registerLevel, unregisterLevel, EXTENDED_LEVELS } from '../../src/logger/level-registry.js';
 import type { LogEventData } from '../../src/logger/types.js';
 
+// Custom levels these tests register, declared like an application would
+declare module '../../src/logger/types.js' {
+  interface CustomLogLevels {
+    fatal: true;
+    notice: true;
+  }
+}
+
 describe('TransportMiddleware', () => {
   let middleware: TransportMiddleware;
 
@@ -207,6 +216,19 @@ describe('TransportMiddleware', () => {
         }
       }
     });
+
+    it('should order custom levels by priority', async () => {
+      registerLevel(EXTENDED_LEVELS.notice);
+      registerLevel(EXTENDED_LEVELS.fatal);
+      middleware.use(filterByLevel('notice'));
+
+      expect(await middleware.execute(createLogEvent({ level: 'info' }))).toBeNull();
+      expect(await middleware.execute(createLogEvent({ level: 'notice' }))).not.toBeNull();
+      expect(await middleware.execute(createLogEvent({ level: 'fatal' }))).not.toBeNull();
+
+      unregisterLevel('notice');
+      unregisterLevel('fatal');
+    });
   });
 
   describe('ensureTimestamp middleware', () => {
@@ -362,6 +384,24 @@ describe('TransportMiddleware', () => {
       mathSpy.mockRestore();
     });
 
+    it('should sample all events with the same key together and record the rate', async () => {
+      const mathSpy = vi.spyOn(Math, 'random');
+      middleware.use(sample(0.5, 'session'));
+
+      const results = await Promise.all(
+        Array.from({ length: 20 }, (_, i) => middleware.execute(createLogEvent({ context: { sessionId: `s-${i % 10}` } })))
+      );
+
+      for (let i = 0; i < 10; i++) {
+        expect(results[i] === null).toBe(results[i + 10] === null);
+      }
+      const kept = results.find(result => result !== null);
+      expect(kept?.event.sampling).toEqual({ rate: 0.5, key: 'session' });
+      expect(mathSpy).not.toHaveBeenCalled();
+
+      mathSpy.mockRestore();
+    });
+
     it('should validate sample rate', () => {
       expect(() => sample(-0.1)).toThrow('Sample rate must be between 0 and 1');
       expect(() => sample(1.1)).toThrow('Sample rate must be between 0 and 1');